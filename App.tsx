@@ -1,9 +1,34 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ReadingContent, GeneratedAsset, AppState } from './types';
+import { ReadingContent, GeneratedAsset, AppState, AppSettings, WordTiming, Scene, ImageDetail, PlatformId, PublishRecord } from './types';
 import * as geminiService from './services/geminiService';
 import * as videoGenService from './services/videoGenService';
+import * as offlineRenderService from './services/offlineRenderService';
+import * as wordTimingService from './services/wordTimingService';
+import * as storageService from './services/storageService';
+import * as assetCache from './services/assetCache';
+import * as imageProviders from './services/imageProviders';
+import * as imageEditService from './services/imageEditService';
+import * as ttsProviders from './services/ttsProviders';
+import * as psalmService from './services/psalmService';
+import * as settingsService from './services/settingsService';
+import * as videoTemplate from './services/videoTemplate';
+import * as outputFormats from './services/outputFormats';
+import * as subtitleService from './services/subtitleService';
+import * as sceneService from './services/sceneService';
+import * as musicService from './services/musicService';
+import * as languageService from './services/languageService';
+import * as jobQueue from './services/jobQueue';
+import * as progressService from './services/progressService';
+import * as batchService from './services/batchService';
+import * as exportService from './services/exportService';
+import * as publishService from './services/publishService';
 import ReadingCard from './components/ReadingCard';
-import { Bot, Calendar, Search, AlertCircle, Loader2, Sparkles, Zap } from 'lucide-react';
+import SessionList from './components/SessionList';
+import SettingsPanel from './components/SettingsPanel';
+import JobQueuePanel from './components/JobQueuePanel';
+import BatchProgress from './components/BatchProgress';
+import BatchPanel from './components/BatchPanel';
+import { Bot, Calendar, Search, AlertCircle, Loader2, Sparkles, Zap, History, Settings, MessageSquareQuote, Languages, ListChecks, CalendarRange, Package } from 'lucide-react';
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
@@ -20,55 +45,196 @@ const App: React.FC = () => {
   const stateRef = useRef(state);
   useEffect(() => { stateRef.current = state; }, [state]);
 
-  // --- AUTOMATION EFFECT 1: Trigger Assets when Readings are loaded ---
-  useEffect(() => {
-    if (state.isAutoMode && state.readings.length > 0) {
-      // Check if ANY generation is currently in progress globally to avoid rate limits
-      const isGeneratingSomething = Object.values(state.assets).some(
-        a => a.isGeneratingImage || a.isGeneratingAudio || a.isGeneratingVideo
-      );
+  // --- SETTINGS (localStorage) ---
+  const [settings, setSettings] = useState<AppSettings>(() => settingsService.loadSettings());
+  const [showSettings, setShowSettings] = useState(false);
 
-      if (isGeneratingSomething) return;
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    settingsService.saveSettings(next);
+  };
 
-      // Find the FIRST reading that needs processing (sequential processing)
-      const pendingReading = state.readings.find(reading => {
-        const asset = state.assets[reading.id];
-        const hasImages = asset.imageUrls && asset.imageUrls.length > 0;
-        return !hasImages || !asset.audioUrl;
+  // Video look shared by the preview and the render
+  const [template, setTemplate] = useState<videoTemplate.VideoTemplate>(videoTemplate.DEFAULT_TEMPLATE);
+  useEffect(() => {
+    let cancelled = false;
+    videoTemplate.loadTemplate(settings.templateId, settings.templateUrl)
+      .then(loaded => {
+        // The cover intro can be switched on for any template
+        const coverIntro = settings.coverIntro ? loaded.coverIntro || videoGenService.COVER_INTRO_SECONDS : loaded.coverIntro;
+        if (!cancelled) setTemplate({ ...loaded, coverIntro });
+      })
+      .catch(err => {
+        console.error("Error cargando la plantilla:", err);
+        if (!cancelled) setState(prev => ({ ...prev, error: err.message || "No se pudo cargar la plantilla." }));
       });
+    return () => { cancelled = true; };
+  }, [settings.templateId, settings.templateUrl, settings.coverIntro]);
 
-      if (pendingReading) {
-        handleGenerateAllAssets(pendingReading);
-      }
+  // Sizes every video is rendered in, from the same images and narration
+  const formats = outputFormats.resolveOutputFormats(settings.outputFormats);
+
+  // --- JOB QUEUE (assets, renders, reflections) ---
+  const [queue] = useState(() => jobQueue.createJobQueue());
+  const [queueSnapshot, setQueueSnapshot] = useState(queue.getSnapshot);
+  const [showQueue, setShowQueue] = useState(false);
+  useEffect(() => queue.subscribe(setQueueSnapshot), [queue]);
+
+  const activeJobs = queueSnapshot.jobs.filter(job => job.state === 'queued' || job.state === 'running');
+  const failedJobs = queueSnapshot.jobs.filter(job => job.state === 'failed');
+
+  const jobLabel = (action: string, reading: ReadingContent) => {
+    const language = languageService.getReadingLanguage(reading);
+    return `${action}: ${reading.title}${language.id !== languageService.DEFAULT_LANGUAGE ? ` (${language.id.toUpperCase()})` : ''}`;
+  };
+
+  // --- PERSISTENCE (IndexedDB) ---
+  const [sessions, setSessions] = useState<storageService.SessionSummary[]>([]);
+  const [showSessions, setShowSessions] = useState(false);
+  // Date the loaded readings belong to (the date picker may have moved since)
+  const sessionDateRef = useRef<string | null>(null);
+  // Last persisted media per reading, to only write when something changed
+  const savedSignatures = useRef<Record<string, string>>({});
+
+  const assetSignature = (asset: GeneratedAsset) => JSON.stringify([
+    asset.imageUrls, asset.imageDetails, asset.audioUrl, asset.wordTimings?.length, asset.scenes, asset.videoUrl, asset.videos, asset.metadata, asset.publications
+  ]);
+
+  const refreshSessions = async () => {
+    try {
+      setSessions(await storageService.listSessions());
+    } catch (err) {
+      console.error("Error listando sesiones:", err);
     }
-  }, [state.readings, state.assets, state.isAutoMode]);
+  };
+
+  const applyRestoredSession = (restored: storageService.RestoredSession) => {
+    // Pending work belongs to the readings being replaced
+    queue.cancelAll();
+    sessionDateRef.current = restored.date;
+    savedSignatures.current = {};
+    Object.values(restored.assets).forEach(asset => {
+      savedSignatures.current[asset.readingId] = assetSignature(asset);
+    });
 
-  // --- AUTOMATION EFFECT 2: Trigger Video when Assets are ready ---
+    setState(prev => ({
+      ...prev,
+      date: restored.date,
+      readings: restored.readings,
+      assets: restored.assets,
+      isLoading: false,
+      isAutoMode: false,
+      error: null
+    }));
+  };
+
+  // Restore the most recent session on mount so a reload does not lose work
   useEffect(() => {
-    if (state.isAutoMode) {
-      // 1. Check if ANY video is currently rendering to enforce "one by one"
-      const isRenderingVideo = Object.values(state.assets).some(a => a.isGeneratingVideo);
-      if (isRenderingVideo) return;
-
-      // 2. Find the FIRST asset that is ready to render
-      const readyAsset = Object.values(state.assets).find((asset: GeneratedAsset) => {
-        const hasImages = asset.imageUrls && asset.imageUrls.length > 0;
-        return hasImages && asset.audioUrl && !asset.videoUrl && !asset.isGeneratingVideo;
-      });
+    storageService.loadLatestSession()
+      .then(restored => {
+        if (restored && stateRef.current.readings.length === 0) applyRestoredSession(restored);
+      })
+      .catch(err => console.error("Error restaurando sesión:", err))
+      .finally(refreshSessions);
+  }, []);
+
+  // Publishing accounts; null while the publish server is unreachable.
+  // Re-read on focus, when the user comes back from an OAuth tab.
+  const [publishAccounts, setPublishAccounts] = useState<publishService.PublishAccount[] | null>(null);
+  useEffect(() => {
+    const refresh = () => publishService.fetchAccounts().then(setPublishAccounts).catch(() => setPublishAccounts(null));
+    refresh();
+    window.addEventListener('focus', refresh);
+    return () => window.removeEventListener('focus', refresh);
+  }, []);
 
-      // 3. Trigger render for that specific asset
-      if (readyAsset) {
-        const reading = state.readings.find(r => r.id === readyAsset.readingId);
-        if (reading) {
-          handleRenderVideo(reading);
+  // Persist any reading whose media changed since the last save
+  useEffect(() => {
+    const date = sessionDateRef.current;
+    if (!date) return;
+
+    const changed = state.readings.filter(reading => {
+      const asset = state.assets[reading.id];
+      if (!asset || asset.isGeneratingImage || asset.isGeneratingAudio || asset.isGeneratingVideo) return false;
+      return savedSignatures.current[reading.id] !== assetSignature(asset);
+    });
+    if (changed.length === 0) return;
+
+    changed.forEach(reading => {
+      savedSignatures.current[reading.id] = assetSignature(state.assets[reading.id]);
+    });
+
+    Promise.all(changed.map(reading => storageService.saveAsset(date, reading, state.assets[reading.id])))
+      .then(refreshSessions)
+      .catch(err => console.error("Error guardando assets:", err));
+  }, [state.readings, state.assets]);
+
+  const handleOpenSession = async (date: string) => {
+    try {
+      const restored = await storageService.loadSession(date);
+      if (restored) applyRestoredSession(restored);
+      setShowSessions(false);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: `No se pudo abrir la sesión: ${err.message || err}` }));
+    }
+  };
+
+  const handleDeleteSession = async (date: string) => {
+    if (!confirm(`¿Eliminar la sesión del ${date}?`)) return;
+    try {
+      await storageService.deleteSession(date);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: `No se pudo eliminar la sesión: ${err.message || err}` }));
+      return;
+    }
+    // The open session goes with it, or the next save would bring its assets back
+    if (date === sessionDateRef.current) {
+      queue.cancelAll();
+      sessionDateRef.current = null;
+      savedSignatures.current = {};
+      setState(prev => ({ ...prev, readings: [], assets: {}, isAutoMode: false, error: null }));
+    }
+    refreshSessions();
+  };
+
+  // --- AUTOMATION: queue whatever each reading still needs ---
+  // A reading gets at most one job of each kind per run: once it fails for
+  // good it stays failed (retry from the queue panel) instead of looping.
+  useEffect(() => {
+    if (!state.isAutoMode || state.isLoading) return;
+    const hasJob = (kind: jobQueue.JobKind, readingId: string) =>
+      queueSnapshot.jobs.some(job => job.kind === kind && job.readingId === readingId);
+
+    let enqueued = false;
+    state.readings.forEach(reading => {
+      const asset = state.assets[reading.id];
+      if (!asset) return;
+      const hasImages = asset.imageUrls && asset.imageUrls.length > 0;
+
+      if (!hasImages || !asset.audioUrl) {
+        if (!hasJob('assets', reading.id) && !asset.isGeneratingImage) {
+          enqueueAssets(reading);
+          enqueued = true;
         }
+      } else if (!asset.videoUrl && !hasJob('video', reading.id)) {
+        enqueueVideo(reading);
+        enqueued = true;
       }
+    });
+
+    // Nothing left to do (failed jobs wait for the user)
+    if (!enqueued && activeJobs.length === 0) {
+      setState(prev => ({ ...prev, isAutoMode: false }));
     }
-  }, [state.assets, state.isAutoMode]);
+  }, [state.readings, state.assets, state.isAutoMode, state.isLoading, queueSnapshot]);
 
-  const handleFetchReadings = async (enableAutoMode: boolean = false) => {
+  const handleFetchReadings = async (enableAutoMode: boolean = false, date: string = state.date) => {
+    // A new run starts with an empty queue
+    queue.cancelAll();
+    queue.clearFinished();
     setState(prev => ({
       ...prev,
+      date,
       isLoading: true,
       error: null,
       readings: [],
@@ -76,11 +242,31 @@ const App: React.FC = () => {
     }));
 
     try {
-      const readings = await geminiService.fetchDailyReadings(state.date);
+      // One parallel set per language, each from its own backend source
+      const fetched = (await Promise.all(
+        settings.languages.map(language => geminiService.fetchDailyReadings(date, "", language))
+      )).flat();
+
+      // Resume a saved session for this date (e.g. after a reload mid-run)
+      const saved = await storageService.loadSession(date).catch(() => null);
+
+      // Reflections written earlier (and maybe edited) are kept as the 5th video
+      const savedReflections = (saved?.readings || []).filter(r =>
+        r.type === 'reflection' && settings.languages.includes(languageService.getReadingLanguage(r).id)
+      );
+      const readings = languageService.groupByLanguage([...fetched, ...savedReflections]);
 
       // Initialize assets state for each reading
       const initialAssets: Record<string, GeneratedAsset> = {};
+      savedSignatures.current = {};
       readings.forEach(r => {
+        // IDs are stable per date + type + reference
+        const savedAsset = saved?.assets[r.id];
+        if (savedAsset) {
+          initialAssets[r.id] = { ...savedAsset, readingId: r.id };
+          savedSignatures.current[r.id] = assetSignature(initialAssets[r.id]);
+          return;
+        }
         initialAssets[r.id] = {
           readingId: r.id,
           isGeneratingAudio: false,
@@ -90,6 +276,11 @@ const App: React.FC = () => {
         };
       });
 
+      sessionDateRef.current = date;
+      storageService.saveSession(date, readings)
+        .then(refreshSessions)
+        .catch(err => console.error("Error guardando sesión:", err));
+
       setState(prev => ({
         ...prev,
         readings,
@@ -97,6 +288,11 @@ const App: React.FC = () => {
         isLoading: false
         // isAutoMode remains what it was set to at start of function
       }));
+
+      // Full automation also writes the reflections (manual runs use the button)
+      if (enableAutoMode && languageService.getLanguagesWithoutReflection(readings).length > 0) {
+        enqueueReflection(readings, date);
+      }
     } catch (err: any) {
       setState(prev => ({
         ...prev,
@@ -107,9 +303,282 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGenerateAllAssets = async (reading: ReadingContent) => {
-    // Prevent double trigger
-    if (stateRef.current.assets[reading.id]?.isGeneratingImage) return;
+  // --- MULTI-DAY BATCH: one automatic run per day, in order ---
+  const [batch, setBatch] = useState<batchService.BatchRun | null>(null);
+  const [showBatch, setShowBatch] = useState(false);
+
+  const handleStartBatch = (from: string, to: string) => {
+    let dates: string[];
+    try {
+      dates = batchService.listDates(from, to);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: err.message }));
+      return;
+    }
+    setBatch({ dates, index: 0, running: true, statuses: { [dates[0]]: 'running' } });
+    handleFetchReadings(true, dates[0]);
+  };
+
+  // The day being produced stops where it is; its saved work stays
+  const handleStopBatch = () => {
+    queue.cancelAll();
+    setState(prev => ({ ...prev, isAutoMode: false }));
+    setBatch(prev => {
+      if (!prev) return prev;
+      const { [prev.dates[prev.index]]: _, ...statuses } = prev.statuses;
+      return { ...prev, running: false, statuses };
+    });
+  };
+
+  // When a day's automatic run ends (or its fetch fails), record it and start the next
+  useEffect(() => {
+    if (!batch?.running || state.isAutoMode || state.isLoading) return;
+    const { readings, assets, error } = stateRef.current;
+    const videos = readings.filter(r => assets[r.id]?.videoUrl).length;
+    const status = error ? 'failed' : batchService.getDayStatus(readings.length, videos);
+
+    const next = batch.index + 1;
+    const running = next < batch.dates.length;
+    setBatch({
+      ...batch,
+      index: next,
+      running,
+      statuses: { ...batch.statuses, [batch.dates[batch.index]]: status, ...(running && { [batch.dates[next]]: 'running' as const }) }
+    });
+    if (running) handleFetchReadings(true, batch.dates[next]);
+  }, [state.isAutoMode, state.isLoading, batch]);
+
+  // --- REFLECTION (5th video) ---
+  const isGeneratingReflection = activeJobs.some(job => job.kind === 'reflection');
+
+  const runGenerateReflection = async (readings: ReadingContent[], date: string, signal: AbortSignal) => {
+    // One reflection per language, each written from its own readings
+    const reflections = await Promise.all(languageService.getLanguagesWithoutReflection(readings).map(language =>
+      geminiService.generateReflection(
+        readings.filter(r => languageService.getReadingLanguage(r).id === language),
+        date,
+        settings.reflection
+      )
+    ));
+    signal.throwIfAborted();
+    const nextReadings = languageService.groupByLanguage([...readings, ...reflections]);
+
+    setState(prev => {
+      const assets = { ...prev.assets };
+      reflections.forEach(reflection => {
+        assets[reflection.id] = {
+          readingId: reflection.id,
+          isGeneratingAudio: false,
+          isGeneratingImage: false,
+          isGeneratingVideo: false,
+          imageUrls: []
+        };
+      });
+      return {
+        ...prev,
+        readings: languageService.groupByLanguage([...prev.readings, ...reflections]),
+        assets
+      };
+    });
+
+    storageService.saveSession(date, nextReadings)
+      .then(refreshSessions)
+      .catch(err => console.error("Error guardando sesión:", err));
+  };
+
+  const enqueueReflection = (
+    readings: ReadingContent[] = stateRef.current.readings,
+    date: string = sessionDateRef.current || stateRef.current.date
+  ) => {
+    queue.enqueue({
+      kind: 'reflection',
+      label: "Reflexión del Evangelio",
+      resources: ['gemini'],
+      run: (signal) => runGenerateReflection(readings, date, signal)
+    });
+  };
+
+  /**
+   * Script edits (reflection): the narration and video no longer match the
+   * text, so they are dropped; the images are kept.
+   */
+  const handleEditReadingText = (reading: ReadingContent, text: string) => {
+    const date = sessionDateRef.current;
+    const nextReadings = stateRef.current.readings.map(r => r.id === reading.id ? { ...r, text } : r);
+
+    setState(prev => {
+      const asset = prev.assets[reading.id];
+      const before = prev.readings.find(r => r.id === reading.id) || reading;
+      return {
+        ...prev,
+        readings: prev.readings.map(r => r.id === reading.id ? { ...r, text } : r),
+        assets: {
+          ...prev.assets,
+          [reading.id]: {
+            ...asset,
+            audioUrl: undefined,
+            wordTimings: undefined,
+            videoUrl: undefined,
+            videos: undefined,
+            subtitles: undefined, // Made from the old text
+            metadata: undefined,
+            // Pins point at words of the old text
+            scenes: asset?.scenes && sceneService.repinScenes(asset.scenes, before, { ...before, text })
+          }
+        }
+      };
+    });
+
+    if (date) {
+      storageService.saveSession(date, nextReadings).catch(err => console.error("Error guardando sesión:", err));
+    }
+  };
+
+  // --- EXPORT PACKAGE ---
+  const isExporting = activeJobs.some(job => job.kind === 'export');
+
+  /**
+   * ZIP of the day's videos with the post text for every platform. Texts are
+   * written once per reading and kept with its assets.
+   */
+  const runExportPackage = async (date: string, signal: AbortSignal, report: jobQueue.ReportProgress) => {
+    const { readings, assets } = stateRef.current;
+    const exported = readings.filter(reading => assets[reading.id]?.videoUrl);
+    const missing = exported.filter(reading => !assets[reading.id].metadata);
+
+    const metadata: Record<string, GeneratedAsset['metadata']> = {};
+    for (const [index, reading] of missing.entries()) {
+      report(index / (missing.length + 1), `Textos ${index + 1}/${missing.length}`);
+      metadata[reading.id] = await geminiService.generatePostMetadata(reading);
+      signal.throwIfAborted();
+    }
+
+    if (missing.length > 0) {
+      setState(prev => {
+        const nextAssets = { ...prev.assets };
+        Object.entries(metadata).forEach(([readingId, value]) => {
+          if (nextAssets[readingId]) nextAssets[readingId] = { ...nextAssets[readingId], metadata: value };
+        });
+        return { ...prev, assets: nextAssets };
+      });
+    }
+
+    report(missing.length / (missing.length + 1), "Empaquetando");
+    const merged = { ...assets };
+    Object.entries(metadata).forEach(([readingId, value]) => {
+      merged[readingId] = { ...merged[readingId], metadata: value };
+    });
+    const zip = await exportService.buildDayPackage(date, exported, merged, template);
+    signal.throwIfAborted();
+
+    const url = URL.createObjectURL(zip);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = exportService.getPackageFileName(date);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const enqueueExport = () => {
+    const date = sessionDateRef.current || stateRef.current.date;
+    queue.enqueue({
+      kind: 'export',
+      label: `Paquete ${date}`,
+      resources: ['gemini'],
+      run: (signal, report) => runExportPackage(date, signal, report)
+    });
+  };
+
+  // --- PUBLISHING ---
+  const setPublication = (readingId: string, platform: PlatformId, record: PublishRecord) => {
+    setState(prev => {
+      const asset = prev.assets[readingId];
+      if (!asset) return prev;
+      return {
+        ...prev,
+        assets: { ...prev.assets, [readingId]: { ...asset, publications: { ...asset.publications, [platform]: record } } }
+      };
+    });
+  };
+
+  /**
+   * Uploads the reading's video to each platform through the publish server,
+   * now or at `scheduledAt` (ISO). Post texts are written first if missing.
+   */
+  const handlePublish = (reading: ReadingContent, platforms: PlatformId[], scheduledAt?: string) => {
+    const asset = stateRef.current.assets[reading.id];
+    // Platforms still to publish; a retry only repeats the ones that failed
+    let targets = platforms;
+    if (!asset || targets.length === 0) return;
+
+    const run = async (signal: AbortSignal, report: jobQueue.ReportProgress) => {
+      const current = stateRef.current.assets[reading.id];
+      const videoUrl = current && publishService.pickPublishVideo(current);
+      if (!videoUrl) throw new Error("Renderiza el video antes de publicarlo.");
+
+      let metadata = current.metadata;
+      if (!metadata) {
+        report(0, "Textos");
+        metadata = await geminiService.generatePostMetadata(reading);
+        signal.throwIfAborted();
+        const written = metadata;
+        setState(prev => ({
+          ...prev,
+          assets: { ...prev.assets, [reading.id]: { ...prev.assets[reading.id], metadata: written } }
+        }));
+      }
+      const fallback = exportService.buildFallbackMetadata(reading);
+      const video = await (await fetch(videoUrl)).blob();
+
+      const failed: { platform: PlatformId; error: string }[] = [];
+      for (const [index, platform] of targets.entries()) {
+        const label = exportService.PLATFORM_OPTIONS.find(option => option.id === platform)?.label || platform;
+        report(index / targets.length, `${label} ${index + 1}/${targets.length}`);
+        setPublication(reading.id, platform, { status: 'uploading', scheduledAt, updatedAt: new Date().toISOString() });
+        try {
+          const record = await publishService.publishVideo(platform, video, metadata[platform] || fallback[platform], scheduledAt, signal);
+          setPublication(reading.id, platform, record);
+        } catch (error: any) {
+          const message = signal.aborted ? "Cancelado" : error.message || String(error);
+          setPublication(reading.id, platform, { status: 'failed', error: message, updatedAt: new Date().toISOString() });
+          failed.push({ platform, error: message });
+        }
+        signal.throwIfAborted();
+      }
+
+      targets = failed.map(failure => failure.platform);
+      if (failed.length > 0) throw new Error(failed.map(failure => `${failure.platform}: ${failure.error}`).join(" · "));
+    };
+
+    queue.enqueue({
+      kind: 'publish',
+      label: jobLabel(`Publicar en ${targets.join(", ")}`, reading),
+      readingId: reading.id,
+      resources: asset.metadata ? ['publish'] : ['gemini', 'publish'],
+      run
+    });
+  };
+
+  // Asks the platforms how the pending uploads are doing
+  const handleRefreshPublications = async (reading: ReadingContent) => {
+    const publications = stateRef.current.assets[reading.id]?.publications || {};
+    await Promise.all(Object.entries(publications).map(async ([platform, record]) => {
+      if (!record?.remoteId || record.status === 'published' || record.status === 'failed') return;
+      try {
+        setPublication(reading.id, platform as PlatformId, await publishService.fetchPublishStatus(platform as PlatformId, record.remoteId));
+      } catch (error) {
+        console.error(`Error consultando ${platform}:`, error);
+      }
+    }));
+  };
+
+  const runGenerateAllAssets = async (reading: ReadingContent, signal: AbortSignal, report: jobQueue.ReportProgress) => {
+    const currentAsset = stateRef.current.assets[reading.id];
+
+    // "Regenerar Assets" on a complete reading must skip the cache
+    const isRegeneration = !!(currentAsset?.imageUrls && currentAsset.imageUrls.length > 0 && currentAsset.audioUrl);
 
     setState(prev => ({
       ...prev,
@@ -124,53 +593,323 @@ const App: React.FC = () => {
     }));
 
     try {
+      const imageProvider = imageProviders.createImageProvider(settings);
+      const imageSize = outputFormats.getImageRequestSize(formats);
+      const imageCacheKey = `${imageProvider.cacheKey}@${imageSize.width}x${imageSize.height}`;
+      const voice = settings.tts[reading.type];
+      const voiceName = ttsProviders.getVoiceName(voice, reading.language);
+      const ttsProvider = ttsProviders.createTtsProvider(voice.provider, settings, storageService.loadRecording);
+      const voiceKey = `${ttsProvider.cacheKey}:${voiceName}`;
+      const narrationText = psalmService.getNarrationText(reading);
+
+      const [cachedImages, cachedAudio] = isRegeneration
+        ? [null, null]
+        : await Promise.all([
+          assetCache.getCachedImages(reading, imageCacheKey),
+          ttsProvider.cacheable ? assetCache.getCachedAudio(narrationText, voiceKey) : Promise.resolve(null)
+        ]);
+
+      // Images and narration run side by side, each half of the job
+      const images = { done: cachedImages ? 1 : 0, total: cachedImages ? 1 : 0 };
+      const audio = { done: cachedAudio ? 1 : 0, total: cachedAudio ? 1 : 0 };
+      const reportParts = () => {
+        const share = (part: typeof images) => part.total > 0 ? part.done / part.total : 0;
+        const count = (part: typeof images) => part.total > 0 ? `${part.done}/${part.total}` : "…";
+        report((share(images) + share(audio)) / 2, `Imágenes ${count(images)} · Narración ${count(audio)}`);
+      };
+      reportParts();
+
       const [imagesResult, audioResult] = await Promise.allSettled([
-        geminiService.generateReadingImage(reading),
-        geminiService.generateReadingAudio(reading.text)
+        cachedImages ? Promise.resolve(cachedImages) : geminiService.generateReadingImage(reading, imageProvider, imageSize, (done, total) => {
+          Object.assign(images, { done, total });
+          reportParts();
+        }),
+        cachedAudio ? Promise.resolve(cachedAudio.audioUrl) : geminiService.generateReadingAudio(reading, ttsProvider, voiceName, (done, total) => {
+          Object.assign(audio, { done, total });
+          reportParts();
+        })
       ]);
 
-      const newImageUrls = imagesResult.status === 'fulfilled' ? imagesResult.value : [];
+      const newImages = imagesResult.status === 'fulfilled' ? imagesResult.value : null;
       const newAudioUrl = audioResult.status === 'fulfilled' ? audioResult.value : undefined;
 
       if (imagesResult.status === 'rejected') console.error("Error imagen:", imagesResult.reason);
       if (audioResult.status === 'rejected') console.error("Error audio:", audioResult.reason);
+      signal.throwIfAborted();
 
+      // Align each word to the narration for the karaoke highlight
+      let newWordTimings: WordTiming[] | undefined = cachedAudio?.wordTimings;
+      if (newAudioUrl && !newWordTimings) {
+        try {
+          newWordTimings = await wordTimingService.computeWordTimings(newAudioUrl, narrationText);
+        } catch (err) {
+          console.error("Error alineando palabras:", err);
+        }
+      }
+
+      // Store fresh results (a partial set of scenes is not worth keeping)
+      if (!cachedImages && newImages && newImages.imageUrls.length > 1) {
+        assetCache.cacheImages(reading, imageCacheKey, newImages.imageUrls, newImages.imageDetails);
+      }
+      if (!cachedAudio && newAudioUrl && ttsProvider.cacheable) assetCache.cacheAudio(narrationText, voiceKey, newAudioUrl, newWordTimings);
+
+      setState(prev => {
+        const previous = prev.assets[reading.id];
+        // Locked images survive; the rest are replaced in place
+        const images = newImages && newImages.imageUrls.length > 0
+          ? imageEditService.keepLockedImages(previous, newImages)
+          : { imageUrls: previous.imageUrls, imageDetails: previous.imageDetails };
+        return {
+          ...prev,
+          assets: {
+            ...prev.assets,
+            [reading.id]: {
+              ...previous,
+              ...images,
+              // Timeline edits only hold while the scenes keep their slots
+              scenes: images.imageUrls?.length === previous.imageUrls?.length ? previous.scenes : undefined,
+              audioUrl: newAudioUrl || previous.audioUrl,
+              wordTimings: newAudioUrl ? newWordTimings : previous.wordTimings,
+              isGeneratingImage: false,
+              isGeneratingAudio: false
+            }
+          }
+        };
+      });
+
+      // What did arrive is kept; the queue retries the rest
+      const failure = [imagesResult, audioResult].find(result => result.status === 'rejected');
+      if (failure) throw (failure as PromiseRejectedResult).reason;
+    } catch (err) {
       setState(prev => ({
         ...prev,
         assets: {
           ...prev.assets,
           [reading.id]: {
             ...prev.assets[reading.id],
-            imageUrls: newImageUrls.length > 0 ? newImageUrls : prev.assets[reading.id].imageUrls,
-            audioUrl: newAudioUrl || prev.assets[reading.id].audioUrl,
             isGeneratingImage: false,
             isGeneratingAudio: false
           }
         }
       }));
+      throw err;
+    }
+  };
+
+  const enqueueAssets = (reading: ReadingContent) => {
+    queue.enqueue({
+      kind: 'assets',
+      label: jobLabel("Assets", reading),
+      readingId: reading.id,
+      resources: [`image:${settings.imageProvider}`, `tts:${settings.tts[reading.type].provider}`],
+      run: (signal, report) => runGenerateAllAssets(reading, signal, report)
+    });
+  };
+
+  const handleGenerateAllAssets = (reading: ReadingContent) => {
+    if (stateRef.current.assets[reading.id]?.isGeneratingImage) return;
+    enqueueAssets(reading);
+  };
+
+  /**
+   * Human narration: stores the WAV for the reading and uses it as the audio
+   * right away (the old video no longer matches, so it is discarded)
+   */
+  const handleUploadRecording = async (reading: ReadingContent, file: File) => {
+    try {
+      await storageService.saveRecording(reading.id, file);
+      const audioUrl = URL.createObjectURL(file);
+
+      let wordTimings: WordTiming[] | undefined;
+      try {
+        wordTimings = await wordTimingService.computeWordTimings(audioUrl, psalmService.getNarrationText(reading));
+      } catch (err) {
+        console.error("Error alineando palabras:", err);
+      }
 
-    } catch (err) {
-      console.error("Error general generando assets", err);
       setState(prev => ({
         ...prev,
         assets: {
           ...prev.assets,
           [reading.id]: {
             ...prev.assets[reading.id],
-            isGeneratingImage: false,
+            readingId: reading.id,
+            audioUrl,
+            wordTimings,
+            videoUrl: undefined,
+            videos: undefined,
+            isGeneratingImage: prev.assets[reading.id]?.isGeneratingImage ?? false,
             isGeneratingAudio: false
           }
         }
       }));
+    } catch (error) {
+      console.error("Error guardando grabación", error);
+      alert("No se pudo guardar la grabación.");
     }
   };
 
-  const handleRenderVideo = async (reading: ReadingContent) => {
-    // Check ref to avoid rapid-fire effect duplicates
+  /**
+   * Timeline edits (cuts, order, transitions, uploaded images). The rendered
+   * video no longer matches, so it is discarded.
+   */
+  const handleUpdateScenes = (reading: ReadingContent, scenes: Scene[] | undefined, imageUrls?: string[]) => {
+    setState(prev => ({
+      ...prev,
+      assets: {
+        ...prev.assets,
+        [reading.id]: {
+          ...prev.assets[reading.id],
+          scenes,
+          ...(imageUrls && {
+            imageUrls,
+            // Images uploaded from the timeline join the pool as the user's own
+            imageDetails: imageUrls.map((_, index) => prev.assets[reading.id].imageDetails?.[index] || imageEditService.createUploadedDetail())
+          }),
+          videoUrl: undefined,
+          videos: undefined
+        }
+      }
+    }));
+  };
+
+  /**
+   * Gallery edits that do not change any image (prompt drafts, locks)
+   */
+  const handleUpdateImageDetails = (reading: ReadingContent, imageDetails: ImageDetail[]) => {
+    setState(prev => ({
+      ...prev,
+      assets: {
+        ...prev.assets,
+        [reading.id]: { ...prev.assets[reading.id], imageDetails }
+      }
+    }));
+  };
+
+  /**
+   * Redoes only the selected images, with their (possibly edited) prompt and
+   * seed. Locked images and the audio are never touched.
+   */
+  const handleRegenerateImages = (reading: ReadingContent, indices: number[], imageDetails: ImageDetail[]) => {
     const currentAsset = stateRef.current.assets[reading.id];
-    const hasImages = currentAsset.imageUrls && currentAsset.imageUrls.length > 0;
+    if (currentAsset?.isGeneratingImage) return;
+    // Images still to redo; a retry only repeats the ones that failed
+    let targets = indices.filter(index => imageDetails[index] && imageEditService.canRegenerate(imageDetails[index]));
+    if (targets.length === 0) return;
+
+    handleUpdateImageDetails(reading, imageDetails);
+
+    const run = async (signal: AbortSignal, report: jobQueue.ReportProgress) => {
+      setState(prev => ({
+        ...prev,
+        assets: {
+          ...prev.assets,
+          [reading.id]: { ...prev.assets[reading.id], isGeneratingImage: true }
+        }
+      }));
+
+      const imageProvider = imageProviders.createImageProvider(settings);
+      const imageSize = outputFormats.getImageRequestSize(formats);
+      let settled = 0;
+      report(0, `Imágenes 0/${targets.length}`);
+      const results = await Promise.allSettled(targets.map(index =>
+        geminiService.generateSceneImage(imageDetails[index], imageProvider, imageSize).finally(() => {
+          settled++;
+          report(settled / targets.length, `Imágenes ${settled}/${targets.length}`);
+        })
+      ));
+
+      const replaced: Record<number, string> = {};
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') replaced[targets[i]] = URL.createObjectURL(result.value);
+        else console.error("Error imagen:", result.reason);
+      });
+      const changed = !signal.aborted && Object.keys(replaced).length > 0;
+
+      setState(prev => {
+        const asset = prev.assets[reading.id];
+        return {
+          ...prev,
+          assets: {
+            ...prev.assets,
+            [reading.id]: {
+              ...asset,
+              ...(changed && {
+                imageUrls: asset.imageUrls?.map((url, index) => replaced[index] || url),
+                imageDetails: asset.imageDetails?.map((detail, index) => replaced[index] ? { ...detail, uploaded: undefined } : detail),
+                videoUrl: undefined,
+                videos: undefined
+              }),
+              isGeneratingImage: false
+            }
+          }
+        };
+      });
+
+      signal.throwIfAborted();
+      targets = targets.filter(index => !replaced[index]);
+      const failure = results.find(result => result.status === 'rejected');
+      if (failure) throw (failure as PromiseRejectedResult).reason;
+    };
+
+    queue.enqueue({
+      kind: 'images',
+      label: jobLabel(`Imágenes ${targets.map(index => index + 1).join(", ")}`, reading),
+      readingId: reading.id,
+      resources: [`image:${settings.imageProvider}`],
+      run
+    });
+  };
 
-    if (!hasImages || !currentAsset.audioUrl || currentAsset.isGeneratingVideo || currentAsset.videoUrl) return;
+  /**
+   * The user's own image in place of a generated one (locked from then on)
+   */
+  const handleReplaceImage = (reading: ReadingContent, index: number, file: File) => {
+    const url = URL.createObjectURL(file);
+    setState(prev => {
+      const asset = prev.assets[reading.id];
+      const imageDetails = imageEditService.getImageDetails(asset);
+      imageDetails[index] = imageEditService.createUploadedDetail();
+      return {
+        ...prev,
+        assets: {
+          ...prev.assets,
+          [reading.id]: {
+            ...asset,
+            imageUrls: asset.imageUrls?.map((current, i) => i === index ? url : current),
+            imageDetails,
+            videoUrl: undefined,
+            videos: undefined
+          }
+        }
+      };
+    });
+  };
+
+  // Frame-accurate WebCodecs render when available, realtime capture otherwise
+  const renderVideo = async (
+    reading: ReadingContent,
+    asset: GeneratedAsset,
+    format: outputFormats.OutputFormat,
+    music: musicService.MusicBed | null,
+    signal: AbortSignal,
+    onProgress: (progress: progressService.Progress) => void
+  ): Promise<string> => {
+    if (offlineRenderService.isOfflineRenderSupported()) {
+      try {
+        return await offlineRenderService.renderVideoOffline(reading, asset, template, format, music, signal, onProgress);
+      } catch (error) {
+        signal.throwIfAborted();
+        console.warn("Render offline falló, usando captura en tiempo real:", error);
+      }
+    }
+    return await videoGenService.generateVideoFile(reading, asset, template, format, music, signal, onProgress);
+  };
+
+  const runRenderVideo = async (reading: ReadingContent, signal: AbortSignal, report: jobQueue.ReportProgress) => {
+    const currentAsset = stateRef.current.assets[reading.id];
+    const hasImages = currentAsset?.imageUrls && currentAsset.imageUrls.length > 0;
+    if (!hasImages || !currentAsset.audioUrl) throw new Error("Faltan las imágenes o la narración");
 
     setState(prev => ({
       ...prev,
@@ -181,12 +920,26 @@ const App: React.FC = () => {
     }));
 
     try {
-      // Add a small delay if in auto mode to prevent browser freezing if multiple trigger at once
-      if (state.isAutoMode) {
-        await new Promise(resolve => setTimeout(resolve, Math.random() * 2000));
-      }
+      // A missing track should not cost the video
+      const music = await musicService.resolveMusicBed(settings, reading.type).catch(err => {
+        console.warn("Música no disponible, se renderiza sin ella:", err);
+        return null;
+      });
 
-      const videoUrl = await videoGenService.generateVideoFile(reading, currentAsset);
+      // One video per output format, all from the same assets
+      // Formats are rendered one after another, each an equal share
+      const videos: GeneratedAsset['videos'] = {};
+      for (const [index, format] of formats.entries()) {
+        const step = formats.length > 1 ? `${format.label} (${index + 1}/${formats.length})` : undefined;
+        report(index / formats.length, step);
+        videos[format.id] = await renderVideo(reading, currentAsset, format, music, signal,
+          progress => report((index + progress.fraction) / formats.length, step)
+        );
+      }
+      // Subtitle files from the same timing as the highlighted words
+      const { duration } = await videoGenService.loadAudio(currentAsset.audioUrl);
+      const subtitles = subtitleService.createSubtitles(reading, currentAsset.wordTimings, duration, template.coverIntro);
+      signal.throwIfAborted();
 
       setState(prev => ({
         ...prev,
@@ -194,16 +947,15 @@ const App: React.FC = () => {
           ...prev.assets,
           [reading.id]: {
             ...prev.assets[reading.id],
-            videoUrl: videoUrl,
+            videoUrl: videos[formats[0].id],
+            videos,
+            subtitles,
+            justRendered: true,
             isGeneratingVideo: false
           }
         }
       }));
     } catch (error) {
-      console.error("Error rendering video", error);
-      // Don't alert in auto mode to avoid blocking UI
-      if (!state.isAutoMode) alert("Error al renderizar el video. Por favor intenta de nuevo.");
-
       setState(prev => ({
         ...prev,
         assets: {
@@ -211,9 +963,29 @@ const App: React.FC = () => {
           [reading.id]: { ...prev.assets[reading.id], isGeneratingVideo: false }
         }
       }));
+      throw error;
     }
   };
 
+  const enqueueVideo = (reading: ReadingContent) => {
+    queue.enqueue({
+      kind: 'video',
+      label: jobLabel("Video", reading),
+      readingId: reading.id,
+      resources: ['render'],
+      run: (signal, report) => runRenderVideo(reading, signal, report)
+    });
+  };
+
+  const handleRenderVideo = (reading: ReadingContent) => {
+    const currentAsset = stateRef.current.assets[reading.id];
+    if (currentAsset.isGeneratingVideo || currentAsset.videoUrl) return;
+    enqueueVideo(reading);
+  };
+
+  // Parallel sets (several languages) are listed per language
+  const isMultilingual = new Set(state.readings.map(r => languageService.getReadingLanguage(r).id)).size > 1;
+
   return (
     <div className="min-h-screen bg-black text-gray-100 pb-20">
       {/* Header */}
@@ -241,6 +1013,42 @@ const App: React.FC = () => {
             </div>
 
             <div className="flex gap-2 w-full md:w-auto">
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className={`flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg transition-colors border ${showSettings ? 'bg-indigo-900/50 border-indigo-700 text-indigo-200' : 'bg-gray-800 border-gray-700 text-white hover:bg-gray-700'}`}
+                title="Ajustes"
+              >
+                <Settings className="w-4 h-4" />
+              </button>
+
+              <button
+                onClick={() => setShowSessions(!showSessions)}
+                className={`flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg transition-colors border ${showSessions ? 'bg-indigo-900/50 border-indigo-700 text-indigo-200' : 'bg-gray-800 border-gray-700 text-white hover:bg-gray-700'}`}
+                title="Sesiones guardadas"
+              >
+                <History className="w-4 h-4" />
+                {sessions.length > 0 && <span className="text-xs">{sessions.length}</span>}
+              </button>
+
+              <button
+                onClick={() => setShowBatch(!showBatch)}
+                className={`flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg transition-colors border ${showBatch ? 'bg-indigo-900/50 border-indigo-700 text-indigo-200' : 'bg-gray-800 border-gray-700 text-white hover:bg-gray-700'}`}
+                title="Lote de varios días"
+              >
+                <CalendarRange className="w-4 h-4" />
+                {batch?.running && <span className="text-xs">{batch.index + 1}/{batch.dates.length}</span>}
+              </button>
+
+              <button
+                onClick={() => setShowQueue(!showQueue)}
+                className={`flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg transition-colors border ${showQueue ? 'bg-indigo-900/50 border-indigo-700 text-indigo-200' : 'bg-gray-800 border-gray-700 text-white hover:bg-gray-700'}`}
+                title="Cola de trabajos"
+              >
+                <ListChecks className="w-4 h-4" />
+                {activeJobs.length > 0 && <span className="text-xs">{activeJobs.length}</span>}
+                {failedJobs.length > 0 && <span className="text-xs text-red-400">{failedJobs.length}</span>}
+              </button>
+
               <button
                 onClick={() => handleFetchReadings(false)}
                 disabled={state.isLoading || state.isAutoMode}
@@ -261,6 +1069,7 @@ const App: React.FC = () => {
             </div>
           </div>
         </div>
+        <BatchProgress jobs={queueSnapshot.jobs} />
       </header>
 
       {/* Main Content */}
@@ -274,6 +1083,42 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {showSettings && (
+          <SettingsPanel settings={settings} onChange={handleSettingsChange} />
+        )}
+
+        {showSessions && (
+          <SessionList
+            sessions={sessions}
+            activeDate={sessionDateRef.current || state.date}
+            onOpen={handleOpenSession}
+            onDelete={handleDeleteSession}
+          />
+        )}
+
+        {showBatch && (
+          <BatchPanel
+            batch={batch}
+            sessions={sessions}
+            defaultDate={state.date}
+            disabled={state.isLoading || state.isAutoMode}
+            onStart={handleStartBatch}
+            onStop={handleStopBatch}
+            onOpen={handleOpenSession}
+          />
+        )}
+
+        {showQueue && (
+          <JobQueuePanel
+            snapshot={queueSnapshot}
+            onCancel={queue.cancel}
+            onRetry={queue.retry}
+            onPause={queue.pause}
+            onResume={queue.resume}
+            onClearFinished={queue.clearFinished}
+          />
+        )}
+
         {state.error && (
           <div className="mb-8 p-4 bg-red-900/20 border border-red-800 rounded-lg flex items-center gap-3 text-red-200 animate-in fade-in slide-in-from-top-4">
             <AlertCircle className="w-5 h-5" />
@@ -309,7 +1154,7 @@ const App: React.FC = () => {
             </div>
             <h2 className="text-3xl font-bold text-white mb-3">Automatización Litúrgica</h2>
             <p className="text-gray-400 max-w-lg mx-auto mb-8">
-              Genera 4 videos verticales (Shorts/Reels) automáticamente para: 1ra Lectura, Salmo, 2da Lectura y Evangelio.
+              Genera 5 videos verticales (Shorts/Reels) automáticamente para: 1ra Lectura, Salmo, 2da Lectura, Evangelio y una Reflexión sobre el Evangelio.
             </p>
 
             <button
@@ -324,17 +1169,68 @@ const App: React.FC = () => {
 
         {/* Readings List */}
         <div className="space-y-8">
-          {state.readings.map((reading) => (
-            <ReadingCard
-              key={reading.id}
-              reading={reading}
-              asset={state.assets[reading.id]}
-              onGenerateAssets={handleGenerateAllAssets}
-              onGenerateVideo={handleRenderVideo}
-            />
-          ))}
+          {state.readings.map((reading, index) => {
+            // Parallel sets get a heading per language
+            const language = languageService.getReadingLanguage(reading);
+            const startsLanguage = isMultilingual && (index === 0 || languageService.getReadingLanguage(state.readings[index - 1]).id !== language.id);
+            return (
+              <React.Fragment key={reading.id}>
+                {startsLanguage && (
+                  <h3 className="flex items-center gap-2 text-sm font-bold uppercase tracking-widest text-gray-400 pt-4">
+                    <Languages size={16} /> {language.label}
+                  </h3>
+                )}
+                <ReadingCard
+                  reading={reading}
+                  asset={state.assets[reading.id]}
+                  template={template}
+                  formats={formats}
+                  job={activeJobs.find(job => job.readingId === reading.id)}
+                  onGenerateAssets={handleGenerateAllAssets}
+                  onGenerateVideo={handleRenderVideo}
+                  onUploadRecording={handleUploadRecording}
+                  onScenesChange={handleUpdateScenes}
+                  onUpdateImageDetails={handleUpdateImageDetails}
+                  onRegenerateImages={handleRegenerateImages}
+                  onReplaceImage={handleReplaceImage}
+                  publishAccounts={publishAccounts}
+                  onPublish={handlePublish}
+                  onRefreshPublications={handleRefreshPublications}
+                  onEditText={reading.type === 'reflection' ? handleEditReadingText : undefined}
+                />
+              </React.Fragment>
+            );
+          })}
         </div>
 
+        {/* Reflection: a 5th video written from the day's readings */}
+        {state.readings.length > 0 && languageService.getLanguagesWithoutReflection(state.readings).length > 0 && (
+          <div className="mt-8 text-center">
+            <button
+              onClick={() => enqueueReflection()}
+              disabled={isGeneratingReflection || !state.readings.some(r => r.type === 'gospel')}
+              className="inline-flex items-center justify-center gap-2 px-6 py-3 bg-gray-900 border border-gray-700 text-white text-sm font-bold rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {isGeneratingReflection ? <Loader2 className="w-4 h-4 animate-spin" /> : <MessageSquareQuote className="w-4 h-4" />}
+              {isGeneratingReflection ? 'Escribiendo reflexión...' : 'Generar Reflexión del Evangelio'}
+            </button>
+          </div>
+        )}
+
+        {/* Export: the day's videos, subtitles and post texts in one ZIP */}
+        {state.readings.some(reading => state.assets[reading.id]?.videoUrl) && (
+          <div className="mt-4 text-center">
+            <button
+              onClick={enqueueExport}
+              disabled={isExporting}
+              className="inline-flex items-center justify-center gap-2 px-6 py-3 bg-gray-900 border border-gray-700 text-white text-sm font-bold rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Package className="w-4 h-4" />}
+              {isExporting ? 'Preparando paquete...' : 'Descargar paquete (ZIP)'}
+            </button>
+          </div>
+        )}
+
         {/* Footer Note */}
         {state.readings.length > 0 && (
           <div className="mt-12 text-center text-xs text-gray-600 border-t border-gray-800 pt-8">
@@ -0,0 +1,266 @@
+/**
+ * Local stand-in for YouTube, Meta Graph and TikTok: the OAuth consent and
+ * token endpoints, uploads and status checks the publish server uses, with
+ * the same paths and response shapes. Everything is kept in memory; videos
+ * go live a few seconds after upload, or at their scheduled time.
+ *
+ *   npm run mock-platforms
+ *   npm run publish-server -- --mock http://localhost:5055
+ *
+ * Options:
+ *   --port <n>           Port (default: 5055)
+ *   --fail <platforms>   Comma-separated platforms whose uploads fail (shorts | reels | facebook | tiktok)
+ */
+import { parseArgs } from "node:util";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { PlatformId } from "../types";
+import { GRAPH_VERSION } from "../services/publishAdapters";
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: "5055" },
+    fail: { type: "string", default: "" }
+  }
+});
+
+// Time a video spends "processing" before it is live
+const PROCESSING_MS = 3000;
+
+interface MockVideo {
+  platform: PlatformId;
+  title: string;
+  bytes: number;
+  uploadedAt?: number;
+  publishAt?: number; // Epoch ms; scheduled until then
+  published: boolean; // Instagram: container published; Facebook: finish phase done
+}
+
+const port = Number(args.port);
+const origin = `http://localhost:${port}`;
+const failing = new Set(args.fail!.split(",").map(p => p.trim()).filter(Boolean));
+const videos = new Map<string, MockVideo>();
+const instagramMedia = new Map<string, string>(); // Media id -> container id
+
+const log = (message: string) => console.log(`[${new Date().toLocaleTimeString('es-ES')}] ${message}`);
+
+const newId = () => randomUUID().replace(/-/g, "").slice(0, 16);
+
+const isLive = (video: MockVideo) => !!video.uploadedAt && video.published
+  && Date.now() >= Math.max(video.uploadedAt + PROCESSING_MS, video.publishAt ?? 0);
+
+const readBody = (req: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk: Buffer) => chunks.push(chunk));
+  req.on("end", () => resolve(Buffer.concat(chunks)));
+  req.on("error", reject);
+});
+
+const readJson = async (req: IncomingMessage) => {
+  const body = (await readBody(req)).toString("utf8");
+  return body ? JSON.parse(body) : {};
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Every API call needs some token, as on the real platforms. Facebook reel
+// phases carry it in the body and TikTok upload URLs are pre-signed.
+const hasToken = (req: IncomingMessage, url: URL) => !!req.headers.authorization || url.searchParams.has("access_token")
+  || url.pathname.endsWith("/video_reels") || url.pathname.startsWith("/tiktok-upload/");
+
+const failUpload = (res: ServerResponse, platform: PlatformId) => {
+  log(`${platform}: fallo simulado (--fail)`);
+  sendJson(res, 500, { error: { message: `Fallo simulado de ${platform}` } });
+};
+
+const issueToken = (account: string, withRefresh: boolean, expiresIn: number) => ({
+  access_token: `mock-${account}-${newId()}`,
+  ...(withRefresh && { refresh_token: `mock-${account}-refresh-${newId()}` }),
+  expires_in: expiresIn,
+  token_type: "Bearer"
+});
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || "/", origin);
+  const route = `${req.method} ${url.pathname}`;
+  let match: RegExpMatchArray | null;
+
+  // --- OAUTH ---
+  if (route === "GET /oauth/authorize") {
+    // Consent is granted at once
+    const redirect = new URL(url.searchParams.get("redirect_uri") || "");
+    redirect.searchParams.set("code", `mock-code-${newId()}`);
+    redirect.searchParams.set("state", url.searchParams.get("state") || "");
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+  if (route === "POST /token") {
+    const form = new URLSearchParams((await readBody(req)).toString("utf8"));
+    return sendJson(res, 200, issueToken("youtube", form.get("grant_type") === "authorization_code", 3600));
+  }
+  if (route === `GET /${GRAPH_VERSION}/oauth/access_token`) {
+    return sendJson(res, 200, issueToken("meta", false, 60 * 24 * 3600));
+  }
+  if (route === "POST /v2/oauth/token/") {
+    return sendJson(res, 200, { ...issueToken("tiktok", true, 24 * 3600), open_id: "mock-open-id" });
+  }
+
+  if (!hasToken(req, url)) return sendJson(res, 401, { error: { message: "Falta el token de acceso", code: 190 } });
+
+  if (route === `GET /${GRAPH_VERSION}/me/accounts`) {
+    return sendJson(res, 200, { data: [{ id: "mock-page", access_token: `mock-page-${newId()}`, instagram_business_account: { id: "mock-ig" } }] });
+  }
+
+  // --- YOUTUBE ---
+  if (route === "POST /upload/youtube/v3/videos") {
+    const { snippet, status } = await readJson(req);
+    const id = newId();
+    videos.set(id, {
+      platform: 'shorts',
+      title: snippet?.title || "",
+      bytes: 0,
+      publishAt: status?.publishAt ? new Date(status.publishAt).getTime() : undefined,
+      published: true
+    });
+    return sendJson(res, 200, {}, { Location: `${origin}/upload/youtube/v3/videos?upload_id=${id}` });
+  }
+  if (route === "PUT /upload/youtube/v3/videos") {
+    const id = url.searchParams.get("upload_id") || "";
+    const video = videos.get(id);
+    if (!video) return sendJson(res, 404, { error: { message: "Sesión de subida desconocida" } });
+    if (failing.has('shorts')) return failUpload(res, 'shorts');
+    video.bytes = (await readBody(req)).length;
+    video.uploadedAt = Date.now();
+    log(`shorts: ${id} "${video.title}" (${video.bytes} bytes)`);
+    return sendJson(res, 200, { kind: "youtube#video", id, snippet: { title: video.title } });
+  }
+  if (route === "GET /youtube/v3/videos") {
+    const id = url.searchParams.get("id") || "";
+    const video = videos.get(id);
+    if (!video) return sendJson(res, 200, { items: [] });
+    const scheduled = video.publishAt !== undefined && Date.now() < video.publishAt;
+    return sendJson(res, 200, {
+      items: [{
+        id,
+        status: {
+          uploadStatus: isLive(video) || (scheduled && Date.now() >= video.uploadedAt! + PROCESSING_MS) ? "processed" : "uploaded",
+          privacyStatus: scheduled ? "private" : "public",
+          ...(scheduled && { publishAt: new Date(video.publishAt!).toISOString() })
+        }
+      }]
+    });
+  }
+
+  // --- INSTAGRAM ---
+  if (req.method === "POST" && (match = url.pathname.match(new RegExp(`^/${GRAPH_VERSION}/([^/]+)/media$`)))) {
+    const { caption } = await readJson(req);
+    const id = newId();
+    videos.set(id, { platform: 'reels', title: String(caption || "").split("\n")[0], bytes: 0, published: false });
+    return sendJson(res, 200, { id, uri: `${origin}/ig-api-upload/${GRAPH_VERSION}/${id}` });
+  }
+  if (req.method === "POST" && (match = url.pathname.match(new RegExp(`^/ig-api-upload/${GRAPH_VERSION}/([^/]+)$`)))) {
+    const video = videos.get(match[1]);
+    if (!video) return sendJson(res, 404, { error: { message: "Contenedor desconocido" } });
+    if (failing.has('reels')) return failUpload(res, 'reels');
+    video.bytes = (await readBody(req)).length;
+    video.uploadedAt = Date.now();
+    log(`reels: contenedor ${match[1]} (${video.bytes} bytes)`);
+    return sendJson(res, 200, { success: true });
+  }
+  if (req.method === "POST" && (match = url.pathname.match(new RegExp(`^/${GRAPH_VERSION}/([^/]+)/media_publish$`)))) {
+    const { creation_id: containerId } = await readJson(req);
+    const video = videos.get(containerId);
+    if (!video?.uploadedAt) return sendJson(res, 400, { error: { message: "El contenedor no está listo" } });
+    video.published = true;
+    const mediaId = newId();
+    instagramMedia.set(mediaId, containerId);
+    return sendJson(res, 200, { id: mediaId });
+  }
+
+  // --- FACEBOOK ---
+  if (req.method === "POST" && (match = url.pathname.match(new RegExp(`^/${GRAPH_VERSION}/([^/]+)/video_reels$`)))) {
+    const body = await readJson(req);
+    if (!body.access_token) return sendJson(res, 401, { error: { message: "Falta el token de acceso", code: 190 } });
+    if (body.upload_phase === "start") {
+      const id = newId();
+      videos.set(id, { platform: 'facebook', title: "", bytes: 0, published: false });
+      return sendJson(res, 200, { video_id: id, upload_url: `${origin}/video-upload/${GRAPH_VERSION}/${id}` });
+    }
+    const video = videos.get(body.video_id);
+    if (!video?.uploadedAt) return sendJson(res, 400, { error: { message: "El video no se subió" } });
+    video.title = body.title || "";
+    video.published = true;
+    if (body.video_state === "SCHEDULED") video.publishAt = Number(body.scheduled_publish_time) * 1000;
+    log(`facebook: ${body.video_id} "${video.title}" ${body.video_state}`);
+    return sendJson(res, 200, { success: true });
+  }
+  if (req.method === "POST" && (match = url.pathname.match(new RegExp(`^/video-upload/${GRAPH_VERSION}/([^/]+)$`)))) {
+    const video = videos.get(match[1]);
+    if (!video) return sendJson(res, 404, { error: { message: "Video desconocido" } });
+    if (failing.has('facebook')) return failUpload(res, 'facebook');
+    video.bytes = (await readBody(req)).length;
+    video.uploadedAt = Date.now();
+    return sendJson(res, 200, { success: true });
+  }
+
+  // Graph objects: Instagram containers and media, Facebook videos
+  if (req.method === "GET" && (match = url.pathname.match(new RegExp(`^/${GRAPH_VERSION}/([^/]+)$`)))) {
+    const id = match[1];
+    const containerId = instagramMedia.get(id);
+    if (containerId) return sendJson(res, 200, { id, permalink: `https://www.instagram.com/reel/${id}/` });
+    const video = videos.get(id);
+    if (!video) return sendJson(res, 404, { error: { message: `Objeto desconocido: ${id}` } });
+    if (video.platform === 'reels') return sendJson(res, 200, { id, status_code: video.uploadedAt ? "FINISHED" : "IN_PROGRESS" });
+    const scheduled = video.publishAt !== undefined && Date.now() < video.publishAt;
+    return sendJson(res, 200, {
+      id,
+      status: {
+        video_status: video.uploadedAt ? "ready" : "upload_complete",
+        publishing_phase: { status: "complete", publish_status: scheduled ? "scheduled" : isLive(video) ? "published" : "not_published" }
+      }
+    });
+  }
+
+  // --- TIKTOK ---
+  if (route === "POST /v2/post/publish/video/init/") {
+    const { post_info, source_info } = await readJson(req);
+    const id = `v_pub_${newId()}`;
+    videos.set(id, { platform: 'tiktok', title: String(post_info?.title || "").split("\n")[0], bytes: 0, published: true });
+    return sendJson(res, 200, {
+      data: { publish_id: id, upload_url: `${origin}/tiktok-upload/${id}?size=${source_info?.video_size}` },
+      error: { code: "ok", message: "" }
+    });
+  }
+  if (req.method === "PUT" && (match = url.pathname.match(/^\/tiktok-upload\/([^/]+)$/))) {
+    const video = videos.get(match[1]);
+    if (!video) return sendJson(res, 404, { error: { code: "invalid_params", message: "Subida desconocida" } });
+    if (failing.has('tiktok')) return failUpload(res, 'tiktok');
+    video.bytes = (await readBody(req)).length;
+    video.uploadedAt = Date.now();
+    log(`tiktok: ${match[1]} "${video.title}" (${video.bytes} bytes)`);
+    return sendJson(res, 201, {});
+  }
+  if (route === "POST /v2/post/publish/status/fetch/") {
+    const { publish_id: id } = await readJson(req);
+    const video = videos.get(id);
+    if (!video) return sendJson(res, 200, { data: {}, error: { code: "invalid_publish_id", message: "Publicación desconocida" } });
+    return sendJson(res, 200, {
+      data: isLive(video)
+        ? { status: "PUBLISH_COMPLETE", publicaly_available_post_id: [newId()] }
+        : { status: video.uploadedAt ? "PROCESSING_DOWNLOAD" : "PROCESSING_UPLOAD" },
+      error: { code: "ok", message: "" }
+    });
+  }
+
+  sendJson(res, 404, { error: { message: `Ruta simulada desconocida: ${route}` } });
+};
+
+createServer((req, res) => {
+  handle(req, res).catch((error: any) => {
+    console.error(error);
+    if (!res.headersSent) sendJson(res, 500, { error: { message: error.message || String(error) } });
+  });
+}).listen(port, () => log(`Plataformas simuladas en ${origin}${failing.size ? ` (fallan: ${[...failing].join(", ")})` : ""}`));
@@ -0,0 +1,197 @@
+import { spawn } from "node:child_process";
+import { writeFile } from "node:fs/promises";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { ReadingContent, GeneratedAsset } from "../types";
+import { CoverImageType, END_TAIL_SECONDS, createCoverRenderer, createFrameRenderer } from "../services/videoGenService";
+import { createSeededRandom, createSpectrumAnalyser } from "../services/offlineRenderService";
+import { parseWav } from "../services/wordTimingService";
+import { VideoTemplate } from "../services/videoTemplate";
+import { OutputFormat, DEFAULT_OUTPUT_FORMAT } from "../services/outputFormats";
+import { MusicBed, computeMusicEnvelope, mixMusic } from "../services/musicService";
+import { samplesToWav } from "../services/ttsProviders";
+
+const FPS = 30;
+
+export interface NodeRenderInput {
+  imageBytes: Uint8Array[];
+  wavBytes: Uint8Array;
+  asset: GeneratedAsset; // Only wordTimings is read; media comes from the bytes above
+}
+
+export interface NodeRenderOptions {
+  ffmpegPath?: string;
+  template?: VideoTemplate;
+  format?: OutputFormat;
+  wavPath?: string; // Defaults to the MP4 path with a .wav extension
+  music?: MusicBed | null; // `url` is a file path; mixed into the WAV
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Writes a chunk to ffmpeg honoring backpressure
+ */
+const writeFrame = (stdin: NodeJS.WritableStream, data: Uint8Array) => {
+  return new Promise<void>((resolve, reject) => {
+    const ok = stdin.write(data, err => { if (err) reject(err); });
+    if (ok) resolve();
+    else stdin.once("drain", () => resolve());
+  });
+};
+
+/**
+ * Decodes any audio file ffmpeg understands to mono float samples
+ */
+const decodeAudioFile = (ffmpegPath: string, file: string, sampleRate: number): Promise<Float32Array> => {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(ffmpegPath, ["-v", "error", "-i", file, "-f", "f32le", "-ac", "1", "-ar", String(sampleRate), "pipe:1"]);
+    const chunks: Buffer[] = [];
+    let stderr = "";
+    ffmpeg.stdout.on("data", chunk => chunks.push(chunk));
+    ffmpeg.stderr.on("data", chunk => { stderr += chunk; });
+    ffmpeg.on("error", err => reject(new Error(`No se pudo ejecutar ffmpeg (${err.message}).`)));
+    ffmpeg.on("close", code => {
+      if (code !== 0) return reject(new Error(`No se pudo leer la música ${file}: ${stderr.trim()}`));
+      const bytes = Buffer.concat(chunks);
+      resolve(new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength - (bytes.byteLength % 4))));
+    });
+  });
+};
+
+/**
+ * Headless counterpart of renderVideoOffline: same frame renderer and
+ * fixed timestep, drawn on @napi-rs/canvas and encoded by ffmpeg
+ * (H.264 + AAC). The narration WAV (with the music bed mixed in, if any) is
+ * written next to the MP4 unless `wavPath` says otherwise (one WAV serves
+ * every format of a reading).
+ */
+export const renderVideoToFile = async (
+  reading: ReadingContent,
+  input: NodeRenderInput,
+  outputPath: string,
+  options: NodeRenderOptions = {}
+): Promise<void> => {
+  const pcm = parseWav(input.wavBytes.slice().buffer);
+  if (!pcm) throw new Error("La narración no es un WAV PCM de 16 bits");
+  if (input.imageBytes.length === 0) throw new Error("Missing assets");
+
+  const duration = pcm.samples.length / pcm.sampleRate;
+  const totalDuration = duration + END_TAIL_SECONDS;
+
+  // Music bed: same ducking and fades as the browser renderers
+  const wavPath = options.wavPath || outputPath.replace(/\.mp4$/, ".wav");
+  if (options.music) {
+    const music = await decodeAudioFile(options.ffmpegPath || "ffmpeg", options.music.url, pcm.sampleRate);
+    const totalSamples = Math.ceil(totalDuration * pcm.sampleRate);
+    const envelope = computeMusicEnvelope(pcm.samples, pcm.sampleRate, totalDuration, options.music.volume);
+    const [mixed] = mixMusic([pcm.samples], [music], pcm.sampleRate, totalSamples, envelope);
+    await writeFile(wavPath, samplesToWav(mixed, pcm.sampleRate));
+  } else {
+    await writeFile(wavPath, input.wavBytes);
+  }
+
+  const { width, height } = options.format || DEFAULT_OUTPUT_FORMAT;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  const bgImages = await Promise.all(input.imageBytes.map(bytes => loadImage(Buffer.from(bytes))));
+
+  // The shared renderer only uses the Canvas 2D subset that @napi-rs/canvas implements
+  const renderFrame = createFrameRenderer(
+    ctx as unknown as CanvasRenderingContext2D,
+    reading,
+    input.asset,
+    bgImages as unknown as HTMLImageElement[],
+    createSeededRandom(reading.id),
+    options.template,
+    { width, height }
+  );
+  const renderCover = createCoverRenderer(
+    ctx as unknown as CanvasRenderingContext2D,
+    reading,
+    input.asset,
+    bgImages as unknown as HTMLImageElement[],
+    options.template,
+    { width, height }
+  );
+  // The visualizer follows the voice only
+  const getSpectrum = createSpectrumAnalyser(pcm.samples, pcm.sampleRate);
+
+  // Optional cover before the narration; ffmpeg delays the audio to match
+  const intro = options.template?.coverIntro || 0;
+  const totalFrames = Math.ceil((intro + totalDuration) * FPS);
+
+  const ffmpeg = spawn(options.ffmpegPath || "ffmpeg", [
+    "-y", "-loglevel", "error",
+    "-f", "rawvideo", "-pix_fmt", "rgba", "-s", `${width}x${height}`, "-r", String(FPS), "-i", "pipe:0",
+    "-i", wavPath,
+    "-af", `${intro > 0 ? `adelay=${Math.round(intro * 1000)}:all=1,` : ""}apad=pad_dur=${END_TAIL_SECONDS}`,
+    "-c:v", "libx264", "-pix_fmt", "yuv420p", "-preset", "veryfast", "-crf", "20",
+    "-c:a", "aac", "-b:a", "128k",
+    "-t", (intro + totalDuration).toFixed(3),
+    "-movflags", "+faststart",
+    outputPath
+  ], { stdio: ["pipe", "ignore", "pipe"] });
+
+  let stderr = "";
+  ffmpeg.stderr.on("data", chunk => { stderr += chunk; });
+  const finished = new Promise<void>((resolve, reject) => {
+    ffmpeg.on("error", err => reject(new Error(`No se pudo ejecutar ffmpeg (${err.message}). Instálalo o usa --ffmpeg <ruta>.`)));
+    ffmpeg.on("close", code => code === 0 ? resolve() : reject(new Error(`ffmpeg terminó con código ${code}: ${stderr.trim()}`)));
+  });
+  // Handled below; avoids an unhandled rejection while frames are still being written
+  finished.catch(() => {});
+
+  try {
+    for (let i = 0; i < totalFrames; i++) {
+      const time = i / FPS - intro;
+      if (time < 0) {
+        renderCover();
+      } else {
+        renderFrame({
+          currentTime: Math.min(time, duration),
+          duration,
+          frequencyData: getSpectrum(time),
+          deltaTime: 1 / FPS
+        });
+      }
+      const { data } = ctx.getImageData(0, 0, width, height);
+      await writeFrame(ffmpeg.stdin, new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+      if (i % FPS === 0) options.onProgress?.(i / totalFrames);
+    }
+    ffmpeg.stdin.end();
+  } catch (error) {
+    ffmpeg.kill();
+    // Report the spawn/exit error if that is what broke the pipe
+    await finished;
+    throw error;
+  }
+
+  await finished;
+  options.onProgress?.(1);
+};
+
+/**
+ * Writes the cover (thumbnail) of a reading as JPEG or PNG
+ */
+export const renderCoverToFile = async (
+  reading: ReadingContent,
+  input: Pick<NodeRenderInput, 'imageBytes' | 'asset'>,
+  outputPath: string,
+  options: Pick<NodeRenderOptions, 'template' | 'format'> & { type?: CoverImageType } = {}
+): Promise<void> => {
+  if (input.imageBytes.length === 0) throw new Error("Missing assets");
+  const { width, height } = options.format || DEFAULT_OUTPUT_FORMAT;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  const bgImages = await Promise.all(input.imageBytes.map(bytes => loadImage(Buffer.from(bytes))));
+
+  createCoverRenderer(
+    ctx as unknown as CanvasRenderingContext2D,
+    reading,
+    input.asset,
+    bgImages as unknown as HTMLImageElement[],
+    options.template,
+    { width, height }
+  )();
+  const image = options.type === 'image/png' ? await canvas.encode("png") : await canvas.encode("jpeg", 90);
+  await writeFile(outputPath, image);
+};
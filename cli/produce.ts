@@ -0,0 +1,323 @@
+/**
+ * Headless daily production: readings -> images + narration -> 4 MP4s
+ * (plus .srt / .vtt subtitles and a .jpg cover for each).
+ *
+ *   npm run produce -- --date 2026-10-20
+ *   npm run produce -- --date 2026-10-20 --stub      (offline, no API calls)
+ *   npm run produce -- --from 2026-10-20 --to 2026-10-26   (a week, day by day)
+ *
+ * Options:
+ *   --date <YYYY-MM-DD>  Liturgical date (default: today)
+ *   --from <YYYY-MM-DD>  First day of a batch; with --to, every day in between
+ *   --to <YYYY-MM-DD>    Last day of a batch (default: same as --from)
+ *   --out <dir>          Output root (default: output); files go to <out>/<date>/
+ *   --api <url>          Flask backend base URL (default: http://localhost:5000)
+ *   --stub               Use local stub providers instead of Gemini/Pollinations
+ *   --languages <ids>    Comma-separated parallel sets: es | en | pt (default: es)
+ *   --images <id>        Image provider: pollinations | imagen | stable_diffusion | local_folder
+ *   --sd-url <url>       Stable Diffusion (A1111-compatible) base URL
+ *   --artwork-dir <dir>  Folder with manifest.json for --images local_folder (default: public/artwork)
+ *   --tts <id>           Narration for every reading: gemini | local | recording
+ *   --gospel-tts <id>    Narration for the Gospel only (default: same as --tts)
+ *   --voice <name>       Gemini voice / Piper model / Coqui speaker (default: Puck)
+ *   --gospel-voice <n>   Voice for the Gospel only (default: same as --voice)
+ *   --language-voice <lang>=<voice>  Voice for every reading of a language (repeatable)
+ *   --tts-url <url>      Local Piper/Coqui HTTP server
+ *   --tts-engine <id>    piper | coqui (default: piper)
+ *   --recordings-dir <d> Folder with <readingId>.wav files for --tts recording
+ *   --music <id|file>    Background music: a track id from --music-dir or an audio file
+ *   --gospel-music <m>   Music for the Gospel only (default: same as --music)
+ *   --music-volume <n>   Music volume 0-1 before ducking (default: 0.25)
+ *   --music-dir <dir>    Folder with manifest.json of tracks (default: public/music)
+ *   --reflection         Also write and render a Gospel reflection (5th video)
+ *   --reflection-tone <t> pastoral | contemplative | youth | catechetical
+ *   --reflection-seconds <n> Target spoken length (default: 50)
+ *   --formats <ids>      Comma-separated output formats (default: vertical_hd):
+ *                        vertical_hd | vertical | portrait | square | landscape
+ *   --template <t>       Built-in template id (classic | minimal | captions) or a JSON template file
+ *   --cover-intro        Show the cover for half a second before the narration
+ *   --ffmpeg <path>      ffmpeg binary (default: ffmpeg on PATH)
+ *   --font <path>        TTF/OTF to register as "Inter" for the overlays
+ */
+import { parseArgs } from "node:util";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { GlobalFonts } from "@napi-rs/canvas";
+import { AppSettings, GeneratedAsset, ImageProviderId, LanguageId, ReadingContent, ReflectionTone, TtsProviderId } from "../types";
+import { ImageProvider, createImageProvider, createLocalFolderProvider } from "../services/imageProviders";
+import { createTtsProvider } from "../services/ttsProviders";
+import { DEFAULT_SETTINGS } from "../services/settingsService";
+import { computeWordTimingsFromBuffer, parseWav } from "../services/wordTimingService";
+import { getNarrationText } from "../services/psalmService";
+import { createSubtitles } from "../services/subtitleService";
+import { MusicBed, loadMusicLibrary } from "../services/musicService";
+import { PipelineProviders, VoiceSelector, createGeminiProviders, createStubProviders } from "./providers";
+import { renderCoverToFile, renderVideoToFile } from "./nodeRenderer";
+import { OUTPUT_FORMATS, getImageRequestSize, resolveOutputFormats } from "../services/outputFormats";
+import { BUILT_IN_TEMPLATES, VideoTemplate, parseTemplate } from "../services/videoTemplate";
+import { getReadingLanguage, parseLanguages } from "../services/languageService";
+import { DayStatus, getDayStatus, listDates } from "../services/batchService";
+import { COVER_INTRO_SECONDS } from "../services/videoGenService";
+import { PackageEntry, PackageManifest, createPackageEntry } from "../services/exportService";
+
+interface ReadingReport {
+  readingId: string;
+  type: string;
+  language: LanguageId;
+  status: 'done' | 'failed';
+  files?: string[]; // One MP4 per output format
+  error?: string;
+}
+
+const { values: args } = parseArgs({
+  options: {
+    date: { type: "string" },
+    from: { type: "string" },
+    to: { type: "string" },
+    out: { type: "string", default: "output" },
+    api: { type: "string", default: "http://localhost:5000" },
+    stub: { type: "boolean", default: false },
+    languages: { type: "string", default: DEFAULT_SETTINGS.languages.join(",") },
+    images: { type: "string", default: DEFAULT_SETTINGS.imageProvider },
+    "sd-url": { type: "string", default: DEFAULT_SETTINGS.stableDiffusionUrl },
+    "artwork-dir": { type: "string", default: "public/artwork" },
+    tts: { type: "string", default: DEFAULT_SETTINGS.tts.gospel.provider },
+    "gospel-tts": { type: "string" },
+    voice: { type: "string", default: DEFAULT_SETTINGS.tts.gospel.voice },
+    "gospel-voice": { type: "string" },
+    "language-voice": { type: "string", multiple: true, default: [] },
+    "tts-url": { type: "string", default: DEFAULT_SETTINGS.localTtsUrl },
+    "tts-engine": { type: "string", default: DEFAULT_SETTINGS.localTtsEngine },
+    "recordings-dir": { type: "string", default: "recordings" },
+    music: { type: "string" },
+    "gospel-music": { type: "string" },
+    "music-volume": { type: "string", default: String(DEFAULT_SETTINGS.music['1st_reading'].volume) },
+    "music-dir": { type: "string", default: "public/music" },
+    reflection: { type: "boolean", default: false },
+    "reflection-tone": { type: "string", default: DEFAULT_SETTINGS.reflection.tone },
+    "reflection-seconds": { type: "string", default: String(DEFAULT_SETTINGS.reflection.targetSeconds) },
+    template: { type: "string", default: DEFAULT_SETTINGS.templateId },
+    "cover-intro": { type: "boolean", default: DEFAULT_SETTINGS.coverIntro },
+    formats: { type: "string", default: DEFAULT_SETTINGS.outputFormats.join(",") },
+    ffmpeg: { type: "string" },
+    font: { type: "string" }
+  }
+});
+
+const today = new Date().toISOString().split('T')[0];
+let dates: string[];
+try {
+  if (args.date && (args.from || args.to)) throw new Error("Usa --date o --from/--to, no ambos");
+  dates = args.from || args.to
+    ? listDates(args.from || today, args.to || args.from!)
+    : listDates(args.date || today, args.date || today);
+} catch (error: any) {
+  console.error(error.message);
+  process.exit(1);
+}
+
+/**
+ * Same providers as the app settings; the artwork folder is read from disk
+ */
+const createCliImageProvider = (): ImageProvider => {
+  const id = args.images as ImageProviderId;
+  if (id === 'local_folder') {
+    return createLocalFolderProvider(path.resolve(args["artwork-dir"]!), async file => new Blob([await readFile(file)]));
+  }
+  return createImageProvider({ ...DEFAULT_SETTINGS, imageProvider: id, stableDiffusionUrl: args["sd-url"]! });
+};
+
+/**
+ * Same voice table as the app settings; recordings are read from disk.
+ * A --language-voice beats --voice / --gospel-voice for its language.
+ */
+const createCliVoiceSelector = (): VoiceSelector => {
+  const languageVoices = Object.fromEntries(args["language-voice"]!.map(entry => {
+    const [language, ...voice] = entry.split("=");
+    return [language.trim(), voice.join("=").trim()];
+  }));
+  const settings: AppSettings = {
+    ...DEFAULT_SETTINGS,
+    localTtsUrl: args["tts-url"]!,
+    localTtsEngine: args["tts-engine"] as AppSettings['localTtsEngine']
+  };
+  const loadRecording = async (readingId: string) => {
+    try {
+      return new Blob([await readFile(path.resolve(args["recordings-dir"]!, `${readingId}.wav`))]);
+    } catch {
+      return null;
+    }
+  };
+  return (reading) => {
+    const isGospel = reading.type === 'gospel';
+    const id = ((isGospel && args["gospel-tts"]) || args.tts) as TtsProviderId;
+    const voice = languageVoices[getReadingLanguage(reading).id] || (isGospel && args["gospel-voice"]) || args.voice!;
+    return { provider: createTtsProvider(id, settings, loadRecording), voice };
+  };
+};
+
+/**
+ * Music for a reading: a track id of the music folder, otherwise a file path
+ */
+const resolveCliMusic = async (reading: ReadingContent): Promise<MusicBed | null> => {
+  const choice = (reading.type === 'gospel' && args["gospel-music"]) || args.music;
+  if (!choice) return null;
+  const folder = path.resolve(args["music-dir"]!);
+  const tracks = await loadMusicLibrary(folder, async file => new Blob([await readFile(file)])).catch(() => []);
+  const track = tracks.find(t => t.id === choice);
+  return { url: track ? track.file : path.resolve(choice), volume: Number(args["music-volume"]) };
+};
+
+/**
+ * Built-in template by id, otherwise a JSON file on disk
+ */
+const loadCliTemplate = async (idOrFile: string): Promise<VideoTemplate> => {
+  const builtIn = BUILT_IN_TEMPLATES.find(t => t.id === idOrFile);
+  if (builtIn) return builtIn;
+  return parseTemplate(JSON.parse(await readFile(path.resolve(idOrFile), "utf8")));
+};
+
+const log = (message: string) => console.log(`[${new Date().toLocaleTimeString('es-ES')}] ${message}`);
+
+const main = async () => {
+  const reflectionSettings = {
+    ...DEFAULT_SETTINGS.reflection,
+    tone: args["reflection-tone"] as ReflectionTone,
+    targetSeconds: Number(args["reflection-seconds"])
+  };
+  const providers: PipelineProviders = args.stub
+    ? createStubProviders()
+    : createGeminiProviders(args.api!, createCliImageProvider(), createCliVoiceSelector(), reflectionSettings);
+  if (!args.stub && !process.env.API_KEY) {
+    throw new Error("API_KEY no definida. Exporta tu clave de Gemini o usa --stub.");
+  }
+  if (args.font) GlobalFonts.registerFromPath(args.font, "Inter");
+  const loadedTemplate = await loadCliTemplate(args.template!);
+  const template = args["cover-intro"] ? { ...loadedTemplate, coverIntro: loadedTemplate.coverIntro || COVER_INTRO_SECONDS } : loadedTemplate;
+  const formatIds = args.formats!.split(",").map(id => id.trim()).filter(Boolean);
+  const unknownFormat = formatIds.find(id => !OUTPUT_FORMATS.some(format => format.id === id));
+  if (unknownFormat) throw new Error(`Formato desconocido: "${unknownFormat}" (usa ${OUTPUT_FORMATS.map(f => f.id).join(", ")})`);
+  const musicVolume = Number(args["music-volume"]);
+  if (!(musicVolume >= 0 && musicVolume <= 1)) throw new Error(`Volumen de música inválido: "${args["music-volume"]}" (usa un valor entre 0 y 1)`);
+  const formats = resolveOutputFormats(formatIds);
+  const languages = parseLanguages(args.languages!);
+  if (languages.length === 0) throw new Error("Indica al menos un idioma en --languages.");
+
+  // One full production per day, each in its own folder under --out
+  const produceDay = async (date: string): Promise<ReadingReport[]> => {
+    const outDir = path.resolve(args.out!, date);
+    await mkdir(outDir, { recursive: true });
+    log(`Producción ${date} (proveedores: ${providers.name}, plantilla: ${template.id}, formatos: ${formats.map(f => f.id).join(", ")}, idiomas: ${languages.join(", ")}) -> ${outDir}`);
+
+    // One parallel set per language; IDs carry the language, so files never clash
+    const readings: ReadingContent[] = [];
+    for (const language of languages) {
+      const set = await providers.fetchReadings(date, language);
+      if (args.reflection) {
+        log(`Escribiendo reflexión del Evangelio (${language})...`);
+        set.push(await providers.generateReflection(set, date));
+      }
+      readings.push(...set);
+    }
+    await writeFile(path.join(outDir, "readings.json"), JSON.stringify(readings, null, 2));
+    log(`${readings.length} lecturas obtenidas`);
+
+    const report: ReadingReport[] = [];
+    const packageEntries: PackageEntry[] = [];
+
+    // Sequential on purpose: same rate-limit behavior as AUTOMATIZAR TODO
+    for (const reading of readings) {
+      const language = getReadingLanguage(reading).id;
+      const label = languages.length > 1 ? `${language}/${reading.type}` : reading.type;
+      try {
+        log(`${label}: generando imágenes y audio...`);
+        const [imageBytes, wavBytes] = await Promise.all([
+          providers.generateImages(reading, getImageRequestSize(formats)),
+          providers.generateAudio(reading)
+        ]);
+
+        const asset: GeneratedAsset = {
+          readingId: reading.id,
+          isGeneratingImage: false,
+          isGeneratingAudio: false,
+          wordTimings: await computeWordTimingsFromBuffer(wavBytes.slice().buffer, getNarrationText(reading))
+        };
+
+        // Every format renders from the same images and narration
+        const music = await resolveCliMusic(reading);
+        const files: string[] = [];
+        const videos: Record<string, string> = {};
+        for (const format of formats) {
+          const file = path.join(outDir, formats.length === 1 ? `${reading.id}.mp4` : `${reading.id}-${format.id}.mp4`);
+          log(`${label}: renderizando ${format.width}x${format.height}...`);
+          await renderVideoToFile(reading, { imageBytes, wavBytes, asset }, file, {
+            ffmpegPath: args.ffmpeg,
+            template,
+            format,
+            wavPath: path.join(outDir, `${reading.id}.wav`),
+            music,
+            onProgress: fraction => process.stdout.write(`\r  ${Math.round(fraction * 100)}%`)
+          });
+          process.stdout.write("\n");
+          files.push(path.basename(file));
+          videos[format.id] = path.basename(file);
+        }
+
+        // Subtitles so platforms can index the text
+        const pcm = parseWav(wavBytes.slice().buffer);
+        const subtitles = createSubtitles(reading, asset.wordTimings, pcm ? pcm.samples.length / pcm.sampleRate : 0, template.coverIntro);
+        await writeFile(path.join(outDir, `${reading.id}.srt`), subtitles.srt);
+        await writeFile(path.join(outDir, `${reading.id}.vtt`), subtitles.vtt);
+        files.push(`${reading.id}.srt`, `${reading.id}.vtt`);
+
+        // Cover for the platform thumbnail, in the first format
+        await renderCoverToFile(reading, { imageBytes, asset }, path.join(outDir, `${reading.id}.jpg`), { template, format: formats[0] });
+        files.push(`${reading.id}.jpg`);
+
+        // Post text per platform for metadata.json
+        const metadata = await providers.generateMetadata(reading);
+        packageEntries.push(createPackageEntry(reading, { videos, subtitles: { srt: `${reading.id}.srt`, vtt: `${reading.id}.vtt` }, thumbnail: `${reading.id}.jpg` }, metadata));
+
+        report.push({ readingId: reading.id, type: reading.type, language, status: 'done', files });
+        log(`${label}: listo (${files.join(", ")})`);
+      } catch (error: any) {
+        report.push({ readingId: reading.id, type: reading.type, language, status: 'failed', error: error.message || String(error) });
+        console.error(`${label}: error -> ${error.message || error}`);
+      }
+    }
+
+    if (packageEntries.length > 0) {
+      const manifest: PackageManifest = { date, createdAt: new Date().toISOString(), videos: packageEntries };
+      await writeFile(path.join(outDir, "metadata.json"), JSON.stringify(manifest, null, 2));
+    }
+    await writeFile(path.join(outDir, "report.json"), JSON.stringify({ date, providers: providers.name, languages, readings: report }, null, 2));
+    return report;
+  };
+
+  const days: { date: string; status: DayStatus; videos: number; readings: number; error?: string }[] = [];
+  for (const date of dates) {
+    try {
+      const report = await produceDay(date);
+      const videos = report.filter(r => r.status === 'done').length;
+      days.push({ date, status: getDayStatus(report.length, videos), videos, readings: report.length });
+    } catch (error: any) {
+      // A day without readings does not stop the rest of the batch
+      days.push({ date, status: 'failed', videos: 0, readings: 0, error: error.message || String(error) });
+      console.error(`${date}: error -> ${error.message || error}`);
+    }
+  }
+
+  if (dates.length > 1) {
+    await writeFile(path.resolve(args.out!, "batch.json"), JSON.stringify({ from: dates[0], to: dates[dates.length - 1], days }, null, 2));
+    days.forEach(day => log(`${day.date}: ${day.status} (${day.videos}/${day.readings})`));
+  }
+  const videos = days.reduce((sum, day) => sum + day.videos, 0);
+  const total = days.reduce((sum, day) => sum + day.readings, 0);
+  log(`Terminado: ${videos}/${total} videos${dates.length > 1 ? ` en ${dates.length} días` : ""}`);
+  if (days.some(day => day.status !== 'done')) process.exitCode = 1;
+};
+
+main().catch(error => {
+  console.error(error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,216 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { LanguageId, PlatformId, PostMetadata, ReadingContent, ReflectionSettings } from "../types";
+import * as geminiService from "../services/geminiService";
+import { ImageProvider } from "../services/imageProviders";
+import { TtsProvider, pcmToWav } from "../services/ttsProviders";
+import { ApiReading, READINGS_API_VERSION, parseReadingsResponse } from "../services/readingsApi";
+import { getNarrationText } from "../services/psalmService";
+import { ImageSize } from "../services/outputFormats";
+import { tokenizeWords } from "../services/wordTimingService";
+import { getReadingLanguage } from "../services/languageService";
+import { buildFallbackMetadata } from "../services/exportService";
+
+/**
+ * Everything the headless pipeline needs from the outside world.
+ * Media is returned as bytes: there are no blob: URLs in Node.
+ */
+export interface PipelineProviders {
+  name: string;
+  fetchReadings: (date: string, language: LanguageId) => Promise<ReadingContent[]>;
+  generateImages: (reading: ReadingContent, size: ImageSize) => Promise<Uint8Array[]>;
+  generateAudio: (reading: ReadingContent) => Promise<Uint8Array>; // WAV bytes
+  generateReflection: (readings: ReadingContent[], date: string) => Promise<ReadingContent>; // In the Gospel's language
+  generateMetadata: (reading: ReadingContent) => Promise<Record<PlatformId, PostMetadata>>;
+}
+
+// Narration provider + voice for a reading (settings.tts in the app)
+export type VoiceSelector = (reading: ReadingContent) => { provider: TtsProvider; voice: string };
+
+/**
+ * Real services: Flask scraper + Gemini prompts + the chosen ImageProvider and TTS
+ */
+export const createGeminiProviders = (
+  apiBase: string,
+  imageProvider: ImageProvider,
+  selectVoice: VoiceSelector,
+  reflection: ReflectionSettings
+): PipelineProviders => ({
+  name: `gemini + ${imageProvider.id}`,
+  fetchReadings: (date, language) => geminiService.fetchDailyReadings(date, apiBase, language),
+  generateImages: async (reading, size) => {
+    const prompts = await geminiService.generateImagePrompts(reading);
+    const images = await geminiService.generateSceneImages(geminiService.createImageDetails(prompts), imageProvider, size);
+    return Promise.all(images.map(async ({ blob }) => new Uint8Array(await blob.arrayBuffer())));
+  },
+  generateAudio: (reading) => {
+    const { provider, voice } = selectVoice(reading);
+    return geminiService.synthesizeReadingWav(reading, provider, voice);
+  },
+  generateReflection: (readings, date) => geminiService.generateReflection(readings, date, reflection),
+  generateMetadata: (reading) => geminiService.generatePostMetadata(reading)
+});
+
+// --- LOCAL STUBS (offline testing) ---
+
+// Same shape as the backend's /api/readings items
+const STUB_READINGS: Record<LanguageId, ApiReading[]> = {
+  es: [
+    {
+      type: '1st_reading',
+      title: 'Primera Lectura',
+      reference: 'Ef 2, 1-10',
+      text: 'Hermanos: Ustedes estaban muertos por sus delitos y pecados. Pero Dios, rico en misericordia, nos hizo revivir con Cristo.'
+    },
+    {
+      type: 'psalm',
+      title: 'Salmo Responsorial',
+      reference: 'Sal 99, 2-5',
+      text: 'R. El Señor nos hizo y somos suyos. Aclama al Señor, tierra entera, sirvan al Señor con alegría. R. El Señor nos hizo y somos suyos.'
+    },
+    {
+      type: '2nd_reading',
+      title: 'Segunda Lectura',
+      reference: 'Rom 4, 20-25',
+      text: 'Hermanos: Ante la promesa de Dios, Abraham no dudó, sino que se fortaleció en la fe, dando gloria a Dios.'
+    },
+    {
+      type: 'gospel',
+      title: 'Evangelio',
+      reference: 'Lc 12, 13-21',
+      text: 'En aquel tiempo, uno de entre la gente le dijo a Jesús: Maestro, dile a mi hermano que comparta conmigo la herencia. Jesús le respondió: Hombre, ¿quién me ha nombrado juez entre ustedes?'
+    }
+  ],
+  en: [
+    {
+      type: '1st_reading',
+      title: 'First Reading',
+      reference: 'Eph 2:1-10',
+      text: 'Brothers and sisters: You were dead in your transgressions and sins. But God, who is rich in mercy, brought us to life with Christ.'
+    },
+    {
+      type: 'psalm',
+      title: 'Responsorial Psalm',
+      reference: 'Ps 100:2-5',
+      text: 'R. The Lord made us, we belong to him. Sing joyfully to the Lord, all you lands; serve the Lord with gladness. R. The Lord made us, we belong to him.'
+    },
+    {
+      type: '2nd_reading',
+      title: 'Second Reading',
+      reference: 'Rom 4:20-25',
+      text: 'Brothers and sisters: Abraham did not doubt God’s promise in unbelief; rather, he was strengthened by faith and gave glory to God.'
+    },
+    {
+      type: 'gospel',
+      title: 'Gospel',
+      reference: 'Lk 12:13-21',
+      text: 'Someone in the crowd said to Jesus, Teacher, tell my brother to share the inheritance with me. He replied to him, Friend, who appointed me as your judge?'
+    }
+  ],
+  pt: [
+    {
+      type: '1st_reading',
+      title: 'Primeira Leitura',
+      reference: 'Ef 2, 1-10',
+      text: 'Irmãos: Vós estáveis mortos por causa das vossas faltas e pecados. Mas Deus, rico em misericórdia, deu-nos a vida com Cristo.'
+    },
+    {
+      type: 'psalm',
+      title: 'Salmo Responsorial',
+      reference: 'Sl 99, 2-5',
+      text: 'R. Sabei que o Senhor, só ele, é Deus: ele nos fez, e somos seus. Aclamai o Senhor, ó terra inteira, servi ao Senhor com alegria. R. Sabei que o Senhor, só ele, é Deus: ele nos fez, e somos seus.'
+    },
+    {
+      type: '2nd_reading',
+      title: 'Segunda Leitura',
+      reference: 'Rm 4, 20-25',
+      text: 'Irmãos: Diante da promessa de Deus, Abraão não duvidou, mas fortaleceu-se na fé e deu glória a Deus.'
+    },
+    {
+      type: 'gospel',
+      title: 'Evangelho',
+      reference: 'Lc 12, 13-21',
+      text: 'Naquele tempo, alguém do meio da multidão disse a Jesus: Mestre, dize ao meu irmão que reparta a herança comigo. Jesus respondeu: Homem, quem me encarregou de julgar entre vós?'
+    }
+  ]
+};
+
+const STUB_REFLECTIONS: Record<LanguageId, string> = {
+  es: 'Hoy Jesús nos advierte contra la codicia. La vida no depende de los bienes. ¿Dónde está hoy tu tesoro? Pidamos al Señor un corazón libre y generoso. Amén.',
+  en: 'Today Jesus warns us against greed. Life does not depend on possessions. Where is your treasure today? Let us ask the Lord for a free and generous heart. Amen.',
+  pt: 'Hoje Jesus nos adverte contra a ganância. A vida não depende dos bens. Onde está hoje o teu tesouro? Peçamos ao Senhor um coração livre e generoso. Amém.'
+};
+
+const STUB_COLORS = [["#1e1b4b", "#7c3aed"], ["#0f172a", "#0ea5e9"], ["#451a03", "#f59e0b"]];
+
+/**
+ * Gradient placeholder scene with its index written on it
+ */
+const drawStubImage = async (index: number, { width, height }: ImageSize): Promise<Uint8Array> => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d");
+  const [from, to] = STUB_COLORS[index % STUB_COLORS.length];
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, from);
+  gradient.addColorStop(1, to);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = "rgba(255, 255, 255, 0.2)";
+  ctx.font = "bold 200px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(String(index + 1), width / 2, height / 2);
+  return new Uint8Array(await canvas.encode("png"));
+};
+
+/**
+ * One tone burst per word with pauses after punctuation, so the
+ * word timing alignment has real speech/silence structure to work on.
+ */
+const synthesizeStubSpeech = (text: string): Uint8Array => {
+  const sampleRate = 24000;
+  const parts: number[] = [];
+  const pushSilence = (seconds: number) => { for (let i = 0; i < seconds * sampleRate; i++) parts.push(0); };
+
+  pushSilence(0.3);
+  tokenizeWords(text).forEach((word, index) => {
+    const seconds = 0.08 + word.length * 0.045;
+    const frequency = 180 + (index % 5) * 20;
+    for (let i = 0; i < seconds * sampleRate; i++) {
+      const envelope = Math.min(1, i / 200, (seconds * sampleRate - i) / 200);
+      parts.push(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.5 * envelope);
+    }
+    pushSilence(/[.,;:!?]$/.test(word) ? 0.35 : 0.06);
+  });
+  pushSilence(0.3);
+
+  const pcm = new Uint8Array(parts.length * 2);
+  const view = new DataView(pcm.buffer);
+  parts.forEach((sample, i) => view.setInt16(i * 2, Math.round(sample * 32767), true));
+  return pcmToWav(pcm, sampleRate);
+};
+
+/**
+ * No network at all: fixed readings, gradient images, synthetic narration
+ */
+export const createStubProviders = (): PipelineProviders => ({
+  name: "stub",
+  fetchReadings: async (date, language) => geminiService.toReadingContents(
+    parseReadingsResponse({ version: READINGS_API_VERSION, date, lang: language, readings: STUB_READINGS[language] }, date, language),
+    date,
+    language
+  ),
+  generateImages: async (_reading, size) => Promise.all([0, 1, 2].map(index => drawStubImage(index, size))),
+  generateAudio: async (reading) => synthesizeStubSpeech(getNarrationText(reading)),
+  generateReflection: async (readings, date) => {
+    const gospel = readings.find(r => r.type === 'gospel')!;
+    const language = getReadingLanguage(gospel);
+    return {
+      ...gospel,
+      id: geminiService.buildReadingId(date, 'reflection', "", language.id),
+      type: 'reflection',
+      title: language.reflectionTitle,
+      text: STUB_REFLECTIONS[language.id]
+    };
+  },
+  generateMetadata: async (reading) => buildFallbackMetadata(reading)
+});
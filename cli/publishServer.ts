@@ -0,0 +1,349 @@
+/**
+ * Publish server: holds the OAuth tokens and uploads videos to the
+ * platforms for the app, which only ever sees /api/publish.
+ *
+ *   npm run publish-server
+ *   npm run publish-server -- --mock http://localhost:5055   (with npm run mock-platforms)
+ *
+ * Options:
+ *   --port <n>           Port (default: 5001; Vite proxies /api/publish here)
+ *   --tokens <file>      Token store (default: .publish/tokens.json)
+ *   --spool <dir>        Videos waiting for their time on platforms without native scheduling (default: .publish/spool)
+ *   --mock <origin>      Send every platform call to the mock server at <origin>
+ *   --public-url <url>   Origin the OAuth redirects come back to (default: http://localhost:<port>)
+ *
+ * OAuth apps come from YOUTUBE_CLIENT_ID / YOUTUBE_CLIENT_SECRET,
+ * META_APP_ID / META_APP_SECRET and TIKTOK_CLIENT_KEY / TIKTOK_CLIENT_SECRET.
+ *
+ * Only reachable from this machine (127.0.0.1), without CORS. POST and DELETE
+ * also need the X-Publish-Secret header: PUBLISH_SECRET, or the contents of
+ * .publish/secret, created on the first start. The Vite proxy adds it, so
+ * the browser never holds it.
+ *
+ * Routes:
+ *   GET    /api/publish/accounts                       Connected accounts
+ *   GET    /api/publish/oauth/<account>/start          Redirects to the platform's consent page
+ *   GET    /api/publish/oauth/<account>/callback       Stores the token
+ *   DELETE /api/publish/accounts/<account>             Forgets the token
+ *   POST   /api/publish/<platform>                     MP4 body; X-Post-Metadata (URI-encoded JSON), optional X-Scheduled-At (ISO)
+ *   GET    /api/publish/<platform>/status/<remoteId>   Current status
+ */
+import { parseArgs } from "node:util";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, readdir, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { PlatformId, PostMetadata } from "../types";
+import {
+  OAuthClient, PUBLISH_ACCOUNTS, PUBLISH_TARGETS, PublishAccountId, PublishEndpoints, PublishRequest, PublishResult,
+  PLATFORM_ENDPOINTS, ensureFreshToken, exchangeCode, fetchPlatformStatus, getAuthorizeUrl, getMockEndpoints,
+  getPublishTarget, publishToPlatform
+} from "../services/publishAdapters";
+import { createTokenStore } from "./publishTokens";
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: "5001" },
+    tokens: { type: "string", default: ".publish/tokens.json" },
+    spool: { type: "string", default: ".publish/spool" },
+    mock: { type: "string" },
+    "public-url": { type: "string" }
+  }
+});
+
+const MAX_UPLOAD_BYTES = 512 * 1024 * 1024;
+const SPOOL_CHECK_MS = 30_000;
+// Schedules closer than this are published right away
+const MIN_SCHEDULE_AHEAD_MS = 60_000;
+const SPOOL_PREFIX = "spool-";
+const HOST = "127.0.0.1";
+// Read by vite.config.ts too; PUBLISH_SECRET overrides it
+const SECRET_FILE = ".publish/secret";
+
+// Spooled video waiting for its time (platforms without native scheduling)
+interface SpoolItem {
+  id: string;
+  platform: PlatformId;
+  metadata: PostMetadata;
+  scheduledAt: string;
+  state: 'waiting' | 'done' | 'failed';
+  result?: PublishResult;
+  error?: string;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const log = (message: string) => console.log(`[${new Date().toLocaleTimeString('es-ES')}] ${message}`);
+
+const port = Number(args.port);
+const publicUrl = args["public-url"] || `http://localhost:${port}`;
+const endpoints: PublishEndpoints = args.mock ? getMockEndpoints(args.mock.replace(/\/+$/, "")) : PLATFORM_ENDPOINTS;
+const tokens = createTokenStore(path.resolve(args.tokens!));
+const spoolDir = path.resolve(args.spool!);
+
+/**
+ * Shared secret for the routes that post or forget accounts
+ */
+const loadSecret = async (): Promise<string> => {
+  if (process.env.PUBLISH_SECRET) return process.env.PUBLISH_SECRET;
+  const file = path.resolve(SECRET_FILE);
+  try {
+    return (await readFile(file, "utf8")).trim();
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+    const secret = randomBytes(32).toString("hex");
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, secret, { mode: 0o600 });
+    return secret;
+  }
+};
+
+let secret = "";
+
+const requireSecret = (req: IncomingMessage) => {
+  const given = Buffer.from(String(req.headers["x-publish-secret"] || ""));
+  const expected = Buffer.from(secret);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new HttpError(403, "Falta la cabecera X-Publish-Secret o no es válida (usa el proxy de Vite).");
+  }
+};
+
+const OAUTH_ENV: Record<PublishAccountId, [string, string]> = {
+  youtube: ["YOUTUBE_CLIENT_ID", "YOUTUBE_CLIENT_SECRET"],
+  meta: ["META_APP_ID", "META_APP_SECRET"],
+  tiktok: ["TIKTOK_CLIENT_KEY", "TIKTOK_CLIENT_SECRET"]
+};
+
+const getClient = (account: PublishAccountId): OAuthClient => {
+  const [idVar, secretVar] = OAUTH_ENV[account];
+  const clientId = process.env[idVar] || (args.mock ? "mock" : "");
+  const clientSecret = process.env[secretVar] || (args.mock ? "mock" : "");
+  if (!clientId || !clientSecret) throw new HttpError(500, `Faltan ${idVar} y ${secretVar} en el entorno del servidor.`);
+  return { clientId, clientSecret };
+};
+
+const redirectUri = (account: PublishAccountId) => `${publicUrl}/api/publish/oauth/${account}/callback`;
+
+// OAuth `state` values handed out and not used yet
+const pendingStates = new Map<string, PublishAccountId>();
+
+// --- PUBLISHING ---
+
+const publish = async (platform: PlatformId, publishRequest: PublishRequest): Promise<PublishResult> => {
+  const { account } = getPublishTarget(platform);
+  const token = await tokens.get(account);
+  if (!token) throw new HttpError(401, `La cuenta de ${account} no está conectada.`);
+  const fresh = await ensureFreshToken(account, endpoints, getClient(account), token);
+  if (fresh !== token) await tokens.set(account, fresh);
+  return publishToPlatform(platform, endpoints, fresh, publishRequest);
+};
+
+const getStatus = async (platform: PlatformId, remoteId: string): Promise<PublishResult> => {
+  if (remoteId.startsWith(SPOOL_PREFIX)) {
+    const item = await readSpoolItem(remoteId.slice(SPOOL_PREFIX.length));
+    if (item.state === 'waiting') return { status: 'scheduled', remoteId, scheduledAt: item.scheduledAt };
+    if (item.state === 'failed') return { status: 'failed', remoteId, error: item.error };
+    // Published: from now on the app follows the platform's own id
+    remoteId = item.result!.remoteId;
+  }
+  const { account } = getPublishTarget(platform);
+  const token = await tokens.get(account);
+  if (!token) throw new HttpError(401, `La cuenta de ${account} no está conectada.`);
+  const fresh = await ensureFreshToken(account, endpoints, getClient(account), token);
+  if (fresh !== token) await tokens.set(account, fresh);
+  return fetchPlatformStatus(platform, endpoints, fresh, remoteId);
+};
+
+// --- SPOOL ---
+
+const spoolPath = (id: string, extension: string) => path.join(spoolDir, `${id}.${extension}`);
+
+const readSpoolItem = async (id: string): Promise<SpoolItem> => {
+  try {
+    return JSON.parse(await readFile(spoolPath(id, "json"), "utf8"));
+  } catch {
+    throw new HttpError(404, `Publicación programada desconocida: ${id}`);
+  }
+};
+
+const writeSpoolItem = (item: SpoolItem) => writeFile(spoolPath(item.id, "json"), JSON.stringify(item, null, 2));
+
+const spool = async (platform: PlatformId, { video, metadata, scheduledAt }: PublishRequest): Promise<PublishResult> => {
+  await mkdir(spoolDir, { recursive: true });
+  const item: SpoolItem = { id: randomUUID(), platform, metadata, scheduledAt: scheduledAt!, state: 'waiting' };
+  await writeFile(spoolPath(item.id, "mp4"), video);
+  await writeSpoolItem(item);
+  log(`${platform}: en espera hasta ${scheduledAt} (${item.id})`);
+  return { status: 'scheduled', remoteId: `${SPOOL_PREFIX}${item.id}`, scheduledAt };
+};
+
+// Survives restarts: the spool is read from disk every time
+let isFlushing = false;
+const flushSpool = async () => {
+  if (isFlushing) return;
+  isFlushing = true;
+  try {
+    const files = await readdir(spoolDir).catch(() => [] as string[]);
+    for (const file of files.filter(f => f.endsWith(".json"))) {
+      const item = await readSpoolItem(file.replace(/\.json$/, ""));
+      if (item.state !== 'waiting' || new Date(item.scheduledAt).getTime() > Date.now()) continue;
+      try {
+        const video = new Uint8Array(await readFile(spoolPath(item.id, "mp4")));
+        item.result = await publish(item.platform, { video, metadata: item.metadata });
+        item.state = 'done';
+        log(`${item.platform}: publicado a su hora (${item.result.remoteId})`);
+      } catch (error: any) {
+        item.state = 'failed';
+        item.error = error.message || String(error);
+        log(`${item.platform}: falló la publicación programada -> ${item.error}`);
+      }
+      await writeSpoolItem(item);
+      await unlink(spoolPath(item.id, "mp4")).catch(() => {});
+    }
+  } finally {
+    isFlushing = false;
+  }
+};
+
+// --- HTTP ---
+
+const readBody = (req: IncomingMessage): Promise<Uint8Array<ArrayBuffer>> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_UPLOAD_BYTES) {
+      reject(new HttpError(413, "El video es demasiado grande."));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on("end", () => resolve(new Uint8Array(Buffer.concat(chunks))));
+  req.on("error", reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+};
+
+const parsePlatform = (value: string): PlatformId => {
+  if (!PUBLISH_TARGETS.some(target => target.platform === value)) {
+    throw new HttpError(404, `Plataforma desconocida: "${value}" (usa ${PUBLISH_TARGETS.map(t => t.platform).join(", ")})`);
+  }
+  return value as PlatformId;
+};
+
+const parseAccount = (value: string): PublishAccountId => {
+  if (!PUBLISH_ACCOUNTS.some(account => account.id === value)) {
+    throw new HttpError(404, `Cuenta desconocida: "${value}" (usa ${PUBLISH_ACCOUNTS.map(a => a.id).join(", ")})`);
+  }
+  return value as PublishAccountId;
+};
+
+const parseMetadata = (header: string | string[] | undefined): PostMetadata => {
+  try {
+    const metadata = JSON.parse(decodeURIComponent(String(header)));
+    if (typeof metadata.title !== "string" || typeof metadata.description !== "string" || !Array.isArray(metadata.hashtags)) throw new Error();
+    return metadata;
+  } catch {
+    throw new HttpError(400, "Falta la cabecera X-Post-Metadata o no es válida.");
+  }
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || "/", publicUrl);
+  const parts = url.pathname.split("/").filter(Boolean).slice(2); // After /api/publish
+  if (!url.pathname.startsWith("/api/publish")) throw new HttpError(404, "Ruta desconocida.");
+  if (req.method === "POST" || req.method === "DELETE") requireSecret(req);
+
+  if (req.method === "GET" && parts[0] === "accounts" && parts.length === 1) {
+    const stored = await tokens.list();
+    return sendJson(res, 200, PUBLISH_ACCOUNTS.map(account => ({
+      ...account,
+      connected: !!stored[account.id],
+      expiresAt: stored[account.id]?.expiresAt
+    })));
+  }
+
+  if (req.method === "DELETE" && parts[0] === "accounts" && parts.length === 2) {
+    await tokens.remove(parseAccount(parts[1]));
+    return sendJson(res, 200, { ok: true });
+  }
+
+  if (req.method === "GET" && parts[0] === "oauth" && parts[2] === "start") {
+    const account = parseAccount(parts[1]);
+    const state = randomUUID();
+    pendingStates.set(state, account);
+    res.writeHead(302, { Location: getAuthorizeUrl(account, endpoints, getClient(account), redirectUri(account), state) });
+    return res.end();
+  }
+
+  if (req.method === "GET" && parts[0] === "oauth" && parts[2] === "callback") {
+    const account = parseAccount(parts[1]);
+    const state = url.searchParams.get("state") || "";
+    if (pendingStates.get(state) !== account) throw new HttpError(400, "La respuesta de OAuth no corresponde a ninguna conexión iniciada.");
+    pendingStates.delete(state);
+    const code = url.searchParams.get("code");
+    if (!code) throw new HttpError(400, `La plataforma no dio permiso: ${url.searchParams.get("error_description") || url.searchParams.get("error") || "sin código"}`);
+
+    await tokens.set(account, await exchangeCode(account, endpoints, getClient(account), code, redirectUri(account)));
+    log(`${account}: cuenta conectada`);
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    return res.end("<p>Cuenta conectada. Ya puedes cerrar esta pestaña.</p>");
+  }
+
+  if (req.method === "POST" && parts.length === 1) {
+    const platform = parsePlatform(parts[0]);
+    const metadata = parseMetadata(req.headers["x-post-metadata"]);
+    const scheduledHeader = req.headers["x-scheduled-at"];
+    const scheduledTime = scheduledHeader ? new Date(String(scheduledHeader)).getTime() : NaN;
+    if (scheduledHeader && isNaN(scheduledTime)) throw new HttpError(400, `Fecha de publicación inválida: "${scheduledHeader}"`);
+    const scheduledAt = scheduledTime > Date.now() + MIN_SCHEDULE_AHEAD_MS ? new Date(scheduledTime).toISOString() : undefined;
+
+    const video = await readBody(req);
+    if (video.length === 0) throw new HttpError(400, "Falta el video en el cuerpo de la petición.");
+    log(`${platform}: subiendo ${(video.length / 1024 / 1024).toFixed(1)} MB${scheduledAt ? ` para ${scheduledAt}` : ""}`);
+
+    const publishRequest: PublishRequest = { video, metadata, scheduledAt };
+    const result = scheduledAt && !getPublishTarget(platform).nativeScheduling
+      ? await spool(platform, publishRequest)
+      : await publish(platform, publishRequest);
+    return sendJson(res, 200, result);
+  }
+
+  if (req.method === "GET" && parts.length === 3 && parts[1] === "status") {
+    return sendJson(res, 200, await getStatus(parsePlatform(parts[0]), decodeURIComponent(parts[2])));
+  }
+
+  throw new HttpError(404, "Ruta desconocida.");
+};
+
+// No CORS headers: the app goes through the Vite proxy, other origins are refused by the browser
+const server = createServer((req, res) => {
+  handle(req, res).catch((error: any) => {
+    const status = error instanceof HttpError ? error.status : 502;
+    if (status >= 500) console.error(error.message || error);
+    if (!res.headersSent) sendJson(res, status, { error: error.message || String(error) });
+    else res.end();
+  });
+});
+
+loadSecret()
+  .then(value => {
+    secret = value;
+    server.listen(port, HOST, () => {
+      log(`Servidor de publicación en http://${HOST}:${port}${args.mock ? ` (plataformas simuladas en ${args.mock})` : ""}`);
+      flushSpool().catch(error => console.error("Error revisando la cola programada:", error));
+      setInterval(() => flushSpool().catch(error => console.error("Error revisando la cola programada:", error)), SPOOL_CHECK_MS);
+    });
+  })
+  .catch(error => {
+    console.error(`No se pudo preparar el secreto de publicación: ${error.message || error}`);
+    process.exit(1);
+  });
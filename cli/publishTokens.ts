@@ -0,0 +1,36 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { AccountToken, PublishAccountId } from "../services/publishAdapters";
+
+/**
+ * OAuth tokens of the connected accounts, kept in one JSON file readable
+ * only by the user running the publish server.
+ */
+export const createTokenStore = (file: string) => {
+  const readAll = async (): Promise<Partial<Record<PublishAccountId, AccountToken>>> => {
+    try {
+      return JSON.parse(await readFile(file, "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return {};
+      throw new Error(`No se pudo leer ${file}: ${error.message}`);
+    }
+  };
+
+  const writeAll = async (tokens: Partial<Record<PublishAccountId, AccountToken>>) => {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+  };
+
+  return {
+    get: async (account: PublishAccountId): Promise<AccountToken | undefined> => (await readAll())[account],
+    set: async (account: PublishAccountId, token: AccountToken) => writeAll({ ...await readAll(), [account]: token }),
+    remove: async (account: PublishAccountId) => {
+      const tokens = await readAll();
+      delete tokens[account];
+      await writeAll(tokens);
+    },
+    list: readAll
+  };
+};
+
+export type TokenStore = ReturnType<typeof createTokenStore>;
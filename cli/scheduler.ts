@@ -0,0 +1,256 @@
+/**
+ * Scheduler daemon: every day at a fixed local time, produces the readings of
+ * the coming day with the headless CLI, as AUTOMATIZAR TODO would. Slots
+ * missed while the machine was off or asleep are caught up on the next check.
+ *
+ *   npm run scheduler -- --at 05:00
+ *   npm run scheduler -- --at 05:00 -- --stub --languages es,en   (options after -- go to produce)
+ *   npm run scheduler -- --once                                   (run what is due and exit, e.g. from cron)
+ *
+ * Options:
+ *   --at <HH:MM>         Local time of the daily run (default: 05:00)
+ *   --days-ahead <n>     Days between the run and the date it produces (default: 1, tomorrow)
+ *   --catch-up <n>       Missed days to look back for (default: 3)
+ *   --out <dir>          Output root (default: output); days go to <out>/<date>/
+ *   --once               Run the slots that are due, then exit
+ *
+ * Each run appends the producer's output to <out>/<date>/scheduler.log.
+ * <out>/scheduler.json records every run (status, videos, exit code, error)
+ * and is what the catch-up reads, so it survives restarts.
+ */
+import { parseArgs } from "node:util";
+import { spawn, ChildProcess } from "node:child_process";
+import { createWriteStream } from "node:fs";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { DayStatus, addDays, getDayStatus } from "../services/batchService";
+
+const { values: args, positionals: produceArgs } = parseArgs({
+  allowPositionals: true, // Everything after -- is handed to produce
+  options: {
+    at: { type: "string", default: "05:00" },
+    "days-ahead": { type: "string", default: "1" },
+    "catch-up": { type: "string", default: "3" },
+    out: { type: "string", default: "output" },
+    once: { type: "boolean", default: false }
+  }
+});
+
+// One scheduled run of the producer
+interface RunRecord {
+  date: string; // Liturgical date produced
+  slot: string; // ISO time the run was due
+  catchUp: boolean; // Started later than its slot
+  startedAt: string;
+  finishedAt: string;
+  status: DayStatus;
+  videos: number;
+  readings: number;
+  exitCode: number | null;
+  log: string; // Relative to --out
+  error?: string;
+}
+
+interface SchedulerState {
+  since: string; // ISO; slots before the day of the first start are never caught up
+  runs: RunRecord[];
+}
+
+const PRODUCE_SCRIPT = fileURLToPath(new URL("./produce.ts", import.meta.url));
+const CHECK_INTERVAL_MS = 60_000;
+// A day that produced nothing is tried again later, a few times at most
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 30 * 60_000;
+const MAX_RUNS_KEPT = 400;
+// Lines of producer output kept for the error of a run that crashed
+const OUTPUT_TAIL_LINES = 20;
+// Set by the scheduler for every run
+const RESERVED_PRODUCE_OPTIONS = ["--date", "--from", "--to", "--out"];
+
+const log = (message: string) => console.log(`[${new Date().toLocaleTimeString('es-ES')}] ${message}`);
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Calendar date on this machine's clock, not UTC
+const toLocalDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Without an offset the ISO string is read as local time
+const getSlotTime = (day: string, at: string) => new Date(`${day}T${at}:00`);
+
+const outRoot = path.resolve(args.out!);
+const stateFile = path.join(outRoot, "scheduler.json");
+
+const readState = async (): Promise<SchedulerState> => {
+  try {
+    return JSON.parse(await readFile(stateFile, "utf8"));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return { since: getSlotTime(toLocalDate(new Date()), "00:00").toISOString(), runs: [] };
+    throw new Error(`No se pudo leer ${stateFile}: ${error.message}`);
+  }
+};
+
+const writeState = async (state: SchedulerState) => {
+  await mkdir(outRoot, { recursive: true });
+  await writeFile(stateFile, JSON.stringify({ ...state, runs: state.runs.slice(-MAX_RUNS_KEPT) }, null, 2));
+};
+
+/**
+ * Slots from the catch-up window whose time has passed and whose date still
+ * has to be produced, oldest first
+ */
+const getDueSlots = (state: SchedulerState, now: Date) => {
+  const today = toLocalDate(now);
+  const daysAhead = Number(args["days-ahead"]);
+  const since = new Date(state.since).getTime();
+  const due: { date: string; slot: Date }[] = [];
+
+  for (let offset = -Number(args["catch-up"]); offset <= 0; offset++) {
+    const slot = getSlotTime(addDays(today, offset), args.at!);
+    if (slot > now || slot.getTime() < since) continue;
+    const date = addDays(toLocalDate(slot), daysAhead);
+    const runs = state.runs.filter(run => run.date === date);
+    // Done and partial days stay as they are; only empty days are retried
+    if (runs.some(run => run.status !== 'failed') || runs.length >= MAX_ATTEMPTS) continue;
+    const lastRun = runs[runs.length - 1];
+    if (lastRun && now.getTime() - new Date(lastRun.finishedAt).getTime() < RETRY_DELAY_MS) continue;
+    due.push({ date, slot });
+  }
+  return due;
+};
+
+let child: ChildProcess | null = null;
+
+/**
+ * Runs the producer for one date, its output appended to the day's log
+ */
+const runProduce = async (date: string, slot: Date, attempt: number): Promise<RunRecord> => {
+  const dayDir = path.join(outRoot, date);
+  const logFile = path.join(dayDir, "scheduler.log");
+  await mkdir(dayDir, { recursive: true });
+  // A report left by an earlier attempt must not count for this one
+  await rm(path.join(dayDir, "report.json"), { force: true });
+
+  const startedAt = new Date();
+  const catchUp = startedAt.getTime() - slot.getTime() > CHECK_INTERVAL_MS * 2;
+  const logStream = createWriteStream(logFile, { flags: "a" });
+  logStream.write(`\n=== ${date} · intento ${attempt} · ${startedAt.toISOString()}${catchUp ? ` (recuperado; tocaba ${slot.toISOString()})` : ""} ===\n`);
+
+  const tail: string[] = [];
+  const exitCode = await new Promise<number | null>(resolve => {
+    child = spawn(process.execPath, [...process.execArgv, PRODUCE_SCRIPT, "--date", date, "--out", outRoot, ...produceArgs], {
+      stdio: ["ignore", "pipe", "pipe"]
+    });
+    const collect = (chunk: Buffer) => {
+      logStream.write(chunk);
+      tail.push(...chunk.toString("utf8").split("\n").filter(line => line.trim()));
+      tail.splice(0, Math.max(0, tail.length - OUTPUT_TAIL_LINES));
+    };
+    child.stdout!.on("data", collect);
+    child.stderr!.on("data", collect);
+    child.on("error", error => {
+      tail.push(error.message);
+      resolve(null);
+    });
+    child.on("close", code => resolve(code));
+  });
+  child = null;
+
+  // The producer's own report says how many videos came out
+  let readings = 0;
+  let videos = 0;
+  let readingErrors: string[] = [];
+  try {
+    const report: { readings: { readingId: string; status: string; error?: string }[] } =
+      JSON.parse(await readFile(path.join(dayDir, "report.json"), "utf8"));
+    readings = report.readings.length;
+    videos = report.readings.filter(reading => reading.status === 'done').length;
+    readingErrors = report.readings.filter(reading => reading.error).map(reading => `${reading.readingId}: ${reading.error}`);
+  } catch {
+    // Crashed before the report: nothing was produced
+  }
+
+  const finishedAt = new Date();
+  const status = getDayStatus(readings, videos);
+  const record: RunRecord = {
+    date,
+    slot: slot.toISOString(),
+    catchUp,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    status,
+    videos,
+    readings,
+    exitCode,
+    log: path.relative(outRoot, logFile),
+    ...(status !== 'done' && {
+      error: readingErrors.join(" · ") || tail[tail.length - 1] || `El productor terminó con código ${exitCode}`
+    })
+  };
+  logStream.write(`=== ${status} · ${videos}/${readings} videos · código ${exitCode} · ${finishedAt.toISOString()} ===\n`);
+  await new Promise(resolve => logStream.end(resolve));
+  return record;
+};
+
+let isChecking = false;
+
+/**
+ * Produces every due slot in turn; returns the runs it made
+ */
+const check = async (): Promise<RunRecord[]> => {
+  if (isChecking) return [];
+  isChecking = true;
+  const made: RunRecord[] = [];
+  try {
+    const state = await readState();
+    if (state.runs.length === 0) await writeState(state); // Fixes `since` on the first start
+    for (const { date, slot } of getDueSlots(state, new Date())) {
+      const attempt = state.runs.filter(run => run.date === date).length + 1;
+      log(`${date}: produciendo (intento ${attempt}${toLocalDate(slot) !== toLocalDate(new Date()) ? `, recuperado del ${toLocalDate(slot)}` : ""})...`);
+      const record = await runProduce(date, slot, attempt);
+      state.runs.push(record);
+      await writeState(state);
+      made.push(record);
+      log(`${date}: ${record.status} (${record.videos}/${record.readings} videos)${record.error ? ` -> ${record.error}` : ""}`);
+    }
+  } finally {
+    isChecking = false;
+  }
+  return made;
+};
+
+const main = async () => {
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(args.at!)) throw new Error(`Hora inválida: "${args.at}" (usa HH:MM)`);
+  const daysAhead = Number(args["days-ahead"]);
+  if (!Number.isInteger(daysAhead) || daysAhead < 0) throw new Error(`--days-ahead inválido: "${args["days-ahead"]}"`);
+  const catchUpDays = Number(args["catch-up"]);
+  if (!Number.isInteger(catchUpDays) || catchUpDays < 0) throw new Error(`--catch-up inválido: "${args["catch-up"]}"`);
+  const reserved = produceArgs.find(arg => RESERVED_PRODUCE_OPTIONS.includes(arg.split("=")[0]));
+  if (reserved) throw new Error(`${reserved} lo fija el programador; quítalo de las opciones de produce.`);
+
+  if (args.once) {
+    const runs = await check();
+    log(runs.length > 0 ? `Terminado: ${runs.filter(run => run.status === 'done').length}/${runs.length} días completos` : "Nada pendiente");
+    if (runs.some(run => run.status !== 'done')) process.exitCode = 1;
+    return;
+  }
+
+  // A stopped scheduler takes its running producer with it
+  const stop = () => {
+    child?.kill("SIGTERM");
+    process.exit(0);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  log(`Programador: cada día a las ${args.at} produce el día +${daysAhead} en ${outRoot}${produceArgs.length ? ` (produce ${produceArgs.join(" ")})` : ""}`);
+  // Checking every minute also notices a wake-up from sleep
+  const tick = () => check().catch(error => console.error("Error del programador:", error.message || error));
+  await tick();
+  setInterval(tick, CHECK_INTERVAL_MS);
+};
+
+main().catch(error => {
+  console.error(error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { SessionSummary } from '../services/storageService';
+import { BatchRun, DayStatus, addDays, getCalendarWeeks, getSavedDayStatus, listDates } from '../services/batchService';
+import { CalendarRange, Sparkles, Square, AlertCircle } from 'lucide-react';
+
+interface BatchPanelProps {
+  batch: BatchRun | null;
+  sessions: SessionSummary[];
+  defaultDate: string;
+  disabled: boolean; // Another run is in progress
+  onStart: (from: string, to: string) => void;
+  onStop: () => void;
+  onOpen: (date: string) => void;
+}
+
+const WEEKDAYS = ["L", "M", "X", "J", "V", "S", "D"];
+
+const STATUS_STYLES: Record<DayStatus, { label: string; className: string }> = {
+  pending: { label: "Pendiente", className: 'bg-gray-800 border-gray-700 text-gray-400' },
+  running: { label: "En curso", className: 'bg-indigo-900/60 border-indigo-500 text-indigo-200 animate-pulse' },
+  done: { label: "Completo", className: 'bg-green-900/40 border-green-600 text-green-200' },
+  partial: { label: "Parcial", className: 'bg-amber-900/40 border-amber-600 text-amber-200' },
+  failed: { label: "Falló", className: 'bg-red-900/40 border-red-700 text-red-200' }
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ batch, sessions, defaultDate, disabled, onStart, onStop, onOpen }) => {
+  const [from, setFrom] = useState(batch?.dates[0] || defaultDate);
+  const [to, setTo] = useState(batch?.dates[batch.dates.length - 1] || addDays(defaultDate, 6));
+
+  let dates: string[] = [];
+  let rangeError: string | null = null;
+  try {
+    dates = listDates(from, to);
+  } catch (err: any) {
+    rangeError = err.message;
+  }
+
+  // This run's result first, then whatever was saved for the day earlier
+  const getStatus = (date: string): DayStatus => {
+    const status = batch?.statuses[date];
+    if (status) return status;
+    return getSavedDayStatus(sessions.find(s => s.date === date));
+  };
+  const counts = dates.reduce((acc, date) => {
+    const status = getStatus(date);
+    acc[status] = (acc[status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<DayStatus, number>>);
+
+  return (
+    <div className="mb-8 bg-gray-900 border border-gray-800 rounded-xl p-4 shadow-xl">
+      <div className="flex items-center gap-2 mb-4 text-gray-400">
+        <CalendarRange size={16} />
+        <h3 className="text-xs font-bold uppercase tracking-widest">Lote de Varios Días</h3>
+        {batch?.running && (
+          <span className="text-xs text-indigo-300">· día {batch.index + 1}/{batch.dates.length}</span>
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-3 mb-4">
+        <label className="text-xs text-gray-400">
+          Desde
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            disabled={batch?.running}
+            className="block mt-1 bg-gray-800 border border-gray-700 text-white text-sm rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Hasta
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            disabled={batch?.running}
+            className="block mt-1 bg-gray-800 border border-gray-700 text-white text-sm rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+          />
+        </label>
+        {batch?.running ? (
+          <button
+            onClick={onStop}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-red-900/50 rounded-lg text-sm font-bold text-gray-300 hover:text-red-200 transition-colors border border-gray-700"
+          >
+            <Square size={14} /> Detener lote
+          </button>
+        ) : (
+          <button
+            onClick={() => onStart(from, to)}
+            disabled={disabled || !!rangeError}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 rounded-lg text-sm font-bold text-white transition-all disabled:opacity-50"
+          >
+            <Sparkles size={14} /> Producir {dates.length > 0 ? `${dates.length} días` : 'lote'}
+          </button>
+        )}
+      </div>
+
+      {rangeError ? (
+        <p className="text-sm text-red-300 flex items-center gap-2"><AlertCircle size={14} /> {rangeError}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-7 gap-1 max-w-md">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="text-center text-[10px] font-bold text-gray-500">{day}</div>
+            ))}
+            {getCalendarWeeks(dates).flat().map((date, index) => {
+              if (!date) return <div key={`pad-${index}`} />;
+              const status = getStatus(date);
+              const hasSession = sessions.some(s => s.date === date);
+              return (
+                <button
+                  key={date}
+                  onClick={() => onOpen(date)}
+                  disabled={!hasSession || batch?.running}
+                  title={`${date}: ${STATUS_STYLES[status].label}`}
+                  className={`aspect-square rounded-lg border text-sm font-bold transition-colors disabled:cursor-default ${STATUS_STYLES[status].className}`}
+                >
+                  {Number(date.slice(8))}
+                </button>
+              );
+            })}
+          </div>
+          <p className="mt-3 text-xs text-gray-500">
+            {(Object.keys(STATUS_STYLES) as DayStatus[]).filter(status => counts[status]).map(status =>
+              `${counts[status]} ${STATUS_STYLES[status].label.toLowerCase()}`
+            ).join(" · ")}
+            {" · pulsa un día guardado para abrirlo"}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { Job, summarizeJobs } from '../services/jobQueue';
+import { formatProgress } from '../services/progressService';
+import { Loader2 } from 'lucide-react';
+
+interface BatchProgressProps {
+  jobs: Job[];
+}
+
+/**
+ * Overall progress of the queued work, under the header while anything is
+ * still queued or running
+ */
+const BatchProgress: React.FC<BatchProgressProps> = ({ jobs }) => {
+  const isActive = jobs.some(job => job.state === 'queued' || job.state === 'running');
+
+  // Elapsed time keeps moving while a job waits on a slow provider
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(() => setTick(tick => tick + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  const summary = summarizeJobs(jobs);
+  if (!isActive || !summary) return null;
+  const running = jobs.filter(job => job.state === 'running');
+
+  return (
+    <div className="border-t border-gray-800 bg-gray-950/60">
+      <div className="max-w-7xl mx-auto px-4 py-2 flex flex-col md:flex-row md:items-center gap-2 text-xs text-gray-400">
+        <div className="flex items-center gap-2 whitespace-nowrap">
+          <Loader2 className="w-3 h-3 animate-spin text-indigo-400" />
+          <span className="font-bold text-gray-300">Lote {summary.finished}/{summary.total}</span>
+          <span>{formatProgress(summary.progress)}</span>
+        </div>
+        <div className="flex-1 h-1 bg-gray-800 rounded-full overflow-hidden">
+          <div className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all" style={{ width: `${summary.progress.fraction * 100}%` }} />
+        </div>
+        {running.length > 0 && (
+          <span className="truncate md:max-w-xs">{running.map(job => job.label).join(" · ")}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchProgress;
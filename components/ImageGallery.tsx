@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedAsset, ImageDetail } from '../types';
+import { Dices, Images, Loader2, Lock, LockOpen, RefreshCw, Square, SquareCheck, Upload } from 'lucide-react';
+import { canRegenerate, getImageDetails } from '../services/imageEditService';
+import { randomSeed } from '../services/imageProviders';
+
+interface ImageGalleryProps {
+  asset: GeneratedAsset;
+  disabled?: boolean;
+  onUpdateDetails: (details: ImageDetail[]) => void;
+  onRegenerate: (indices: number[], details: ImageDetail[]) => void;
+  onReplace: (index: number, file: File) => void;
+}
+
+/**
+ * One card per scene image: its prompt (editable), seed, lock and upload.
+ * Regeneration only ever touches the selected images.
+ */
+const ImageGallery: React.FC<ImageGalleryProps> = ({ asset, disabled, onUpdateDetails, onRegenerate, onReplace }) => {
+  const images = asset.imageUrls || [];
+  const uploadInput = useRef<HTMLInputElement>(null);
+  const uploadTarget = useRef(0);
+
+  // Prompt drafts are local until they are saved (blur) or used to regenerate
+  const [details, setDetails] = useState<ImageDetail[]>(() => getImageDetails(asset));
+  const [selected, setSelected] = useState<number[]>([]);
+  const [pending, setPending] = useState<number[]>([]);
+  useEffect(() => setDetails(getImageDetails(asset)), [asset.imageDetails, asset.imageUrls]);
+  useEffect(() => {
+    if (!asset.isGeneratingImage) setPending([]);
+  }, [asset.isGeneratingImage]);
+
+  const isDirty = (index: number) => details[index].prompt !== (asset.imageDetails?.[index]?.prompt ?? "");
+
+  const updateDetail = (index: number, patch: Partial<ImageDetail>) => {
+    return details.map((detail, i) => i === index ? { ...detail, ...patch } : detail);
+  };
+
+  const regenerate = (indices: number[], next: ImageDetail[]) => {
+    const targets = indices.filter(index => canRegenerate(next[index]));
+    if (targets.length === 0) return;
+    setDetails(next);
+    setPending(targets);
+    setSelected([]);
+    onRegenerate(targets, next);
+  };
+
+  const toggleLock = (index: number) => {
+    const next = updateDetail(index, { locked: !details[index].locked });
+    setDetails(next);
+    setSelected(selected.filter(i => i !== index));
+    onUpdateDetails(next);
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected(selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index]);
+  };
+
+  if (images.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-gray-950/50 p-3 rounded-lg border border-gray-800">
+      <div className="flex items-center justify-between mb-3">
+        <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400">
+          <Images size={14} /> Imágenes
+        </span>
+        <button
+          onClick={() => regenerate(selected, details)}
+          disabled={disabled || selected.length === 0}
+          className="flex items-center gap-1 px-3 py-1 text-xs font-bold rounded bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-30"
+        >
+          <RefreshCw size={12} /> Regenerar seleccionadas{selected.length > 0 && ` (${selected.length})`}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {images.map((url, index) => {
+          const detail = details[index];
+          const isPending = pending.includes(index) && asset.isGeneratingImage;
+          return (
+            <div key={index} className={`flex flex-col gap-2 p-2 rounded border ${selected.includes(index) ? 'border-indigo-500' : 'border-gray-800'}`}>
+              <div className="relative h-40 rounded overflow-hidden bg-gray-900">
+                <img src={url} alt={`Escena ${index + 1}`} className="w-full h-full object-cover" />
+                {isPending && (
+                  <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+                    <Loader2 className="animate-spin w-6 h-6 text-white" />
+                  </div>
+                )}
+                <button
+                  onClick={() => toggleSelected(index)}
+                  disabled={disabled || !canRegenerate(detail)}
+                  className="absolute top-1 left-1 p-1 rounded bg-black/60 text-white disabled:opacity-30"
+                  title={detail.locked ? "Bloqueada" : "Seleccionar para regenerar"}
+                >
+                  {selected.includes(index) ? <SquareCheck size={14} /> : <Square size={14} />}
+                </button>
+                <button
+                  onClick={() => toggleLock(index)}
+                  disabled={disabled}
+                  className={`absolute top-1 right-1 p-1 rounded ${detail.locked ? 'bg-amber-500 text-black' : 'bg-black/60 text-white'}`}
+                  title={detail.locked ? "Desbloquear" : "Bloquear (no se regenerará)"}
+                >
+                  {detail.locked ? <Lock size={14} /> : <LockOpen size={14} />}
+                </button>
+              </div>
+
+              <textarea
+                value={detail.prompt}
+                onChange={(e) => setDetails(updateDetail(index, { prompt: e.target.value }))}
+                onBlur={() => { if (isDirty(index)) onUpdateDetails(details); }}
+                disabled={disabled}
+                rows={4}
+                placeholder={detail.uploaded ? "Imagen propia" : "Describe la escena"}
+                className="bg-gray-800 border border-gray-700 text-gray-300 text-xs rounded p-2 resize-none outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+              />
+
+              <div className="flex items-center justify-between text-[10px] text-gray-500">
+                <span>{detail.uploaded ? "Subida" : `Semilla ${detail.seed}`}</span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => regenerate([index], updateDetail(index, { seed: randomSeed() }))}
+                    disabled={disabled || !canRegenerate(detail)}
+                    className="p-1 rounded hover:bg-gray-800 hover:text-white disabled:opacity-30"
+                    title="Otra versión (nueva semilla)"
+                  >
+                    <Dices size={14} />
+                  </button>
+                  <button
+                    onClick={() => { uploadTarget.current = index; uploadInput.current?.click(); }}
+                    disabled={disabled}
+                    className="p-1 rounded hover:bg-gray-800 hover:text-white disabled:opacity-30"
+                    title="Subir imagen propia"
+                  >
+                    <Upload size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <input
+        ref={uploadInput}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onReplace(uploadTarget.current, file);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+};
+
+export default ImageGallery;
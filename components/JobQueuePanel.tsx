@@ -0,0 +1,112 @@
+import React from 'react';
+import { Job, JobState, QueueSnapshot } from '../services/jobQueue';
+import { formatProgress } from '../services/progressService';
+import { ListChecks, Loader2, Clock, CheckCircle, XCircle, Ban, RotateCcw, X, Pause, Play, Trash2 } from 'lucide-react';
+
+interface JobQueuePanelProps {
+  snapshot: QueueSnapshot;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onClearFinished: () => void;
+}
+
+const STATE_LABELS: Record<JobState, string> = {
+  queued: "En cola",
+  running: "En curso",
+  failed: "Falló",
+  done: "Listo",
+  cancelled: "Cancelado"
+};
+
+const StateIcon: React.FC<{ job: Job }> = ({ job }) => {
+  switch (job.state) {
+    case 'running': return <Loader2 className="w-4 h-4 animate-spin text-indigo-400" />;
+    case 'queued': return <Clock className={`w-4 h-4 ${job.retryAt ? 'text-amber-400' : 'text-gray-500'}`} />;
+    case 'done': return <CheckCircle className="w-4 h-4 text-green-500" />;
+    case 'failed': return <XCircle className="w-4 h-4 text-red-400" />;
+    case 'cancelled': return <Ban className="w-4 h-4 text-gray-500" />;
+  }
+};
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({ snapshot, onCancel, onRetry, onPause, onResume, onClearFinished }) => {
+  const { jobs, paused } = snapshot;
+  const hasFinished = jobs.some(job => job.state !== 'queued' && job.state !== 'running');
+
+  return (
+    <div className="mb-8 bg-gray-900 border border-gray-800 rounded-xl p-4 shadow-xl">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2 text-gray-400">
+          <ListChecks size={16} />
+          <h3 className="text-xs font-bold uppercase tracking-widest">Cola de Trabajos</h3>
+          {paused && <span className="text-xs text-amber-400">(en pausa)</span>}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={paused ? onResume : onPause}
+            className="flex items-center gap-2 px-3 py-1 bg-gray-800 hover:bg-gray-700 rounded-lg text-xs font-bold text-white transition-colors border border-gray-700"
+          >
+            {paused ? <><Play size={14} /> Reanudar</> : <><Pause size={14} /> Pausar</>}
+          </button>
+          <button
+            onClick={onClearFinished}
+            disabled={!hasFinished}
+            className="flex items-center gap-2 px-3 py-1 bg-gray-800 hover:bg-gray-700 rounded-lg text-xs text-gray-400 transition-colors border border-gray-700 disabled:opacity-50"
+            title="Quitar trabajos terminados"
+          >
+            <Trash2 size={14} /> Limpiar
+          </button>
+        </div>
+      </div>
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-gray-500">No hay trabajos en la cola.</p>
+      ) : (
+        <ul className="divide-y divide-gray-800">
+          {jobs.map(job => (
+            <li key={job.id} className="flex items-center justify-between gap-3 py-3">
+              <div className="flex items-start gap-3 min-w-0">
+                <div className="pt-0.5"><StateIcon job={job} /></div>
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-white truncate">{job.label}</p>
+                  <p className="text-xs text-gray-500">
+                    {STATE_LABELS[job.state]}
+                    {job.attempts > 0 && ` · intento ${job.attempts}/${job.maxAttempts}`}
+                    {job.state === 'queued' && job.retryAt && ` · reintento a las ${new Date(job.retryAt).toLocaleTimeString('es-ES')}`}
+                    {job.state === 'running' && job.progress && ` · ${formatProgress(job.progress)}`}
+                    {job.state === 'running' && job.step && ` · ${job.step}`}
+                  </p>
+                  {job.error && job.state !== 'done' && (
+                    <p className="text-xs text-red-300 break-words">{job.error}</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                {(job.state === 'failed' || job.state === 'cancelled') && (
+                  <button
+                    onClick={() => onRetry(job.id)}
+                    className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-xs font-bold text-white transition-colors border border-gray-700"
+                  >
+                    <RotateCcw size={14} /> Reintentar
+                  </button>
+                )}
+                {(job.state === 'queued' || job.state === 'running') && (
+                  <button
+                    onClick={() => onCancel(job.id)}
+                    className="flex items-center px-3 py-2 bg-gray-800 hover:bg-red-900/50 rounded-lg text-xs text-gray-400 hover:text-red-300 transition-colors border border-gray-700"
+                    title="Cancelar"
+                  >
+                    <X size={14} />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default JobQueuePanel;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { GeneratedAsset, PlatformId, PublishStatus } from '../types';
+import { Send, RefreshCw, ExternalLink, Loader2, Link2 } from 'lucide-react';
+import { PUBLISH_ACCOUNTS, PUBLISH_TARGETS } from '../services/publishAdapters';
+import { PublishAccount, getConnectUrl } from '../services/publishService';
+
+interface PublishPanelProps {
+  asset: GeneratedAsset;
+  // null when the publish server does not answer
+  accounts: PublishAccount[] | null;
+  isBusy: boolean; // A publish job for this reading is queued or running
+  onPublish: (platforms: PlatformId[], scheduledAt?: string) => void;
+  onRefresh: () => void;
+}
+
+const STATUS_LABELS: Record<PublishStatus, string> = {
+  uploading: 'Subiendo',
+  scheduled: 'Programado',
+  processing: 'Procesando',
+  published: 'Publicado',
+  failed: 'Error'
+};
+
+const STATUS_CLASSES: Record<PublishStatus, string> = {
+  uploading: 'bg-indigo-900/50 text-indigo-300',
+  scheduled: 'bg-amber-900/40 text-amber-300',
+  processing: 'bg-indigo-900/50 text-indigo-300',
+  published: 'bg-green-900/40 text-green-300',
+  failed: 'bg-red-900/40 text-red-300'
+};
+
+const formatWhen = (iso: string) => new Date(iso).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Publishes the rendered video to the connected platforms, now or at a
+ * chosen time, and shows where each upload stands.
+ */
+const PublishPanel: React.FC<PublishPanelProps> = ({ asset, accounts, isBusy, onPublish, onRefresh }) => {
+  const [selected, setSelected] = useState<PlatformId[]>([]);
+  const [scheduleAt, setScheduleAt] = useState(''); // datetime-local, local time
+  const publications = asset.publications || {};
+  const isConnected = (account: string) => !!accounts?.find(a => a.id === account)?.connected;
+  const hasPending = Object.values(publications).some(record => record && (record.status === 'scheduled' || record.status === 'processing'));
+
+  const toggle = (platform: PlatformId) => {
+    setSelected(prev => prev.includes(platform) ? prev.filter(p => p !== platform) : [...prev, platform]);
+  };
+
+  const handlePublish = () => {
+    onPublish(selected, scheduleAt ? new Date(scheduleAt).toISOString() : undefined);
+    setSelected([]);
+  };
+
+  return (
+    <div className="mt-4 bg-gray-950/50 p-3 rounded-lg border border-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400">
+          <Send size={14} /> Publicar
+        </span>
+        {hasPending && (
+          <button onClick={onRefresh} className="flex items-center gap-1 text-xs text-gray-500 hover:text-white" title="Consultar el estado en las plataformas">
+            <RefreshCw size={12} /> Actualizar estado
+          </button>
+        )}
+      </div>
+
+      {accounts === null ? (
+        <p className="text-xs text-gray-500">Servidor de publicación no disponible (npm run publish-server).</p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            {PUBLISH_TARGETS.map(target => {
+              const record = publications[target.platform];
+              const connected = isConnected(target.account);
+              return (
+                <div key={target.platform} className="flex items-center gap-2 text-xs">
+                  <label className={`flex items-center gap-2 flex-1 ${connected ? 'text-gray-300' : 'text-gray-600'}`}>
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(target.platform)}
+                      onChange={() => toggle(target.platform)}
+                      disabled={!connected || isBusy}
+                      className="accent-indigo-500"
+                    />
+                    {target.label}
+                  </label>
+                  {!connected && (
+                    <a href={getConnectUrl(target.account)} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300">
+                      <Link2 size={12} /> Conectar {PUBLISH_ACCOUNTS.find(a => a.id === target.account)?.label}
+                    </a>
+                  )}
+                  {record && (
+                    <span className={`px-2 py-0.5 rounded font-bold ${STATUS_CLASSES[record.status]}`} title={record.error}>
+                      {record.status === 'uploading' && <Loader2 size={10} className="inline animate-spin mr-1" />}
+                      {STATUS_LABELS[record.status]}
+                      {record.status === 'scheduled' && record.scheduledAt ? ` · ${formatWhen(record.scheduledAt)}` : ''}
+                    </span>
+                  )}
+                  {record?.url && record.status !== 'failed' && (
+                    <a href={record.url} target="_blank" rel="noreferrer" className="text-gray-500 hover:text-white" title="Abrir en la plataforma">
+                      <ExternalLink size={12} />
+                    </a>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {Object.entries(publications).map(([platform, record]) => record?.status === 'failed' && record.error && (
+            <p key={platform} className="mt-1 text-[11px] text-red-400 break-words">{platform}: {record.error}</p>
+          ))}
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <input
+              type="datetime-local"
+              value={scheduleAt}
+              onChange={(e) => setScheduleAt(e.target.value)}
+              className="bg-gray-800 border border-gray-700 text-white text-xs rounded px-2 py-1 outline-none focus:ring-1 focus:ring-indigo-500"
+              title="Vacío: publicar ahora"
+            />
+            <button
+              onClick={handlePublish}
+              disabled={selected.length === 0 || isBusy}
+              className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded disabled:opacity-40"
+            >
+              {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Send size={12} />}
+              {scheduleAt ? 'Programar' : 'Publicar ahora'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PublishPanel;
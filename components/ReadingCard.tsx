@@ -1,46 +1,135 @@
-import React, { useEffect, useRef } from 'react';
-import { ReadingContent, GeneratedAsset } from '../types';
-import { Loader2, RefreshCw, Video, PlayCircle, Film, CheckCircle } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { ReadingContent, GeneratedAsset, Scene, ImageDetail, PlatformId } from '../types';
+import { Loader2, RefreshCw, Video, PlayCircle, Film, CheckCircle, Mic, Clock } from 'lucide-react';
 import VideoPreview from './VideoPreview';
+import SceneTimeline from './SceneTimeline';
+import ImageGallery from './ImageGallery';
+import PublishPanel from './PublishPanel';
+import { SEASON_LABELS } from '../services/liturgyService';
+import { VideoTemplate } from '../services/videoTemplate';
+import { OutputFormat } from '../services/outputFormats';
+import { Job } from '../services/jobQueue';
+import { formatProgress } from '../services/progressService';
+import { getExportBaseName, getVideoFileName } from '../services/exportService';
+import { CoverImageType, renderCoverImage } from '../services/videoGenService';
+import { PublishAccount } from '../services/publishService';
 
 interface ReadingCardProps {
   reading: ReadingContent;
   asset: GeneratedAsset;
+  template: VideoTemplate;
+  formats: OutputFormat[];
+  // Queued or running job for this reading, if any
+  job?: Job;
   onGenerateAssets: (reading: ReadingContent) => void;
   onGenerateVideo: (reading: ReadingContent) => void;
+  onUploadRecording: (reading: ReadingContent, file: File) => void;
+  onScenesChange: (reading: ReadingContent, scenes: Scene[] | undefined, imageUrls?: string[]) => void;
+  onUpdateImageDetails: (reading: ReadingContent, details: ImageDetail[]) => void;
+  onRegenerateImages: (reading: ReadingContent, indices: number[], details: ImageDetail[]) => void;
+  onReplaceImage: (reading: ReadingContent, index: number, file: File) => void;
+  // Only for editable scripts (the reflection)
+  onEditText?: (reading: ReadingContent, text: string) => void;
+  publishAccounts: PublishAccount[] | null;
+  onPublish: (reading: ReadingContent, platforms: PlatformId[], scheduledAt?: string) => void;
+  onRefreshPublications: (reading: ReadingContent) => void;
 }
 
 const ReadingCard: React.FC<ReadingCardProps> = ({ 
   reading, 
-  asset, 
+  asset,
+  template,
+  formats,
+  job,
   onGenerateAssets,
-  onGenerateVideo
+  onGenerateVideo,
+  onUploadRecording,
+  onScenesChange,
+  onUpdateImageDetails,
+  onRegenerateImages,
+  onReplaceImage,
+  onEditText,
+  publishAccounts,
+  onPublish,
+  onRefreshPublications
 }) => {
   const isGeneratingAssets = asset.isGeneratingImage || asset.isGeneratingAudio;
   const isGeneratingVideo = asset.isGeneratingVideo;
+  const isQueued = job?.state === 'queued';
+  const isQueuedAssets = isQueued && (job.kind === 'assets' || job.kind === 'images');
+  const isQueuedVideo = isQueued && job.kind === 'video';
+  // "42% · 0:31 · quedan ~0:43", plus the step when the job reports one
+  const jobProgress = job?.state === 'running' && job.progress
+    ? [formatProgress(job.progress), job.step].filter(Boolean).join(" · ")
+    : null;
   
   // Updated check for multiple images
   const hasImages = asset.imageUrls && asset.imageUrls.length > 0;
   const hasAssets = hasImages && asset.audioUrl;
   const hasVideo = asset.videoUrl;
 
-  // Track the last downloaded URL to prevent loop but allow new generations to download
+  // Track the last downloaded URL to prevent loop but allow new generations to download.
+  // Only renders from this tab download; videos restored from storage do not.
   const lastDownloadedUrl = useRef<string | null>(null);
+  const recordingInput = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    if (hasVideo && asset.videoUrl && asset.videoUrl !== lastDownloadedUrl.current) {
-      // Auto-download logic
+  // Local draft so typing does not drop the narration on every keystroke
+  const [draft, setDraft] = useState(reading.text);
+  useEffect(() => setDraft(reading.text), [reading.text]);
+  const isDraftDirty = draft.trim() !== reading.text.trim();
+
+  // One download per rendered format; a single format keeps the plain name
+  const downloads = asset.videos
+    ? formats.filter(f => asset.videos?.[f.id]).map(f => ({
+      format: f,
+      url: asset.videos![f.id]!,
+      filename: getVideoFileName(reading, formats.length > 1 ? f.id : undefined)
+    }))
+    : asset.videoUrl ? [{ format: null, url: asset.videoUrl, filename: getVideoFileName(reading) }] : [];
+
+  // Subtitles travel with the video so platforms can index the text
+  const subtitleDownloads = asset.subtitles ? [
+    { label: 'SRT', url: `data:application/x-subrip;charset=utf-8,${encodeURIComponent(asset.subtitles.srt)}`, filename: `${getExportBaseName(reading)}.srt` },
+    { label: 'VTT', url: `data:text/vtt;charset=utf-8,${encodeURIComponent(asset.subtitles.vtt)}`, filename: `${getExportBaseName(reading)}.vtt` }
+  ] : [];
+
+  // Cover drawn on demand in the first format, so it always matches the current images
+  const [isExportingCover, setIsExportingCover] = useState(false);
+  const handleDownloadCover = async (type: CoverImageType) => {
+    setIsExportingCover(true);
+    try {
+      const url = URL.createObjectURL(await renderCoverImage(reading, asset, template, formats[0], type));
       const link = document.createElement('a');
-      link.href = asset.videoUrl;
-      link.download = `video-${reading.id}.mp4`;
+      link.href = url;
+      link.download = `${getExportBaseName(reading)}.${type === 'image/png' ? 'png' : 'jpg'}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error) {
+      console.error("Error generando la portada:", error);
+      alert("No se pudo generar la portada.");
+    } finally {
+      setIsExportingCover(false);
+    }
+  };
+
+  useEffect(() => {
+    if (hasVideo && asset.justRendered && asset.videoUrl && asset.videoUrl !== lastDownloadedUrl.current) {
+      // Auto-download logic
+      [...downloads, ...subtitleDownloads].forEach(({ url, filename }) => {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+      });
+
       // Mark as downloaded
       lastDownloadedUrl.current = asset.videoUrl;
     }
-  }, [hasVideo, asset.videoUrl, reading.id]);
+  }, [hasVideo, asset.videoUrl, asset.justRendered, reading.id]);
 
   return (
     <div className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden flex flex-col xl:flex-row shadow-xl">
@@ -53,18 +142,87 @@ const ReadingCard: React.FC<ReadingCardProps> = ({
             </span>
             <h2 className="text-2xl font-bold text-white mb-1">{reading.title}</h2>
             <p className="text-gray-400 text-sm">{reading.reference}</p>
+            {reading.liturgy && (
+              <p className="text-gray-500 text-xs mt-1">
+                {SEASON_LABELS[reading.liturgy.season]} · Ciclo {reading.liturgy.sundayCycle} / Año {reading.liturgy.weekdayCycle}
+                {reading.liturgy.feast && <> · <span className="text-gray-300">{reading.liturgy.feast}</span></>}
+              </p>
+            )}
           </div>
-        </div>
 
-        <div className="bg-gray-950/50 p-4 rounded-lg border border-gray-800 h-64 overflow-y-auto mb-6 text-gray-300 leading-relaxed font-serif flex-grow">
-          {reading.text}
+          {/* Human narration replaces the TTS audio for this reading */}
+          <button
+            onClick={() => recordingInput.current?.click()}
+            disabled={isGeneratingAssets || isGeneratingVideo}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 border border-gray-700 rounded hover:text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+            title="Subir grabación (WAV)"
+          >
+            <Mic className="w-3 h-3" />
+            Subir voz
+          </button>
+          <input
+            ref={recordingInput}
+            type="file"
+            accept="audio/wav,.wav"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onUploadRecording(reading, file);
+              e.target.value = "";
+            }}
+          />
         </div>
 
+        {onEditText ? (
+          <div className="mb-6 flex-grow flex flex-col">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              disabled={isGeneratingAssets || isGeneratingVideo}
+              className="bg-gray-950/50 p-4 rounded-lg border border-gray-800 h-64 text-gray-300 leading-relaxed font-serif flex-grow resize-none focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-50"
+            />
+            <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+              <span>{draft.split(/\s+/).filter(w => w.length > 0).length} palabras · guion editable antes de renderizar</span>
+              {isDraftDirty && (
+                <button
+                  onClick={() => onEditText(reading, draft.trim())}
+                  className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded transition-colors"
+                >
+                  Guardar guion
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="bg-gray-950/50 p-4 rounded-lg border border-gray-800 h-64 overflow-y-auto mb-6 text-gray-300 leading-relaxed font-serif flex-grow">
+            {reading.text}
+          </div>
+        )}
+
+        {hasImages && (
+          <ImageGallery
+            asset={asset}
+            disabled={isGeneratingAssets || isGeneratingVideo}
+            onUpdateDetails={(details) => onUpdateImageDetails(reading, details)}
+            onRegenerate={(indices, details) => onRegenerateImages(reading, indices, details)}
+            onReplace={(index, file) => onReplaceImage(reading, index, file)}
+          />
+        )}
+
+        {hasImages && (
+          <SceneTimeline
+            reading={reading}
+            asset={asset}
+            disabled={isGeneratingAssets || isGeneratingVideo}
+            onChange={(scenes, imageUrls) => onScenesChange(reading, scenes, imageUrls)}
+          />
+        )}
+
         <div className="mt-auto grid grid-cols-1 md:grid-cols-2 gap-3">
           {/* Step 1: Generate Assets */}
           <button
             onClick={() => onGenerateAssets(reading)}
-            disabled={isGeneratingAssets || isGeneratingVideo}
+            disabled={isGeneratingAssets || isGeneratingVideo || isQueued}
             className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-bold text-sm transition-all shadow-lg ${
               hasAssets 
                 ? 'bg-gray-800 text-gray-300 border border-gray-700 hover:bg-gray-700' 
@@ -73,18 +231,20 @@ const ReadingCard: React.FC<ReadingCardProps> = ({
           >
             {isGeneratingAssets ? (
               <Loader2 className="animate-spin w-4 h-4" />
+            ) : isQueuedAssets ? (
+              <Clock className="w-4 h-4" />
             ) : hasAssets ? (
               <RefreshCw className="w-4 h-4" />
             ) : (
               <Video className="w-4 h-4" />
             )}
-            {isGeneratingAssets ? 'Creando (3 Escenas + Audio)...' : hasAssets ? 'Regenerar Assets' : '1. Generar Assets'}
+            {isGeneratingAssets ? 'Creando (3 Escenas + Audio)...' : isQueuedAssets ? 'En cola...' : hasAssets ? 'Regenerar Assets' : '1. Generar Assets'}
           </button>
           
           {/* Step 2: Render Video */}
           <button
             onClick={() => onGenerateVideo(reading)}
-            disabled={!hasAssets || isGeneratingVideo || isGeneratingAssets}
+            disabled={!hasAssets || isGeneratingVideo || isGeneratingAssets || isQueued}
             className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-bold text-sm transition-all shadow-lg ${
               hasVideo
                 ? 'bg-green-600 hover:bg-green-500 text-white border border-green-500' 
@@ -94,7 +254,12 @@ const ReadingCard: React.FC<ReadingCardProps> = ({
              {isGeneratingVideo ? (
               <>
                 <Loader2 className="animate-spin w-4 h-4" />
-                <span>Renderizando ({Math.floor(Math.random() * 100)}%)...</span>
+                <span>Renderizando{job?.kind === 'video' && job.progress ? ` ${Math.floor(job.progress.fraction * 100)}%` : ''}...</span>
+              </>
+            ) : isQueuedVideo ? (
+              <>
+                <Clock className="w-4 h-4" />
+                <span>En cola...</span>
               </>
             ) : hasVideo ? (
               <>
@@ -109,19 +274,65 @@ const ReadingCard: React.FC<ReadingCardProps> = ({
             )}
           </button>
         </div>
+
+        {/* Live progress of the running job (images + narration or render) */}
+        {jobProgress && (
+          <div className="mt-3">
+            <div className="h-1 bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(job?.progress?.fraction ?? 0) * 100}%` }} />
+            </div>
+            <p className="mt-1 text-xs text-gray-500 text-center">{jobProgress}</p>
+          </div>
+        )}
         
         {hasVideo && (
             <div className="mt-4 p-3 bg-green-900/20 border border-green-800 rounded text-center animate-in fade-in zoom-in duration-300">
                 <p className="text-green-300 text-xs mb-2">¡Video renderizado y descargado!</p>
-                <a 
-                  href={asset.videoUrl} 
-                  download={`video-${reading.id}.mp4`}
-                  className="inline-block px-6 py-2 bg-green-600 text-white text-xs font-bold rounded hover:bg-green-500 transition-colors"
-                >
-                    Volver a descargar
-                </a>
+                <div className="flex flex-wrap gap-2 justify-center">
+                  {downloads.map(({ format, url, filename }) => (
+                    <a
+                      key={filename}
+                      href={url}
+                      download={filename}
+                      className="inline-block px-6 py-2 bg-green-600 text-white text-xs font-bold rounded hover:bg-green-500 transition-colors"
+                    >
+                        {downloads.length > 1 && format ? `Descargar ${format.width}x${format.height}` : 'Volver a descargar'}
+                    </a>
+                  ))}
+                  {subtitleDownloads.map(({ label, url, filename }) => (
+                    <a
+                      key={filename}
+                      href={url}
+                      download={filename}
+                      className="inline-block px-3 py-2 bg-gray-800 text-green-300 text-xs font-bold rounded border border-green-800 hover:bg-gray-700 transition-colors"
+                    >
+                        {label}
+                    </a>
+                  ))}
+                  {(['image/jpeg', 'image/png'] as CoverImageType[]).map(type => (
+                    <button
+                      key={type}
+                      onClick={() => handleDownloadCover(type)}
+                      disabled={isExportingCover}
+                      className="inline-block px-3 py-2 bg-gray-800 text-green-300 text-xs font-bold rounded border border-green-800 hover:bg-gray-700 transition-colors disabled:opacity-50"
+                      title="Portada: primera escena con título, cita y fecha"
+                    >
+                        {type === 'image/png' ? 'Portada PNG' : 'Portada JPG'}
+                    </button>
+                  ))}
+                </div>
             </div>
         )}
+
+        {hasVideo && (
+          <PublishPanel
+            asset={asset}
+            accounts={publishAccounts}
+            isBusy={job?.kind === 'publish'}
+            onPublish={(platforms, scheduledAt) => onPublish(reading, platforms, scheduledAt)}
+            onRefresh={() => onRefreshPublications(reading)}
+          />
+        )}
       </div>
 
       {/* Right: Preview */}
@@ -130,7 +341,7 @@ const ReadingCard: React.FC<ReadingCardProps> = ({
              <PlayCircle size={14} />
              <h3 className="text-xs font-bold uppercase tracking-widest">Vista Previa (3 Escenas)</h3>
         </div>
-        <VideoPreview reading={reading} asset={asset} />
+        <VideoPreview reading={reading} asset={asset} template={template} formats={formats} />
       </div>
     </div>
   );
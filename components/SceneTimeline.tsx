@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedAsset, ReadingContent, Scene, SceneTransition } from '../types';
+import { Clapperboard, ChevronLeft, ChevronRight, ImagePlus, Pin, RotateCcw } from 'lucide-react';
+import { MIN_SCENE_LENGTH, TRANSITION_OPTIONS, getScenes, getSentenceAnchors } from '../services/sceneService';
+import { tokenizeWords } from '../services/wordTimingService';
+import { getNarrationText } from '../services/psalmService';
+
+interface SceneTimelineProps {
+  reading: ReadingContent;
+  asset: GeneratedAsset;
+  disabled?: boolean;
+  // `imageUrls` only when an uploaded image was added to the pool; `scenes` undefined resets to the even split
+  onChange: (scenes: Scene[] | undefined, imageUrls?: string[]) => void;
+}
+
+const inputClass = "bg-gray-800 border border-gray-700 text-white text-xs rounded px-2 py-1 outline-none focus:ring-1 focus:ring-indigo-500";
+
+/**
+ * Scene editor: drag the boundaries on the bar, then per scene pick the
+ * image, its order, the transition into it and an optional passage it
+ * starts on.
+ */
+const SceneTimeline: React.FC<SceneTimelineProps> = ({ reading, asset, disabled, onChange }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const uploadInput = useRef<HTMLInputElement>(null);
+  const uploadTarget = useRef<number>(0);
+  const images = asset.imageUrls || [];
+
+  // Local copy while dragging; committed on release
+  const [scenes, setScenes] = useState<Scene[]>(() => getScenes(asset));
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [selected, setSelected] = useState(0);
+  useEffect(() => {
+    if (dragging === null) setScenes(getScenes(asset));
+  }, [asset.scenes, asset.imageUrls]);
+
+  const anchors = getSentenceAnchors(reading);
+
+  // Where a word falls on the bar, from the timings when they match the narration
+  const wordFraction = (word: number) => {
+    const wordCount = tokenizeWords(getNarrationText(reading)).length;
+    const timings = asset.wordTimings && asset.wordTimings.length === wordCount ? asset.wordTimings : null;
+    if (timings && timings.length > 0) return timings[word].start / timings[timings.length - 1].end;
+    return wordCount > 0 ? word / wordCount : 0;
+  };
+
+  const commit = (next: Scene[], imageUrls?: string[]) => {
+    setScenes(next);
+    onChange(next, imageUrls);
+  };
+
+  const updateScene = (index: number, patch: Partial<Scene>) => {
+    commit(scenes.map((scene, i) => i === index ? { ...scene, ...patch } : scene));
+  };
+
+  // --- Boundary dragging ---
+
+  const fractionAt = (clientX: number, index: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    const min = scenes[index - 1].start + MIN_SCENE_LENGTH;
+    const max = (index + 1 < scenes.length ? scenes[index + 1].start : 1) - MIN_SCENE_LENGTH;
+    return Math.min(Math.max((clientX - rect.left) / rect.width, min), max);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging === null) return;
+    const start = fractionAt(e.clientX, dragging);
+    // A dragged boundary is no longer tied to a passage
+    setScenes(prev => prev.map((scene, i) => i === dragging ? { ...scene, start, pinnedWord: undefined } : scene));
+  };
+
+  const handlePointerUp = () => {
+    if (dragging === null) return;
+    setDragging(null);
+    onChange(scenes);
+  };
+
+  // --- Images ---
+
+  const moveScene = (index: number, direction: -1 | 1) => {
+    const other = index + direction;
+    if (other < 0 || other >= scenes.length) return;
+    // Boundaries stay; the images trade places
+    commit(scenes.map((scene, i) => {
+      if (i === index) return { ...scene, imageIndex: scenes[other].imageIndex };
+      if (i === other) return { ...scene, imageIndex: scenes[index].imageIndex };
+      return scene;
+    }));
+    setSelected(other);
+  };
+
+  const handleUpload = (file: File) => {
+    const url = URL.createObjectURL(file);
+    const imageUrls = [...images, url];
+    commit(scenes.map((scene, i) => i === uploadTarget.current ? { ...scene, imageIndex: imageUrls.length - 1 } : scene), imageUrls);
+  };
+
+  if (images.length === 0) return null;
+
+  const current = scenes[Math.min(selected, scenes.length - 1)];
+  const currentIndex = scenes.indexOf(current);
+
+  return (
+    <div className="mb-6 bg-gray-950/50 p-3 rounded-lg border border-gray-800">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400">
+          <Clapperboard size={14} /> Línea de tiempo
+        </span>
+        <button
+          onClick={() => onChange(undefined)}
+          disabled={disabled || !asset.scenes}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-white disabled:opacity-30"
+          title="Volver al reparto uniforme"
+        >
+          <RotateCcw size={12} /> Restablecer
+        </button>
+      </div>
+
+      {/* Scene bar: one segment per scene, handles between them */}
+      <div
+        ref={barRef}
+        className={`relative h-14 rounded overflow-hidden bg-gray-900 select-none ${disabled ? 'opacity-50 pointer-events-none' : ''}`}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      >
+        {scenes.map((scene, index) => {
+          const end = index + 1 < scenes.length ? scenes[index + 1].start : 1;
+          return (
+            <button
+              key={index}
+              onClick={() => setSelected(index)}
+              className={`absolute top-0 bottom-0 bg-cover bg-center border-2 ${index === currentIndex ? 'border-indigo-400' : 'border-transparent'}`}
+              style={{
+                left: `${scene.start * 100}%`,
+                width: `${(end - scene.start) * 100}%`,
+                backgroundImage: `url(${images[scene.imageIndex]})`
+              }}
+            >
+              <span className="absolute top-1 left-1 px-1 rounded bg-black/60 text-[10px] font-bold text-white flex items-center gap-1">
+                {index + 1}
+                {scene.pinnedWord !== undefined && <Pin size={9} />}
+              </span>
+            </button>
+          );
+        })}
+        {scenes.slice(1).map((scene, i) => (
+          <div
+            key={`handle-${i}`}
+            onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setDragging(i + 1); }}
+            className="absolute top-0 bottom-0 w-3 -ml-1.5 cursor-ew-resize flex justify-center z-10"
+            style={{ left: `${scene.start * 100}%` }}
+            title="Arrastra para mover el corte"
+          >
+            <div className="w-1 h-full bg-white/80 rounded" />
+          </div>
+        ))}
+      </div>
+
+      {/* Selected scene */}
+      <div className={`mt-3 flex flex-wrap items-center gap-2 text-xs text-gray-400 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+        <span className="font-bold text-white">Escena {currentIndex + 1}</span>
+        <button onClick={() => moveScene(currentIndex, -1)} disabled={currentIndex === 0} className="p-1 rounded hover:bg-gray-800 disabled:opacity-30" title="Mover antes">
+          <ChevronLeft size={14} />
+        </button>
+        <button onClick={() => moveScene(currentIndex, 1)} disabled={currentIndex === scenes.length - 1} className="p-1 rounded hover:bg-gray-800 disabled:opacity-30" title="Mover después">
+          <ChevronRight size={14} />
+        </button>
+
+        <div className="flex gap-1">
+          {images.map((url, imageIndex) => (
+            <button
+              key={imageIndex}
+              onClick={() => updateScene(currentIndex, { imageIndex })}
+              className={`w-7 h-10 rounded bg-cover bg-center border ${current.imageIndex === imageIndex ? 'border-indigo-400' : 'border-gray-700 opacity-60 hover:opacity-100'}`}
+              style={{ backgroundImage: `url(${url})` }}
+              title={`Imagen ${imageIndex + 1}`}
+            />
+          ))}
+          <button
+            onClick={() => { uploadTarget.current = currentIndex; uploadInput.current?.click(); }}
+            className="w-7 h-10 rounded border border-dashed border-gray-600 flex items-center justify-center hover:text-white"
+            title="Subir imagen para esta escena"
+          >
+            <ImagePlus size={12} />
+          </button>
+          <input
+            ref={uploadInput}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleUpload(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        {currentIndex > 0 && (
+          <>
+            <select
+              value={current.transition}
+              onChange={(e) => updateScene(currentIndex, { transition: e.target.value as SceneTransition })}
+              className={inputClass}
+              title="Transición de entrada"
+            >
+              {TRANSITION_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={current.pinnedWord ?? ""}
+              onChange={(e) => {
+                const word = e.target.value === "" ? undefined : Number(e.target.value);
+                updateScene(currentIndex, word === undefined ? { pinnedWord: undefined } : { pinnedWord: word, start: wordFraction(word) });
+              }}
+              className={`${inputClass} max-w-[220px]`}
+              title="Empezar la escena en este pasaje"
+            >
+              <option value="">Sin anclar a un pasaje</option>
+              {anchors.filter(anchor => anchor.word > 0).map(anchor => (
+                <option key={anchor.word} value={anchor.word}>{anchor.text}…</option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SceneTimeline;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { SessionSummary } from '../services/storageService';
+import { History, FolderOpen, Trash2, CheckCircle } from 'lucide-react';
+
+interface SessionListProps {
+  sessions: SessionSummary[];
+  activeDate: string;
+  onOpen: (date: string) => void;
+  onDelete: (date: string) => void;
+}
+
+// Helper to show YYYY-MM-DD as a readable Spanish date
+const formatSessionDate = (dateStr: string) => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('es-ES', {
+    weekday: 'short', year: 'numeric', month: 'short', day: 'numeric'
+  });
+};
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, activeDate, onOpen, onDelete }) => {
+  return (
+    <div className="mb-8 bg-gray-900 border border-gray-800 rounded-xl p-4 shadow-xl">
+      <div className="flex items-center gap-2 mb-4 text-gray-400">
+        <History size={16} />
+        <h3 className="text-xs font-bold uppercase tracking-widest">Sesiones Guardadas</h3>
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">Aún no hay sesiones guardadas en este navegador.</p>
+      ) : (
+        <ul className="divide-y divide-gray-800">
+          {sessions.map(session => {
+            const isComplete = session.readingCount > 0 && session.videoCount >= session.readingCount;
+            return (
+              <li key={session.date} className="flex items-center justify-between gap-3 py-3">
+                <div>
+                  <p className={`text-sm font-semibold capitalize ${session.date === activeDate ? 'text-indigo-300' : 'text-white'}`}>
+                    {formatSessionDate(session.date)}
+                  </p>
+                  <p className="text-xs text-gray-500 flex items-center gap-1">
+                    {isComplete && <CheckCircle className="w-3 h-3 text-green-500" />}
+                    {session.videoCount}/{session.readingCount} videos · actualizado {new Date(session.updatedAt).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onOpen(session.date)}
+                    className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-xs font-bold text-white transition-colors border border-gray-700"
+                  >
+                    <FolderOpen size={14} /> Abrir
+                  </button>
+                  <button
+                    onClick={() => onDelete(session.date)}
+                    className="flex items-center px-3 py-2 bg-gray-800 hover:bg-red-900/50 rounded-lg text-xs text-gray-400 hover:text-red-300 transition-colors border border-gray-700"
+                    title="Eliminar sesión"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,423 @@
+import React, { useEffect, useState } from 'react';
+import { AppSettings, ImageProviderId, LanguageId, MusicSettings, OutputFormatId, ReadingContent, ReflectionSettings, ReflectionTone, TtsProviderId, VoiceSettings } from '../types';
+import { IMAGE_PROVIDER_OPTIONS, loadArtworkManifest } from '../services/imageProviders';
+import { GEMINI_VOICES, TTS_PROVIDER_OPTIONS } from '../services/ttsProviders';
+import { REFLECTION_TONE_OPTIONS } from '../services/geminiService';
+import { BUILT_IN_TEMPLATES } from '../services/videoTemplate';
+import { OUTPUT_FORMATS } from '../services/outputFormats';
+import { MusicTrack, loadMusicLibrary } from '../services/musicService';
+import { LANGUAGE_OPTIONS, getLanguage } from '../services/languageService';
+import { Settings, Image as ImageIcon, Mic, MessageSquareQuote, LayoutTemplate, Music, Languages } from 'lucide-react';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-700 text-white text-sm rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-xs font-semibold text-gray-400 mb-1";
+
+const READING_TYPE_LABELS: Record<ReadingContent['type'], string> = {
+  '1st_reading': '1ª Lectura',
+  psalm: 'Salmo',
+  '2nd_reading': '2ª Lectura',
+  gospel: 'Evangelio',
+  reflection: 'Reflexión'
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<AppSettings>) => onChange({ ...settings, ...patch });
+  const updateVoice = (type: ReadingContent['type'], patch: Partial<VoiceSettings>) =>
+    update({ tts: { ...settings.tts, [type]: { ...settings.tts[type], ...patch } } });
+  const updateMusic = (type: ReadingContent['type'], patch: Partial<MusicSettings>) =>
+    update({ music: { ...settings.music, [type]: { ...settings.music[type], ...patch } } });
+  const updateReflection = (patch: Partial<ReflectionSettings>) => update({ reflection: { ...settings.reflection, ...patch } });
+  const toggleFormat = (id: OutputFormatId) => {
+    const selected = settings.outputFormats.includes(id)
+      ? settings.outputFormats.filter(f => f !== id)
+      : OUTPUT_FORMATS.map(f => f.id).filter(f => f === id || settings.outputFormats.includes(f));
+    // At least one format must stay selected
+    if (selected.length > 0) update({ outputFormats: selected });
+  };
+  const toggleLanguage = (id: LanguageId) => {
+    const selected = settings.languages.includes(id)
+      ? settings.languages.filter(l => l !== id)
+      : LANGUAGE_OPTIONS.map(l => l.id).filter(l => l === id || settings.languages.includes(l));
+    // At least one language must stay selected
+    if (selected.length > 0) update({ languages: selected });
+  };
+  const updateLanguageVoice = (type: ReadingContent['type'], language: LanguageId, name: string) =>
+    updateVoice(type, { languageVoices: { ...settings.tts[type].languageVoices, [language]: name } });
+  // The first language uses the main voice; the others may override it
+  const extraLanguages = settings.languages.slice(1);
+  const usesLocalTts = Object.values(settings.tts).some(voice => voice.provider === 'local');
+
+  // Tracks of the music folder, reloaded when the folder changes
+  const [musicTracks, setMusicTracks] = useState<MusicTrack[]>([]);
+  const [musicError, setMusicError] = useState<string | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    loadMusicLibrary(settings.musicUrl)
+      .then(tracks => { if (!cancelled) { setMusicTracks(tracks); setMusicError(null); } })
+      .catch(err => { if (!cancelled) { setMusicTracks([]); setMusicError(err.message); } });
+    return () => { cancelled = true; };
+  }, [settings.musicUrl]);
+
+  // Images of the artwork folder, only read while that provider is chosen
+  const [artworkCount, setArtworkCount] = useState<number | null>(null);
+  const [artworkError, setArtworkError] = useState<string | null>(null);
+  useEffect(() => {
+    if (settings.imageProvider !== 'local_folder') return;
+    let cancelled = false;
+    loadArtworkManifest(settings.artworkUrl)
+      .then(manifest => { if (!cancelled) { setArtworkCount(manifest.images.length); setArtworkError(null); } })
+      .catch(err => { if (!cancelled) { setArtworkCount(null); setArtworkError(err.message); } });
+    return () => { cancelled = true; };
+  }, [settings.imageProvider, settings.artworkUrl]);
+
+  return (
+    <div className="mb-8 bg-gray-900 border border-gray-800 rounded-xl p-4 shadow-xl">
+      <div className="flex items-center gap-2 mb-4 text-gray-400">
+        <Settings size={16} />
+        <h3 className="text-xs font-bold uppercase tracking-widest">Ajustes</h3>
+      </div>
+
+      <section className="space-y-3">
+        <h4 className="flex items-center gap-2 text-sm font-bold text-white">
+          <ImageIcon size={14} /> Generador de Imágenes
+        </h4>
+
+        <div>
+          <label className={labelClass}>Proveedor</label>
+          <select
+            value={settings.imageProvider}
+            onChange={(e) => update({ imageProvider: e.target.value as ImageProviderId })}
+            className={inputClass}
+          >
+            {IMAGE_PROVIDER_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {settings.imageProvider === 'stable_diffusion' && (
+          <div>
+            <label className={labelClass}>URL de Stable Diffusion (API compatible con Automatic1111)</label>
+            <input
+              type="text"
+              value={settings.stableDiffusionUrl}
+              onChange={(e) => update({ stableDiffusionUrl: e.target.value })}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">Arranca el servidor con <code>--api --cors-allow-origins</code> para permitir llamadas desde el navegador.</p>
+          </div>
+        )}
+
+        {settings.imageProvider === 'local_folder' && (
+          <div>
+            <label className={labelClass}>Carpeta de arte aprobado</label>
+            <input
+              type="text"
+              value={settings.artworkUrl}
+              onChange={(e) => update({ artworkUrl: e.target.value })}
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">Debe contener un <code>manifest.json</code> con las imágenes y sus etiquetas (por defecto <code>public/artwork</code>).</p>
+            {artworkCount === 0 && (
+              <p className="text-xs text-amber-400 mt-1">
+                La carpeta está vacía: la app no incluye imágenes. Copia obras que tengas derecho a usar en <code>public/artwork</code> y lístalas en su <code>manifest.json</code>.
+              </p>
+            )}
+            {artworkError && <p className="text-xs text-red-400 mt-1">{artworkError}</p>}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-3 mt-6 pt-6 border-t border-gray-800">
+        <h4 className="flex items-center gap-2 text-sm font-bold text-white">
+          <Languages size={14} /> Idiomas
+        </h4>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-1">
+          {LANGUAGE_OPTIONS.map(language => (
+            <label key={language.id} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.languages.includes(language.id)}
+                onChange={() => toggleLanguage(language.id)}
+                className="accent-indigo-500"
+              />
+              {language.label}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          Cada idioma genera su propio juego de videos para la misma fecha: lecturas de su fuente en el backend, narración en ese idioma y textos del video (fecha, llamada a la acción) traducidos.
+        </p>
+      </section>
+
+      <section className="space-y-3 mt-6 pt-6 border-t border-gray-800">
+        <h4 className="flex items-center gap-2 text-sm font-bold text-white">
+          <Mic size={14} /> Narración
+        </h4>
+
+        {(Object.keys(READING_TYPE_LABELS) as ReadingContent['type'][]).map(type => {
+          const voice = settings.tts[type];
+          return (
+            <div key={type} className="grid grid-cols-1 md:grid-cols-[8rem_1fr_1fr] gap-2 items-center">
+              <span className={labelClass}>{READING_TYPE_LABELS[type]}</span>
+              <select
+                value={voice.provider}
+                onChange={(e) => updateVoice(type, { provider: e.target.value as TtsProviderId })}
+                className={inputClass}
+              >
+                {TTS_PROVIDER_OPTIONS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+              {voice.provider === 'gemini' && (
+                <select
+                  value={voice.voice}
+                  onChange={(e) => updateVoice(type, { voice: e.target.value })}
+                  className={inputClass}
+                >
+                  {GEMINI_VOICES.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              )}
+              {voice.provider === 'local' && (
+                <input
+                  type="text"
+                  value={voice.voice}
+                  placeholder="Voz / speaker"
+                  onChange={(e) => updateVoice(type, { voice: e.target.value })}
+                  className={inputClass}
+                />
+              )}
+              {voice.provider === 'recording' && (
+                <p className="text-xs text-gray-500">Usa "Subir voz" en cada lectura.</p>
+              )}
+              {voice.provider !== 'recording' && extraLanguages.map(language => (
+                <React.Fragment key={language}>
+                  <span className="text-xs text-gray-500 md:col-start-2 md:text-right">Voz en {getLanguage(language).label}</span>
+                  {voice.provider === 'gemini' ? (
+                    <select
+                      value={voice.languageVoices?.[language] || ""}
+                      onChange={(e) => updateLanguageVoice(type, language, e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="">Igual ({voice.voice})</option>
+                      {GEMINI_VOICES.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={voice.languageVoices?.[language] || ""}
+                      placeholder={voice.voice || "Modelo / speaker"}
+                      onChange={(e) => updateLanguageVoice(type, language, e.target.value)}
+                      className={inputClass}
+                    />
+                  )}
+                </React.Fragment>
+              ))}
+            </div>
+          );
+        })}
+
+        {usesLocalTts && (
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem] gap-2">
+            <div>
+              <label className={labelClass}>URL del servidor TTS local</label>
+              <input
+                type="text"
+                value={settings.localTtsUrl}
+                onChange={(e) => update({ localTtsUrl: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Motor</label>
+              <select
+                value={settings.localTtsEngine}
+                onChange={(e) => update({ localTtsEngine: e.target.value as AppSettings['localTtsEngine'] })}
+                className={inputClass}
+              >
+                <option value="piper">Piper</option>
+                <option value="coqui">Coqui TTS</option>
+              </select>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-3 mt-6 pt-6 border-t border-gray-800">
+        <h4 className="flex items-center gap-2 text-sm font-bold text-white">
+          <Music size={14} /> Música de fondo
+        </h4>
+
+        {(Object.keys(READING_TYPE_LABELS) as ReadingContent['type'][]).map(type => {
+          const music = settings.music[type];
+          return (
+            <div key={type} className="grid grid-cols-1 md:grid-cols-[8rem_1fr_1fr] gap-2 items-center">
+              <span className={labelClass}>{READING_TYPE_LABELS[type]}</span>
+              <select
+                value={music.trackId}
+                onChange={(e) => updateMusic(type, { trackId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Sin música</option>
+                {musicTracks.map(track => <option key={track.id} value={track.id}>{track.label}</option>)}
+                {music.trackId && !musicTracks.some(t => t.id === music.trackId) && (
+                  <option value={music.trackId}>{music.trackId} (no encontrada)</option>
+                )}
+              </select>
+              <div className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={music.volume}
+                  disabled={!music.trackId}
+                  onChange={(e) => updateMusic(type, { volume: Number(e.target.value) })}
+                  className="flex-1 accent-indigo-500 disabled:opacity-30"
+                />
+                <span className="w-10 text-right text-xs text-gray-400">{Math.round(music.volume * 100)}%</span>
+              </div>
+            </div>
+          );
+        })}
+
+        <div>
+          <label className={labelClass}>Carpeta de música</label>
+          <input
+            type="text"
+            value={settings.musicUrl}
+            onChange={(e) => update({ musicUrl: e.target.value })}
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Pistas instrumentales libres de derechos listadas en un <code>manifest.json</code> (por defecto <code>public/music</code>). Se bajan automáticamente mientras se habla.
+          </p>
+          {musicTracks.length === 0 && !musicError && (
+            <p className="text-xs text-amber-400 mt-1">
+              La carpeta no tiene pistas. Copia pistas cuya licencia permita usarlas en <code>public/music</code> y lístalas en su <code>manifest.json</code> para elegirlas aquí.
+            </p>
+          )}
+          {musicError && <p className="text-xs text-red-400 mt-1">{musicError}</p>}
+        </div>
+      </section>
+
+      <section className="space-y-3 mt-6 pt-6 border-t border-gray-800">
+        <h4 className="flex items-center gap-2 text-sm font-bold text-white">
+          <MessageSquareQuote size={14} /> Reflexión del Evangelio
+        </h4>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Tono</label>
+            <select
+              value={settings.reflection.tone}
+              onChange={(e) => updateReflection({ tone: e.target.value as ReflectionTone })}
+              className={inputClass}
+            >
+              {REFLECTION_TONE_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Duración objetivo: {settings.reflection.targetSeconds} s</label>
+            <input
+              type="range"
+              min={30}
+              max={90}
+              step={5}
+              value={settings.reflection.targetSeconds}
+              onChange={(e) => updateReflection({ targetSeconds: Number(e.target.value) })}
+              className="w-full accent-indigo-500"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Reglas adicionales (una por línea)</label>
+          <textarea
+            value={settings.reflection.guardrails}
+            onChange={(e) => updateReflection({ guardrails: e.target.value })}
+            rows={3}
+            placeholder="Ej.: No mencionar la colecta parroquial"
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-500 mt-1">Se suman a las reglas doctrinales fijas (fidelidad al Magisterio, sin citas inventadas, sin política).</p>
+        </div>
+      </section>
+
+      <section className="space-y-3 mt-6 pt-6 border-t border-gray-800">
+        <h4 className="flex items-center gap-2 text-sm font-bold text-white">
+          <LayoutTemplate size={14} /> Plantilla de Vídeo
+        </h4>
+
+        <div>
+          <label className={labelClass}>Estilo</label>
+          <select
+            value={settings.templateId}
+            onChange={(e) => update({ templateId: e.target.value })}
+            className={inputClass}
+          >
+            {BUILT_IN_TEMPLATES.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+            <option value="custom">Personalizada (JSON)</option>
+          </select>
+        </div>
+
+        {settings.templateId === 'custom' && (
+          <div>
+            <label className={labelClass}>URL de la plantilla</label>
+            <input
+              type="text"
+              value={settings.templateUrl}
+              onChange={(e) => update({ templateUrl: e.target.value })}
+              placeholder="/templates/custom.json"
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">Mismo formato que templates/classic.json. Las capas omitidas no se dibujan; los campos omitidos toman el valor clásico.</p>
+          </div>
+        )}
+
+        <div>
+          <label className={labelClass}>Formatos de salida</label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+            {OUTPUT_FORMATS.map(format => (
+              <label key={format.id} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.outputFormats.includes(format.id)}
+                  onChange={() => toggleFormat(format.id)}
+                  className="accent-indigo-500"
+                />
+                {format.label}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Todos los formatos usan las mismas imágenes y narración. Si mezclas vertical y horizontal, las imágenes se generan cuadradas para poder recortarlas.</p>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.coverIntro}
+              onChange={(e) => update({ coverIntro: e.target.checked })}
+              className="accent-indigo-500"
+            />
+            Portada al inicio del vídeo
+          </label>
+          <p className="text-xs text-gray-500 mt-1">Muestra la portada (primera escena, título, cita y fecha) medio segundo antes de la narración, para que las plataformas la usen como miniatura.</p>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -1,57 +1,115 @@
-import React, { useEffect, useRef, useState, useMemo } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { GeneratedAsset, ReadingContent } from '../types';
-import { Play, Pause, Download, Maximize2 } from 'lucide-react';
+import { Play, Download, Maximize2 } from 'lucide-react';
+import { VISUALIZER_FFT_SIZE, createFrameRenderer, loadImage } from '../services/videoGenService';
+import { OutputFormat, DEFAULT_OUTPUT_FORMAT } from '../services/outputFormats';
+import { getScenes } from '../services/sceneService';
+import { VideoTemplate } from '../services/videoTemplate';
 
 interface VideoPreviewProps {
   reading: ReadingContent;
   asset: GeneratedAsset;
+  template?: VideoTemplate;
+  formats?: OutputFormat[]; // Output formats of the job; the preview can switch between them
 }
 
-const VideoPreview: React.FC<VideoPreviewProps> = ({ reading, asset }) => {
+const PREVIEW_WIDTH = 320;
+
+type RenderFrame = ReturnType<typeof createFrameRenderer>;
+
+/**
+ * Plays the narration over the same frame renderer used for the final video,
+ * so the preview always matches the render (template, layout, colors).
+ */
+const VideoPreview: React.FC<VideoPreviewProps> = ({ reading, asset, template, formats = [DEFAULT_OUTPUT_FORMAT] }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renderFrameRef = useRef<RenderFrame | null>(null);
+  const analyserRef = useRef<{ analyser: AnalyserNode; data: Uint8Array<ArrayBuffer> } | null>(null);
+  const [bgImages, setBgImages] = useState<HTMLImageElement[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [currentWordIndex, setCurrentWordIndex] = useState(0);
+  const [formatId, setFormatId] = useState(formats[0].id);
+  const format = formats.find(f => f.id === formatId) || formats[0];
+
+  const images = asset.imageUrls && asset.imageUrls.length > 0 ? asset.imageUrls : [];
+
+  // Load the scene images once per asset
+  useEffect(() => {
+    let cancelled = false;
+    setBgImages([]);
+    Promise.all(images.map(url => loadImage(url)))
+      .then(loaded => { if (!cancelled) setBgImages(loaded); })
+      .catch(err => console.error("Preview images failed to load", err));
+    return () => { cancelled = true; };
+  }, [images.join("|")]);
+
+  const drawFrame = (deltaTime: number) => {
+    const audio = audioRef.current;
+    const renderFrame = renderFrameRef.current;
+    if (!renderFrame) return;
+
+    let frequencyData = new Uint8Array(VISUALIZER_FFT_SIZE / 2);
+    if (analyserRef.current && audio && !audio.paused) {
+      analyserRef.current.analyser.getByteFrequencyData(analyserRef.current.data);
+      frequencyData = analyserRef.current.data;
+    }
+    renderFrame({
+      currentTime: audio?.currentTime || 0,
+      duration: audio?.duration || 0,
+      frequencyData,
+      deltaTime
+    });
+  };
 
-  // Split text into words for the karaoke effect
-  const words = useMemo(() => {
-    return reading.text.split(/\s+/).filter(w => w.length > 0);
-  }, [reading.text]);
+  // Rebuild the renderer when the reading, images or template change
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || bgImages.length === 0) return;
+    renderFrameRef.current = createFrameRenderer(ctx, reading, asset, bgImages, Math.random, template, format);
+    // Large step so the text snaps into place on a still frame
+    drawFrame(1);
+  }, [reading, asset, bgImages, template, format]);
 
   // Reset state when asset changes
   useEffect(() => {
     setIsPlaying(false);
     setProgress(0);
-    setCurrentWordIndex(0);
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current.currentTime = 0;
     }
-    // Reset scroll
-    if (containerRef.current) {
-      containerRef.current.scrollTo({ top: 0, behavior: 'instant' });
-    }
   }, [asset.audioUrl]);
 
-  // Auto-scroll logic: Keep the active word centered
+  // Animation loop while playing; a still frame otherwise
   useEffect(() => {
-    if (containerRef.current) {
-      // The words are inside the first child (the wrapper div)
-      const wrapper = containerRef.current.firstElementChild;
-      if (wrapper && wrapper.children[currentWordIndex]) {
-        const activeElement = wrapper.children[currentWordIndex] as HTMLElement;
-        
-        // Calculate position to center the element manually for better control
-        // or use scrollIntoView if container is scrollable.
-        activeElement.scrollIntoView({
-          behavior: 'smooth',
-          block: 'center',
-          inline: 'nearest'
-        });
-      }
+    if (!isPlaying) {
+      drawFrame(1);
+      return;
     }
-  }, [currentWordIndex]); // Remove isPlaying dep to update on time seek/progress
+    let frameId = 0;
+    let lastFrameTime = performance.now();
+    const loop = (now: number) => {
+      drawFrame(Math.max(0, now - lastFrameTime) / 1000);
+      lastFrameTime = now;
+      frameId = requestAnimationFrame(loop);
+    };
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying]);
+
+  // An audio element can only be routed once, so the analyser is created on first play
+  const ensureAnalyser = () => {
+    if (analyserRef.current || !audioRef.current) return;
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const audioCtx = new AudioContextClass();
+    const source = audioCtx.createMediaElementSource(audioRef.current);
+    const analyser = audioCtx.createAnalyser();
+    analyser.fftSize = VISUALIZER_FFT_SIZE;
+    source.connect(analyser);
+    analyser.connect(audioCtx.destination);
+    analyserRef.current = { analyser, data: new Uint8Array(analyser.frequencyBinCount) };
+  };
 
   const togglePlay = () => {
     if (!audioRef.current || !asset.audioUrl) return;
@@ -59,45 +117,28 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ reading, asset }) => {
     if (isPlaying) {
       audioRef.current.pause();
     } else {
+      ensureAnalyser();
       audioRef.current.play();
     }
     setIsPlaying(!isPlaying);
   };
 
   const handleTimeUpdate = () => {
-    if (audioRef.current) {
-      const current = audioRef.current.currentTime;
-      const duration = audioRef.current.duration;
-
-      if (duration > 0) {
-        const progressPercent = (current / duration) * 100;
-        setProgress(progressPercent);
-
-        // Estimate current word based on linear time distribution
-        const estimatedIndex = Math.floor((current / duration) * words.length);
-        setCurrentWordIndex(Math.min(estimatedIndex, words.length - 1));
-      }
+    if (audioRef.current && audioRef.current.duration > 0) {
+      setProgress((audioRef.current.currentTime / audioRef.current.duration) * 100);
     }
   };
 
   const handleEnded = () => {
     setIsPlaying(false);
     setProgress(0);
-    setCurrentWordIndex(0);
-    if (containerRef.current) {
-      containerRef.current.scrollTo({ top: 0, behavior: 'smooth' });
-    }
+    if (audioRef.current) audioRef.current.currentTime = 0;
   };
 
-  // --- MULTI-IMAGE LOGIC ---
-  const images = asset.imageUrls && asset.imageUrls.length > 0 ? asset.imageUrls : [];
-  
-  // Calculate which image to show based on progress (0-100)
-  const currentImageIndex = images.length > 0 
-    ? Math.min(Math.floor((progress / 100) * images.length), images.length - 1) 
-    : 0;
-  
-  const currentImage = images[currentImageIndex];
+  // Image of the scene on screen at the current progress (0-100)
+  const scenes = getScenes(asset);
+  const currentScene = [...scenes].reverse().find(scene => scene.start * 100 <= progress) || scenes[0];
+  const currentImage = currentScene ? images[currentScene.imageIndex] : undefined;
 
   if (!currentImage) {
     return (
@@ -113,99 +154,32 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ reading, asset }) => {
 
   return (
     <div className="flex flex-col items-center space-y-4">
-      {/* Phone Container (9:16 Aspect Ratio) */}
-      <div className="relative w-[320px] h-[568px] bg-black rounded-2xl overflow-hidden shadow-2xl border-4 border-gray-900 group select-none transform transition-transform">
-        
-        {/* 1. Dynamic Background (Multi-Image Ken Burns Effect) */}
-        {/* We use a key to force re-render/animation reset on image change if we wanted, 
-            but for smooth transition we just swap src and rely on the scale. 
-            However, to reset the 'scale' animation per image, we can use the key. */}
-        <div key={currentImageIndex} className={`absolute inset-0 transition-transform duration-[20s] ease-linear animate-in fade-in duration-700 ${isPlaying ? 'scale-125' : 'scale-100'}`}>
-          <img 
-            src={currentImage} 
-            alt={`Background Scene ${currentImageIndex + 1}`} 
-            className="w-full h-full object-cover opacity-60"
-          />
+      {/* Format switcher (only when the job renders several sizes) */}
+      {formats.length > 1 && (
+        <div className="flex gap-1 flex-wrap justify-center max-w-[320px]">
+          {formats.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFormatId(f.id)}
+              className={`px-2 py-1 rounded text-[10px] font-bold border transition-colors ${f.id === format.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+            >
+              {f.width}x{f.height}
+            </button>
+          ))}
         </div>
-        
-        {/* 2. Dark Gradient Overlay for Readability */}
-        <div className="absolute inset-0 bg-gradient-to-b from-black/40 via-black/20 to-black/90" />
+      )}
 
-        {/* 3. Top Meta Info (Sticky) */}
-        <div className="absolute top-6 left-0 right-0 px-4 z-20 text-center">
-          <span className="inline-block px-3 py-1 bg-black/50 backdrop-blur-md rounded-full text-[10px] font-bold text-white uppercase tracking-widest border border-white/10 mb-2">
-            {reading.date || "Evangelio del Día"}
-          </span>
-          <h3 className="text-white font-black text-xl leading-tight uppercase drop-shadow-lg px-2 line-clamp-2">
-            {reading.title}
-          </h3>
-        </div>
+      {/* Frame Container (output aspect ratio) */}
+      <div
+        className="relative bg-black rounded-2xl overflow-hidden shadow-2xl border-4 border-gray-900 group select-none"
+        style={{ width: PREVIEW_WIDTH, height: Math.round(PREVIEW_WIDTH * format.height / format.width) }}
+      >
 
-        {/* 4. Karaoke / Teleprompter Text Area */}
-        <div 
-          ref={containerRef}
-          className="absolute inset-0 top-24 bottom-56 px-5 overflow-y-auto flex flex-col items-center py-[50%] no-scrollbar scroll-smooth"
-        >
-           <div className="text-center space-x-1">
-             {words.map((word, index) => {
-               const isActive = index === currentWordIndex;
-               const isPast = index < currentWordIndex;
-               
-               return (
-                 <span 
-                   key={index}
-                   className={`inline-block transition-all duration-200 text-2xl font-black mb-2 leading-snug break-words
-                     ${isActive 
-                        ? 'text-yellow-400 drop-shadow-[0_2px_4px_rgba(0,0,0,0.8)]' 
-                        : isPast 
-                          ? 'text-white/40' 
-                          : 'text-white shadow-black drop-shadow-md'
-                     }
-                   `}
-                   style={{
-                     textShadow: isActive ? 'none' : '2px 2px 0 #000'
-                   }}
-                 >
-                   {word}{' '}
-                 </span>
-               );
-             })}
-           </div>
-        </div>
-        
-        {/* 5. Footer Info (Moved Up) */}
-        <div className="absolute bottom-40 left-0 right-0 px-6 text-center z-20 pointer-events-none">
-           <p className="text-white font-bold text-[10px] bg-indigo-600/80 inline-block px-3 py-1 rounded-md shadow-lg backdrop-blur-sm">
-             {reading.reference}
-           </p>
-        </div>
-
-        {/* 6. CALL TO ACTION (Viral Style) */}
-        <div className="absolute bottom-12 left-0 right-0 px-4 text-center z-20 pointer-events-none flex flex-col items-center">
-            {/* Main Hook */}
-            <h2 className="text-[#fbbf24] font-black text-xl leading-none tracking-tight drop-shadow-xl" 
-                style={{ 
-                  WebkitTextStroke: '0.5px black',
-                  textShadow: '2px 2px 0px rgba(0,0,0,0.8)' 
-                }}>
-              ESCRIBE 'AMÉN'
-            </h2>
-            {/* Subtitle */}
-            <p className="text-white font-bold text-[9px] mt-1 drop-shadow-md tracking-wide opacity-90">
-              Y COMPARTE LA PALABRA DEL SEÑOR
-            </p>
-        </div>
-
-        {/* 7. Progress Bar */}
-        <div className="absolute bottom-0 left-0 h-1.5 bg-gray-800 w-full z-30">
-          <div 
-            className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-100 ease-linear shadow-[0_0_10px_rgba(167,139,250,0.5)]"
-            style={{ width: `${progress}%` }}
-          />
-        </div>
+        {/* Same canvas drawing as the final video, scaled down */}
+        <canvas ref={canvasRef} width={format.width} height={format.height} className="absolute inset-0 w-full h-full" />
 
         {/* Play/Pause Interaction Layer */}
-        <button 
+        <button
           onClick={togglePlay}
           className="absolute inset-0 z-40 flex items-center justify-center bg-transparent outline-none cursor-pointer"
         >
@@ -218,7 +192,7 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ reading, asset }) => {
 
         {/* Hidden Audio Element */}
         {asset.audioUrl && (
-          <audio 
+          <audio
             ref={audioRef}
             src={asset.audioUrl}
             onTimeUpdate={handleTimeUpdate}
@@ -232,18 +206,18 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ reading, asset }) => {
       {/* Action Buttons */}
       <div className="flex gap-3 w-full max-w-[320px]">
         {currentImage && (
-             <a 
-             href={currentImage} 
+             <a
+             href={currentImage}
              download={`image-${reading.id}.png`}
              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg text-xs font-bold text-white transition-colors border border-gray-700"
            >
              <Download size={16} /> Img Actual
            </a>
         )}
-       
+
         {asset.audioUrl && (
-           <a 
-           href={asset.audioUrl} 
+           <a
+           href={asset.audioUrl}
            download={`audio-${reading.id}.wav`}
            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg text-xs font-bold text-white transition-colors border border-gray-700"
          >
@@ -255,4 +229,4 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ reading, asset }) => {
   );
 };
 
-export default VideoPreview;
\ No newline at end of file
+export default VideoPreview;
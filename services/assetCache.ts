@@ -0,0 +1,95 @@
+import { ImageDetail, ReadingContent, WordTiming } from "../types";
+import { readCache, writeCache, toStorable, toUrl } from "./storageService";
+import { PROMPT_MODEL } from "./geminiService";
+
+interface CachedAudio {
+  audio: Blob | string;
+  wordTimings?: WordTiming[];
+}
+
+interface CachedImages {
+  images: (Blob | string)[];
+  details?: ImageDetail[]; // Absent on entries cached before prompts were kept
+}
+
+/**
+ * SHA-256 of the inputs that determine the output. Same text + same
+ * settings on another day (e.g. a repeated feast reading) hits the cache.
+ */
+const hashKey = async (parts: string[]): Promise<string> => {
+  const bytes = new TextEncoder().encode(parts.join("\u0000"));
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+};
+
+// voiceKey identifies the TTS provider, its configuration and the voice
+const audioKey = (text: string, voiceKey: string) => hashKey(["audio", voiceKey, text]);
+
+// providerKey identifies the image provider and its configuration (ImageProvider.cacheKey)
+// The season and feast steer the prompts, so they are part of the key
+const imagesKey = (reading: ReadingContent, providerKey: string) => hashKey([
+  "images", PROMPT_MODEL, providerKey, reading.title, reading.text, reading.liturgy?.season ?? "", reading.liturgy?.feast ?? ""
+]);
+
+/**
+ * Downloads remote images so cache hits do not call the image service again
+ */
+const fetchImage = async (url: string): Promise<Blob | string> => {
+  if (url.startsWith("blob:")) return toStorable(url);
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return url;
+    return await response.blob();
+  } catch {
+    return url;
+  }
+};
+
+// --- AUDIO ---
+
+export const getCachedAudio = async (text: string, voiceKey: string): Promise<{ audioUrl: string; wordTimings?: WordTiming[] } | null> => {
+  try {
+    const entry = await readCache<CachedAudio>(await audioKey(text, voiceKey));
+    return entry ? { audioUrl: toUrl(entry.audio), wordTimings: entry.wordTimings } : null;
+  } catch (err) {
+    console.warn("Asset cache unavailable:", err);
+    return null;
+  }
+};
+
+export const cacheAudio = async (text: string, voiceKey: string, audioUrl: string, wordTimings?: WordTiming[]): Promise<void> => {
+  try {
+    await writeCache<CachedAudio>(await audioKey(text, voiceKey), { audio: await toStorable(audioUrl), wordTimings });
+  } catch (err) {
+    console.warn("Could not cache audio:", err);
+  }
+};
+
+// --- IMAGES ---
+
+export const getCachedImages = async (
+  reading: ReadingContent,
+  providerKey: string
+): Promise<{ imageUrls: string[]; imageDetails?: ImageDetail[] } | null> => {
+  try {
+    const entry = await readCache<CachedImages>(await imagesKey(reading, providerKey));
+    return entry ? { imageUrls: entry.images.map(toUrl), imageDetails: entry.details } : null;
+  } catch (err) {
+    console.warn("Asset cache unavailable:", err);
+    return null;
+  }
+};
+
+export const cacheImages = async (
+  reading: ReadingContent,
+  providerKey: string,
+  imageUrls: string[],
+  imageDetails?: ImageDetail[]
+): Promise<void> => {
+  try {
+    const images = await Promise.all(imageUrls.map(fetchImage));
+    await writeCache<CachedImages>(await imagesKey(reading, providerKey), { images, details: imageDetails });
+  } catch (err) {
+    console.warn("Could not cache images:", err);
+  }
+};
@@ -0,0 +1,77 @@
+/**
+ * Multi-day production: the dates of a range and the status of each day,
+ * shared by the app's batch panel and the CLI (--from / --to).
+ */
+import { SessionSummary } from "./storageService";
+
+export type DayStatus = 'pending' | 'running' | 'done' | 'partial' | 'failed';
+
+// A batch in progress (or just finished) in the app
+export interface BatchRun {
+  dates: string[];
+  index: number; // Day being produced; dates.length once finished
+  running: boolean;
+  statuses: Record<string, DayStatus>; // Days this run has reached
+}
+
+// A month ahead at most: each day is several minutes of generation
+export const MAX_BATCH_DAYS = 31;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date math in UTC so a DST change never skips or repeats a day
+const toUtc = (isoDate: string) => new Date(`${isoDate}T00:00:00Z`);
+
+export const addDays = (isoDate: string, days: number): string => {
+  const date = toUtc(isoDate);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+};
+
+/**
+ * Every date from `from` to `to`, both included
+ */
+export const listDates = (from: string, to: string): string[] => {
+  // Round trip so "2026-02-30" is rejected instead of rolling over
+  const invalid = [from, to].find(date => !ISO_DATE.test(date) || isNaN(toUtc(date).getTime()) || addDays(date, 0) !== date);
+  if (invalid !== undefined) throw new Error(`Fecha inválida: "${invalid}" (usa YYYY-MM-DD)`);
+  if (to < from) throw new Error(`El lote termina (${to}) antes de empezar (${from})`);
+
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    dates.push(date);
+    if (dates.length > MAX_BATCH_DAYS) throw new Error(`Un lote admite como máximo ${MAX_BATCH_DAYS} días`);
+  }
+  return dates;
+};
+
+/**
+ * A day is done when every reading has its video, partial when only some
+ * do, and failed when none do (or there were no readings at all)
+ */
+export const getDayStatus = (readingCount: number, videoCount: number): DayStatus => {
+  if (readingCount > 0 && videoCount >= readingCount) return 'done';
+  return videoCount > 0 ? 'partial' : 'failed';
+};
+
+/**
+ * Status of a day saved earlier: pending until it has a video
+ */
+export const getSavedDayStatus = (session?: Pick<SessionSummary, 'readingCount' | 'videoCount'>): DayStatus => {
+  if (!session || session.videoCount === 0) return 'pending';
+  return getDayStatus(session.readingCount, session.videoCount);
+};
+
+/**
+ * Monday-first weeks covering the dates, with null for the padding days
+ */
+export const getCalendarWeeks = (dates: string[]): (string | null)[][] => {
+  if (dates.length === 0) return [];
+  const padding = (toUtc(dates[0]).getUTCDay() + 6) % 7;
+  const cells: (string | null)[] = [...Array(padding).fill(null), ...dates];
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: (string | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+  return weeks;
+};
@@ -0,0 +1,213 @@
+import { GeneratedAsset, LanguageId, PlatformId, PostMetadata, ReadingContent } from "../types";
+import { DEFAULT_OUTPUT_FORMAT } from "./outputFormats";
+import { VideoTemplate } from "./videoTemplate";
+import { renderCoverImage } from "./videoGenService";
+import { DEFAULT_LANGUAGE, LanguageOption, getReadingLanguage } from "./languageService";
+import { ZipEntry, createZip } from "./zipService";
+
+/**
+ * Export package: one ZIP per day with the videos, thumbnails, subtitles and
+ * a metadata.json holding the post text for each platform.
+ */
+
+export interface PlatformOption {
+  id: PlatformId;
+  label: string;
+  titleMax: number;
+  descriptionMax: number;
+  maxHashtags: number;
+  pinnedCommentMax: number;
+  style: string; // Hint for the Gemini prompt, in Spanish
+}
+
+// Limits kept under what each platform accepts
+export const PLATFORM_OPTIONS: PlatformOption[] = [
+  { id: 'tiktok', label: "TikTok", titleMax: 90, descriptionMax: 2000, maxHashtags: 5, pinnedCommentMax: 150, style: "tono cercano, la primera línea engancha" },
+  { id: 'reels', label: "Instagram Reels", titleMax: 90, descriptionMax: 2000, maxHashtags: 8, pinnedCommentMax: 300, style: "descripción breve con saltos de línea" },
+  { id: 'shorts', label: "YouTube Shorts", titleMax: 100, descriptionMax: 4500, maxHashtags: 3, pinnedCommentMax: 500, style: "título con lo que la gente busca, como 'Evangelio de hoy' y la cita" },
+  { id: 'facebook', label: "Facebook", titleMax: 250, descriptionMax: 4500, maxHashtags: 3, pinnedCommentMax: 500, style: "descripción más reflexiva, de dos o tres párrafos" }
+];
+
+// Spanish, like the rest of the channel's file names
+const READING_TYPE_SLUGS: Record<ReadingContent['type'], string> = {
+  '1st_reading': "primera-lectura",
+  psalm: "salmo",
+  '2nd_reading': "segunda-lectura",
+  gospel: "evangelio",
+  reflection: "reflexion"
+};
+
+// Reading IDs start with the ISO date (see buildReadingId)
+export const getReadingDate = (reading: ReadingContent): string => reading.id.slice(0, 10);
+
+/**
+ * "2026-10-20_evangelio_Lc-12-13-21"; other languages add their code
+ * ("2026-10-20_en_evangelio_Lk-12-13-21")
+ */
+export const getExportBaseName = (reading: ReadingContent): string => {
+  const reference = reading.reference
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  const language = getReadingLanguage(reading).id;
+  return [getReadingDate(reading), language === DEFAULT_LANGUAGE ? "" : language, READING_TYPE_SLUGS[reading.type], reference]
+    .filter(Boolean)
+    .join("_");
+};
+
+// The format goes in the name only when a day has several
+export const getVideoFileName = (reading: ReadingContent, formatId?: string): string =>
+  `${getExportBaseName(reading)}${formatId ? `_${formatId}` : ""}.mp4`;
+
+export const getPackageFileName = (date: string): string => `${date}_paquete.zip`;
+
+// --- POST TEXT ---
+
+const clampText = (text: string, max: number): string => {
+  const clean = text.trim();
+  if (clean.length <= max) return clean;
+  const cut = clean.slice(0, max - 1);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > max * 0.6 ? cut.slice(0, space) : cut).trimEnd()}…`;
+};
+
+// "#Evangelio de hoy" -> "#EvangeliodeHoy"; accents are kept, punctuation goes
+const toHashtag = (tag: string): string => {
+  const body = tag.replace(/^#+/, "").replace(/[^\p{L}\p{N}]+/gu, "");
+  return body ? `#${body}` : "";
+};
+
+/**
+ * Cleans what Gemini returned for one platform: the language's own hashtags
+ * come first, lengths fit the platform, and anything missing comes from
+ * `fallback`
+ */
+export const normalizeMetadata = (raw: any, platform: PlatformOption, fallback: PostMetadata, language: LanguageOption): PostMetadata => {
+  const text = (value: unknown, backup: string) => typeof value === "string" && value.trim() ? value : backup;
+  const suggested: string[] = Array.isArray(raw?.hashtags)
+    ? raw.hashtags.filter((tag: unknown) => typeof tag === "string")
+    : typeof raw?.hashtags === "string" ? raw.hashtags.split(/[\s,]+/) : fallback.hashtags;
+
+  const seen = new Set<string>();
+  const hashtags = [...language.hashtags, ...suggested].map(toHashtag).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    title: clampText(text(raw?.title, fallback.title), platform.titleMax),
+    description: clampText(text(raw?.description, fallback.description), platform.descriptionMax),
+    hashtags: hashtags.slice(0, platform.maxHashtags),
+    pinnedComment: clampText(text(raw?.pinnedComment, fallback.pinnedComment), platform.pinnedCommentMax)
+  };
+};
+
+/**
+ * Post text built from the reading alone, for when Gemini is unavailable
+ * (and for --stub runs)
+ */
+export const buildFallbackMetadata = (reading: ReadingContent): Record<PlatformId, PostMetadata> => {
+  const language = getReadingLanguage(reading);
+  const feast = reading.liturgy?.feast ? ` · ${reading.liturgy.feast}` : "";
+  const opening = reading.text.split(/(?<=[.!?])\s+/).slice(0, 2).join(" ");
+  const base: PostMetadata = {
+    title: `${reading.title} (${reading.reference})${feast}`,
+    description: `${opening}\n\n${reading.reference} · ${reading.date}`,
+    hashtags: language.hashtags,
+    pinnedComment: language.pinnedComment
+  };
+  return Object.fromEntries(
+    PLATFORM_OPTIONS.map(platform => [platform.id, normalizeMetadata(null, platform, base, language)])
+  ) as Record<PlatformId, PostMetadata>;
+};
+
+// --- PACKAGE ---
+
+export interface PackageEntry {
+  readingId: string;
+  type: ReadingContent['type'];
+  language: LanguageId;
+  title: string;
+  reference: string;
+  feast?: string;
+  files: {
+    videos: Record<string, string>; // Output format id -> file name
+    subtitles?: { srt: string; vtt: string };
+    thumbnail?: string;
+  };
+  platforms: GeneratedAsset['metadata'];
+}
+
+// metadata.json
+export interface PackageManifest {
+  date: string;
+  createdAt: string;
+  videos: PackageEntry[];
+}
+
+export const createPackageEntry = (reading: ReadingContent, files: PackageEntry['files'], platforms: GeneratedAsset['metadata']): PackageEntry => ({
+  readingId: reading.id,
+  type: reading.type,
+  language: getReadingLanguage(reading).id,
+  title: reading.title,
+  reference: reading.reference,
+  feast: reading.liturgy?.feast,
+  files,
+  platforms
+});
+
+const fetchBytes = async (url: string) => new Uint8Array(await (await fetch(url)).arrayBuffer());
+
+/**
+ * Bundles every rendered video of the day (browser: reads the blob: URLs).
+ * Covers are drawn with `template` in the vertical format.
+ */
+export const buildDayPackage = async (
+  date: string,
+  readings: ReadingContent[],
+  assets: Record<string, GeneratedAsset>,
+  template?: VideoTemplate
+): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const files: ZipEntry[] = [];
+  const entries: PackageEntry[] = [];
+
+  for (const reading of readings) {
+    const asset = assets[reading.id];
+    if (!asset?.videoUrl) continue;
+    const base = getExportBaseName(reading);
+
+    // Sessions saved before output formats existed only have videoUrl
+    const rendered = Object.entries(asset.videos || { [DEFAULT_OUTPUT_FORMAT.id]: asset.videoUrl })
+      .filter((entry): entry is [string, string] => !!entry[1]);
+    const videos: Record<string, string> = {};
+    for (const [formatId, url] of rendered) {
+      videos[formatId] = getVideoFileName(reading, rendered.length > 1 ? formatId : undefined);
+      files.push({ name: videos[formatId], data: await fetchBytes(url) });
+    }
+
+    let subtitles: PackageEntry['files']['subtitles'];
+    if (asset.subtitles) {
+      subtitles = { srt: `${base}.srt`, vtt: `${base}.vtt` };
+      files.push({ name: subtitles.srt, data: encoder.encode(asset.subtitles.srt) });
+      files.push({ name: subtitles.vtt, data: encoder.encode(asset.subtitles.vtt) });
+    }
+
+    let thumbnail: string | undefined;
+    if (asset.imageUrls?.length) {
+      const cover = await renderCoverImage(reading, asset, template);
+      thumbnail = `${base}.jpg`;
+      files.push({ name: thumbnail, data: new Uint8Array(await cover.arrayBuffer()) });
+    }
+
+    entries.push(createPackageEntry(reading, { videos, subtitles, thumbnail }, asset.metadata));
+  }
+
+  if (entries.length === 0) throw new Error("No hay videos renderizados para exportar.");
+  const manifest: PackageManifest = { date, createdAt: new Date().toISOString(), videos: entries };
+  files.push({ name: "metadata.json", data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  return new Blob(createZip(files), { type: "application/zip" });
+};
@@ -1,95 +1,89 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { ReadingContent } from "../types";
+import { GoogleGenAI } from "@google/genai";
+import { ImageDetail, LanguageId, PlatformId, PostMetadata, ReadingContent, ReflectionSettings, ReflectionTone } from "../types";
+import { ImageProvider, seedFromPrompt } from "./imageProviders";
+import { TtsProvider, synthesizeChunked } from "./ttsProviders";
+import { SEASON_LABELS, SEASON_PROMPT_HINTS, resolveLiturgicalMetadata } from "./liturgyService";
+import { getNarrationText } from "./psalmService";
+import { DEFAULT_OUTPUT_FORMAT, ImageSize, getImageRequestSize } from "./outputFormats";
+import { DEFAULT_LANGUAGE, getLanguage, getReadingLanguage } from "./languageService";
+import { PLATFORM_OPTIONS, buildFallbackMetadata, normalizeMetadata } from "./exportService";
+import { ApiReading, fetchApiReadings } from "./readingsApi";
 
 // Initialize Gemini Client
 const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-// Helper to format date naturally
-const formatDateNatural = (dateStr?: string): string => {
-  if (!dateStr) return "hoy";
+// Prompt model (also part of the image cache key)
+export const PROMPT_MODEL = "gemini-2.5-flash";
+
+// Helper to format date naturally, in the language of the readings
+export const formatDateNatural = (dateStr?: string, language: LanguageId = DEFAULT_LANGUAGE): string => {
+  const { locale, today } = getLanguage(language);
+  if (!dateStr) return today;
   const [year, month, day] = dateStr.split('-').map(Number);
   const date = new Date(year, month - 1, day);
-  return date.toLocaleDateString("es-ES", {
+  return date.toLocaleDateString(locale, {
     weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'
   });
 };
 
-const base64ToUint8Array = (base64: string) => {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
+/**
+ * Stable ID from date + type + reference, e.g. "2026-10-20-gospel-lc-12-13-21".
+ * Fetching the same day twice yields the same IDs, so assets are kept.
+ * Other languages add their code ("2026-10-20-en-gospel-lk-12-13-21");
+ * Spanish IDs stay as they were before languages existed.
+ */
+export const buildReadingId = (date: string, type: string, reference: string = "", language: LanguageId = DEFAULT_LANGUAGE): string => {
+  const slug = reference
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return [date, language === DEFAULT_LANGUAGE ? "" : language, type, slug].filter(Boolean).join("-");
 };
 
-const writeString = (view: DataView, offset: number, string: string) => {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i));
-  }
-};
+// --- SERVICES ---
 
-const createWavHeader = (dataLength: number, sampleRate: number = 24000, numChannels: number = 1) => {
-  const buffer = new ArrayBuffer(44);
-  const view = new DataView(buffer);
-  writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + dataLength, true);
-  writeString(view, 8, 'WAVE');
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numChannels * 2, true);
-  view.setUint16(32, numChannels * 2, true);
-  view.setUint16(34, 16, true);
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataLength, true);
-  return buffer;
+/**
+ * Backend readings as the app's reading list for `date`
+ */
+export const toReadingContents = (items: ApiReading[], date: string, language: LanguageId): ReadingContent[] => {
+  const naturalDate = formatDateNatural(date, language);
+  return items.map(item => ({
+    id: buildReadingId(date, item.type, item.reference, language),
+    type: item.type,
+    title: item.title,
+    reference: item.reference,
+    text: item.text,
+    date: naturalDate,
+    language,
+    ...resolveLiturgicalMetadata(item, date, language)
+  }));
 };
 
-// --- SERVICES ---
-
 /**
  * Step 1: SCRAPING EXTRACTION STRATEGY
  * Use relative path "/api/readings".
  * - Dev: Handled by Vite Proxy -> localhost:5000
  * - Prod: Handled by Flask -> localhost:5000 (Internal)
+ * - CLI: pass apiBase (e.g. "http://localhost:5000"), Node has no origin
+ * `lang` picks the backend source for the language. The response is checked
+ * against the shared schema (services/readingsApi.ts); a ReadingsApiError
+ * says whether the connection, the HTTP status, the schema or the day failed.
  */
-export const fetchDailyReadings = async (dateStr?: string): Promise<ReadingContent[]> => {
+export const fetchDailyReadings = async (
+  dateStr?: string,
+  apiBase: string = "",
+  language: LanguageId = DEFAULT_LANGUAGE
+): Promise<ReadingContent[]> => {
   const targetDate = dateStr || new Date().toISOString().split('T')[0];
-  const naturalDate = formatDateNatural(targetDate);
-
-  // RUTA RELATIVA (Clave para despliegue)
-  const API_URL = "/api/readings";
-
-  console.log(`Fetching readings from Backend Scraper for: ${targetDate}`);
+  console.log(`Fetching readings from Backend Scraper for: ${targetDate} (${language})`);
 
   try {
-    const response = await fetch(`${API_URL}?date=${targetDate}`);
-
-    if (!response.ok) {
-      throw new Error(`Error del servidor Python: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-
-    if (!Array.isArray(data) || data.length === 0) {
-      throw new Error("El servidor devolvió un formato incorrecto o lista vacía.");
-    }
-
-    return data.map((item: any, index: number) => ({
-      id: `${item.type}-${index}-${Date.now()}`,
-      type: item.type,
-      title: item.title,
-      reference: item.reference,
-      text: item.text,
-      date: naturalDate
-    }));
-
+    return toReadingContents(await fetchApiReadings(apiBase, targetDate, language), targetDate, language);
   } catch (error: any) {
-    console.error("Scraping Service Error:", error);
-    throw new Error(`No se pudo conectar al Backend (${API_URL}). Asegúrate de que el servidor Python esté corriendo.`);
+    console.error("Scraping Service Error:", error.details?.length ? error.details : error);
+    throw error;
   }
 };
 
@@ -120,8 +114,147 @@ const retryOperation = async <T>(operation: () => Promise<T>, retries = 5, delay
   throw new Error("Max retries exceeded for operation");
 };
 
-export const generateReadingImage = async (reading: ReadingContent): Promise<string[]> => {
+// --- REFLECTION (5th video) ---
+
+// Average Spanish narration pace, used to turn seconds into a word budget
+const REFLECTION_WORDS_PER_SECOND = 2.5;
+
+export const REFLECTION_TONE_OPTIONS: { id: ReflectionTone; label: string; instruction: string }[] = [
+  { id: 'pastoral', label: 'Pastoral', instruction: "cercano y cálido, como un párroco hablando a su comunidad" },
+  { id: 'contemplative', label: 'Contemplativo', instruction: "sereno y orante, con pausas e invitación al silencio interior" },
+  { id: 'youth', label: 'Juvenil', instruction: "directo y actual, con ejemplos de la vida de un joven, sin jerga forzada" },
+  { id: 'catechetical', label: 'Catequético', instruction: "claro y didáctico, explicando una enseñanza de la fe" }
+];
+
+// Always applied; settings.reflection.guardrails adds to these
+const DOCTRINAL_GUARDRAILS = [
+  "Fidelidad plena a la Sagrada Escritura, la Tradición y el Magisterio de la Iglesia Católica (Catecismo de la Iglesia Católica).",
+  "No inventes citas, datos históricos ni frases de santos o papas; cita solo el texto de las lecturas dadas.",
+  "No des opiniones políticas partidistas ni menciones personas públicas vivas.",
+  "No presentes interpretaciones personales como doctrina; evita afirmaciones sobre revelaciones privadas.",
+  "Respeta a otras confesiones y religiones; nada de polémica."
+];
+
+/**
+ * Writes a short spoken reflection on the day's Gospel (tone, length and
+ * guardrails from the settings), in the language of that Gospel. Returned
+ * as a "reflection" reading so it goes through the same image / TTS /
+ * render pipeline.
+ */
+export const generateReflection = async (readings: ReadingContent[], isoDate: string, options: ReflectionSettings): Promise<ReadingContent> => {
+  const gospel = readings.find(r => r.type === 'gospel');
+  if (!gospel) throw new Error("No hay Evangelio para escribir la reflexión.");
+
   const ai = getClient();
+  const language = getReadingLanguage(gospel);
+  const tone = REFLECTION_TONE_OPTIONS.find(t => t.id === options.tone) || REFLECTION_TONE_OPTIONS[0];
+  const targetWords = Math.round(options.targetSeconds * REFLECTION_WORDS_PER_SECOND);
+  const guardrails = [...DOCTRINAL_GUARDRAILS, ...options.guardrails.split("\n").map(g => g.trim()).filter(Boolean)];
+
+  const readingsContext = readings
+    .filter(r => r.type !== 'reflection')
+    .map(r => `${r.title} (${r.reference}):\n${r.text.substring(0, 1500)}`)
+    .join("\n\n");
+
+  const reflectionPrompt = `
+    Eres un sacerdote católico que escribe el guion de una breve reflexión en video vertical (Shorts/Reels).
+    Lecturas de la misa del ${gospel.date}${gospel.liturgy?.feast ? ` (${gospel.liturgy.feast})` : ""}:
+
+    ${readingsContext}
+
+    Escribe una reflexión centrada en el Evangelio.
+    Tono: ${tone.instruction}.
+    Extensión: entre ${Math.round(targetWords * 0.9)} y ${Math.round(targetWords * 1.1)} palabras (unos ${options.targetSeconds} segundos leída en voz alta).
+    Estructura: una frase inicial que enganche, una idea central del Evangelio, una aplicación concreta para hoy y una breve invitación final a la oración.
+
+    Reglas doctrinales:
+    ${guardrails.map(g => `- ${g}`).join("\n    ")}
+
+    Devuelve SOLO el texto que se leerá en voz alta, en ${language.promptName}. Sin título, sin markdown, sin emojis, sin indicaciones escénicas.
+  `;
+
+  const response = await retryOperation(async () => {
+    return await ai.models.generateContent({
+      model: PROMPT_MODEL,
+      contents: { parts: [{ text: reflectionPrompt }] }
+    });
+  });
+
+  const script = (response.candidates?.[0]?.content?.parts?.[0]?.text || "")
+    .replace(/[*_#>`]/g, "")
+    .replace(/^["“]|["”]$/g, "")
+    .replace(/[ \t]+/g, " ")
+    .trim();
+  if (!script) throw new Error("Gemini no devolvió ningún guion de reflexión.");
+
+  return {
+    id: buildReadingId(isoDate, 'reflection', "", language.id),
+    type: 'reflection',
+    title: language.reflectionTitle,
+    reference: gospel.reference,
+    text: script,
+    date: gospel.date,
+    liturgy: gospel.liturgy,
+    citation: gospel.citation,
+    language: language.id
+  };
+};
+
+/**
+ * "COMMUNITY MANAGER" (Gemini): title, description, hashtags and pinned
+ * comment for each platform, in the reading's language. Never fails: falls
+ * back to text built from the reading.
+ */
+export const generatePostMetadata = async (reading: ReadingContent): Promise<Record<PlatformId, PostMetadata>> => {
+  const language = getReadingLanguage(reading);
+  const fallback = buildFallbackMetadata(reading);
+
+  const metadataPrompt = `
+    Eres el community manager de un canal católico que publica cada día las lecturas de la misa en video vertical.
+    Video: ${reading.title} (${reading.reference}), ${reading.date}${reading.liturgy?.feast ? `, ${reading.liturgy.feast}` : ""}.
+    Texto: "${reading.text.substring(0, 1500)}"
+
+    Escribe el texto de la publicación para cada plataforma:
+    ${PLATFORM_OPTIONS.map(p => `- "${p.id}" (${p.label}): título de hasta ${p.titleMax} caracteres, descripción de hasta ${Math.min(p.descriptionMax, 600)} caracteres, ${p.maxHashtags} hashtags, comentario fijado de hasta ${p.pinnedCommentMax} caracteres; ${p.style}.`).join("\n    ")}
+
+    Reglas: fiel al texto, sin inventar citas ni milagros; sin clickbait; la descripción menciona la cita (${reading.reference}); el comentario fijado invita a responder "Amén" o a rezar.
+    Todo en ${language.promptName}.
+
+    Devuelve SOLO un objeto JSON con las claves ${PLATFORM_OPTIONS.map(p => `"${p.id}"`).join(", ")}; cada una con "title", "description", "hashtags" (lista) y "pinnedComment".
+  `;
+
+  try {
+    const response = await retryOperation(async () => {
+      return await getClient().models.generateContent({
+        model: PROMPT_MODEL,
+        contents: { parts: [{ text: metadataPrompt }] },
+        config: { responseMimeType: "application/json" }
+      });
+    });
+
+    const rawText = (response.candidates?.[0]?.content?.parts?.[0]?.text || "").replace(/^```(json)?|```$/g, "").trim();
+    const parsed = JSON.parse(rawText);
+    return Object.fromEntries(
+      PLATFORM_OPTIONS.map(platform => [platform.id, normalizeMetadata(parsed?.[platform.id], platform, fallback[platform.id], language)])
+    ) as Record<PlatformId, PostMetadata>;
+  } catch (error) {
+    console.error("Error generating post metadata:", error);
+    return fallback;
+  }
+};
+
+/**
+ * "ART DIRECTOR" (Gemini): one prompt per scene. Never fails: falls back
+ * to generic prompts so the image step can still run.
+ */
+export const generateImagePrompts = async (reading: ReadingContent): Promise<string[]> => {
+  const ai = getClient();
+
+  // Season / feast steer palette and mood (purple Advent, white Easter...)
+  const liturgy = reading.liturgy;
+  const liturgyContext = liturgy
+    ? `Liturgical context: ${SEASON_LABELS[liturgy.season]}${liturgy.feast ? `, ${liturgy.feast}` : ""} (liturgical color: ${liturgy.color}). Mood: ${SEASON_PROMPT_HINTS[liturgy.season]}.`
+    : "";
 
   // 1. "ART DIRECTOR" (Gemini): Generate specific prompts
   const promptGenerationPrompt = `
@@ -129,6 +262,7 @@ export const generateReadingImage = async (reading: ReadingContent): Promise<str
     Analyze this liturgical text:
     Title: "${reading.title}"
     Text: "${reading.text.substring(0, 500)}..."
+    ${liturgyContext}
 
     Create 3 distinct, highly detailed English image prompts for an AI generator (Stable Diffusion).
     1. Setting/Atmosphere (Wide shot, environment)
@@ -140,10 +274,16 @@ export const generateReadingImage = async (reading: ReadingContent): Promise<str
     Return ONLY the 3 prompts separated by "|||". Do not add labels like "Prompt 1:".
   `;
 
+  const fallbackPrompts = [
+    `Catholic holy atmosphere, ${reading.title}, renaissance art, divine light, 8k, cinematic lighting`,
+    `Biblical scene, ${reading.title}, ancient style, dramatic, 4k`,
+    `Religious symbol, holy spirit, cross, light rays, abstract, cinematic`
+  ];
+
   try {
     const response = await retryOperation(async () => {
       return await ai.models.generateContent({
-        model: "gemini-2.5-flash",
+        model: PROMPT_MODEL,
         contents: { parts: [{ text: promptGenerationPrompt }] }
       });
     });
@@ -151,54 +291,107 @@ export const generateReadingImage = async (reading: ReadingContent): Promise<str
     const rawText = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
     const prompts = rawText.split("|||").map(p => p.trim()).filter(p => p.length > 0);
 
-    if (prompts.length === 0) {
-      prompts.push(`Catholic holy atmosphere, ${reading.title}, renaissance art, divine light, 8k, cinematic lighting`);
-      prompts.push(`Biblical scene, ${reading.title}, ancient style, dramatic, 4k`);
-      prompts.push(`Religious symbol, holy spirit, cross, light rays, abstract, cinematic`);
-    }
-
-    // 2. "THE ARTIST" (Pollinations AI): Generate Image URLs
-    // FIXED: Use image.pollinations.ai/prompt/ for direct access
-    const imageUrls = prompts.map(prompt => {
-      const encodedPrompt = encodeURIComponent(prompt);
-      const seed = Math.floor(Math.random() * 100000);
-      return `https://image.pollinations.ai/prompt/${encodedPrompt}?width=720&height=1280&model=turbo&seed=${seed}&nologo=true`;
-    });
-
-    return imageUrls;
-
+    return prompts.length > 0 ? prompts : fallbackPrompts;
   } catch (error) {
     console.error("Error generating image prompts:", error);
-    return [
-      `https://image.pollinations.ai/prompt/${encodeURIComponent(reading.title + " catholic art")}?width=720&height=1280&model=turbo`
-    ];
+    return fallbackPrompts;
   }
 };
 
-export const generateReadingAudio = async (text: string): Promise<string> => {
-  const ai = getClient();
+/**
+ * Prompt + seed per scene. The seed comes from the prompt, so the same
+ * prompt gives the same image until it is rerolled.
+ */
+export const createImageDetails = (prompts: string[]): ImageDetail[] => {
+  return prompts.map(prompt => ({ prompt, seed: seedFromPrompt(prompt) }));
+};
+
+/**
+ * "THE ARTIST": renders one scene with the selected ImageProvider
+ */
+export const generateSceneImage = async (
+  detail: ImageDetail,
+  provider: ImageProvider,
+  size: ImageSize = getImageRequestSize([DEFAULT_OUTPUT_FORMAT])
+): Promise<Blob> => {
+  return await retryOperation(() => provider.generate(detail.prompt, { ...size, seed: detail.seed }));
+};
+
+/**
+ * Renders every scene. Scenes that fail are dropped (with their detail);
+ * it only throws if none succeeded. `onProgress` counts scenes settled.
+ */
+export const generateSceneImages = async (
+  details: ImageDetail[],
+  provider: ImageProvider,
+  size?: ImageSize,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ blob: Blob; detail: ImageDetail }[]> => {
+  let settled = 0;
+  onProgress?.(0, details.length);
+  const results = await Promise.allSettled(details.map(detail =>
+    generateSceneImage(detail, provider, size).finally(() => onProgress?.(++settled, details.length))
+  ));
+
+  const images: { blob: Blob; detail: ImageDetail }[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') images.push({ blob: result.value, detail: details[index] });
+    else console.error(`Error generating image (${provider.label}):`, result.reason);
+  });
+
+  if (images.length === 0) throw new Error(`${provider.label}: no se pudo generar ninguna imagen.`);
+  return images;
+};
+
+/**
+ * Prompts + images for a reading, as blob: URLs ready for the canvas, with
+ * the prompt and seed behind each one
+ */
+export const generateReadingImage = async (
+  reading: ReadingContent,
+  provider: ImageProvider,
+  size?: ImageSize,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ imageUrls: string[]; imageDetails: ImageDetail[] }> => {
+  const prompts = await generateImagePrompts(reading);
+  const images = await generateSceneImages(createImageDetails(prompts), provider, size, onProgress);
+  return {
+    imageUrls: images.map(({ blob }) => URL.createObjectURL(blob)),
+    imageDetails: images.map(({ detail }) => detail)
+  };
+};
+
+/**
+ * Narrates the whole reading with the provider/voice chosen for its type,
+ * in the reading's language. Long texts are chunked and stitched, never
+ * truncated; psalms repeat the refrain between stanzas. Returns WAV bytes.
+ */
+export const synthesizeReadingWav = async (
+  reading: ReadingContent,
+  provider: TtsProvider,
+  voice: string,
+  onProgress?: (done: number, total: number) => void
+) => {
   try {
-    const cleanText = text.length > 4000 ? text.substring(0, 4000) + "..." : text;
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: { parts: [{ text: cleanText }] },
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: "Puck" } } }
-      }
-    });
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("No audio generated.");
-
-    const pcmData = base64ToUint8Array(base64Audio);
-    const wavHeader = createWavHeader(pcmData.length);
-    const wavBytes = new Uint8Array(wavHeader.byteLength + pcmData.length);
-    wavBytes.set(new Uint8Array(wavHeader), 0);
-    wavBytes.set(pcmData, wavHeader.byteLength);
-    const blob = new Blob([wavBytes], { type: 'audio/wav' });
-    return URL.createObjectURL(blob);
+    return await synthesizeChunked(provider, {
+      text: getNarrationText(reading),
+      voice,
+      readingId: reading.id,
+      locale: getReadingLanguage(reading).locale
+    }, onProgress);
   } catch (error) {
     console.error("Error generating audio:", error);
     throw error;
   }
 };
+
+export const generateReadingAudio = async (
+  reading: ReadingContent,
+  provider: TtsProvider,
+  voice: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<string> => {
+  const wavBytes = await synthesizeReadingWav(reading, provider, voice, onProgress);
+  const blob = new Blob([wavBytes.slice()], { type: 'audio/wav' });
+  return URL.createObjectURL(blob);
+};
@@ -0,0 +1,46 @@
+import { GeneratedAsset, ImageDetail } from "../types";
+
+/**
+ * Detail for every image of the asset. Sessions saved before prompts were
+ * kept get an empty prompt, which the gallery lets the user fill in.
+ */
+export const getImageDetails = (asset: GeneratedAsset): ImageDetail[] => {
+  return (asset.imageUrls || []).map((_, index) => asset.imageDetails?.[index] || { prompt: "", seed: 0 });
+};
+
+/**
+ * The user's own images are locked so no regeneration replaces them
+ */
+export const createUploadedDetail = (): ImageDetail => ({ prompt: "", seed: 0, uploaded: true, locked: true });
+
+/**
+ * Only unlocked images with a prompt can be redone
+ */
+export const canRegenerate = (detail: ImageDetail): boolean => !detail.locked && detail.prompt.trim().length > 0;
+
+/**
+ * Applies a full regeneration on top of the current images: locked images
+ * keep their slot (so the timeline still points at them), the rest take the
+ * fresh ones.
+ */
+export const keepLockedImages = (
+  asset: GeneratedAsset,
+  fresh: { imageUrls: string[]; imageDetails?: ImageDetail[] }
+): { imageUrls: string[]; imageDetails: ImageDetail[] } => {
+  const imageUrls = [...fresh.imageUrls];
+  const imageDetails = fresh.imageUrls.map((_, index) => fresh.imageDetails?.[index] || { prompt: "", seed: 0 });
+
+  getImageDetails(asset).forEach((detail, index) => {
+    if (!detail.locked) return;
+    const url = asset.imageUrls![index];
+    if (index < imageUrls.length) {
+      imageUrls[index] = url;
+      imageDetails[index] = detail;
+    } else {
+      imageUrls.push(url);
+      imageDetails.push(detail);
+    }
+  });
+
+  return { imageUrls, imageDetails };
+};
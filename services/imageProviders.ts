@@ -0,0 +1,210 @@
+import { GoogleGenAI } from "@google/genai";
+import { AppSettings, ImageProviderId } from "../types";
+
+export interface ImageRequest {
+  width: number;
+  height: number;
+  seed: number;
+}
+
+/**
+ * An image source. Implementations always return the image bytes (never a
+ * remote hotlink) so the canvas renderer cannot hit CORS / tainted canvas.
+ */
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  // Identifies provider + configuration in the asset cache key
+  cacheKey: string;
+  generate: (prompt: string, request: ImageRequest) => Promise<Blob>;
+}
+
+const IMAGEN_MODEL = "imagen-3.0-generate-002";
+
+const base64ToBlob = (base64: string, type: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+/**
+ * Stable seed for a prompt, so the same prompt gives the same image
+ */
+export const seedFromPrompt = (prompt: string): number => {
+  let hash = 0;
+  for (let i = 0; i < prompt.length; i++) hash = (Math.imul(31, hash) + prompt.charCodeAt(i)) | 0;
+  return Math.abs(hash) % 100000;
+};
+
+/**
+ * Fresh seed for "another take" of the same prompt
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * 100000);
+
+// --- POLLINATIONS (public service) ---
+
+export const createPollinationsProvider = (): ImageProvider => ({
+  id: 'pollinations',
+  label: 'Pollinations AI',
+  cacheKey: 'pollinations:turbo',
+  generate: async (prompt, { width, height, seed }) => {
+    const url = `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}?width=${width}&height=${height}&model=turbo&seed=${seed}&nologo=true`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Pollinations HTTP ${response.status}`);
+    return await response.blob();
+  }
+});
+
+// --- GEMINI / IMAGEN ---
+
+export const createImagenProvider = (): ImageProvider => ({
+  id: 'imagen',
+  label: 'Gemini Imagen',
+  cacheKey: `imagen:${IMAGEN_MODEL}`,
+  generate: async (prompt, { width, height }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateImages({
+      model: IMAGEN_MODEL,
+      prompt,
+      config: {
+        numberOfImages: 1,
+        aspectRatio: width < height ? "9:16" : width > height ? "16:9" : "1:1",
+        outputMimeType: "image/jpeg"
+      }
+    });
+    const bytes = response.generatedImages?.[0]?.image?.imageBytes;
+    if (!bytes) throw new Error("Imagen no devolvió ninguna imagen (posible filtro de seguridad).");
+    return base64ToBlob(bytes, "image/jpeg");
+  }
+});
+
+// --- LOCAL STABLE DIFFUSION (Automatic1111-compatible HTTP API) ---
+
+export const createStableDiffusionProvider = (baseUrl: string): ImageProvider => {
+  const url = baseUrl.replace(/\/+$/, "");
+  return {
+    id: 'stable_diffusion',
+    label: 'Stable Diffusion local',
+    cacheKey: `stable_diffusion:${url}`,
+    generate: async (prompt, { width, height, seed }) => {
+      const response = await fetch(`${url}/sdapi/v1/txt2img`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt,
+          negative_prompt: "text, watermark, logo, deformed, lowres, nsfw",
+          width,
+          height,
+          seed,
+          steps: 25
+        })
+      });
+      if (!response.ok) throw new Error(`Stable Diffusion HTTP ${response.status} (${url})`);
+      const data = await response.json();
+      const image = data?.images?.[0];
+      if (!image) throw new Error("Stable Diffusion no devolvió ninguna imagen.");
+      return base64ToBlob(image, "image/png");
+    }
+  };
+};
+
+// --- LOCAL FOLDER OF PRE-APPROVED ARTWORK ---
+
+/**
+ * manifest.json: { "images": [{ "file": "buen-pastor.jpg", "tags": ["pastor", "ovejas", "shepherd"] }] }
+ */
+export interface ArtworkManifest {
+  images: { file: string; tags?: string[] }[];
+}
+
+const fetchOverHttp = async (path: string) => {
+  const response = await fetch(path);
+  if (!response.ok) throw new Error(`HTTP ${response.status} (${path})`);
+  return await response.blob();
+};
+
+/**
+ * Reads the image list of an artwork folder (empty until someone adds their own)
+ */
+export const loadArtworkManifest = async (
+  folderUrl: string,
+  fetchFile: (path: string) => Promise<Blob> = fetchOverHttp
+): Promise<ArtworkManifest> => {
+  const base = folderUrl.replace(/\/+$/, "");
+  try {
+    const manifest = JSON.parse(await (await fetchFile(`${base}/manifest.json`)).text()) as ArtworkManifest;
+    return { images: manifest.images || [] };
+  } catch (err: any) {
+    throw new Error(`No se pudo leer ${base}/manifest.json: ${err.message || err}`);
+  }
+};
+
+/**
+ * Picks the artwork whose tags best match the prompt; the seed breaks ties.
+ * `fetchFile` lets the CLI read from disk instead of over HTTP.
+ */
+export const createLocalFolderProvider = (
+  folderUrl: string,
+  fetchFile: (path: string) => Promise<Blob> = fetchOverHttp
+): ImageProvider => {
+  const base = folderUrl.replace(/\/+$/, "");
+  let manifestPromise: Promise<ArtworkManifest> | null = null;
+
+  const loadManifest = () => {
+    if (!manifestPromise) {
+      manifestPromise = loadArtworkManifest(base, fetchFile).catch(err => {
+        manifestPromise = null;
+        throw err;
+      });
+    }
+    return manifestPromise;
+  };
+
+  return {
+    id: 'local_folder',
+    label: 'Carpeta de arte aprobado',
+    cacheKey: `local_folder:${base}`,
+    generate: async (prompt, { seed }) => {
+      const manifest = await loadManifest();
+      if (manifest.images.length === 0) {
+        throw new Error(`La carpeta de arte está vacía: copia tus imágenes en ${base} y lístalas en su manifest.json.`);
+      }
+
+      const lowerPrompt = prompt.toLowerCase();
+      const scored = manifest.images.map(image => ({
+        image,
+        score: (image.tags || []).filter(tag => lowerPrompt.includes(tag.toLowerCase())).length
+      }));
+      const bestScore = Math.max(...scored.map(s => s.score));
+      const candidates = scored.filter(s => s.score === bestScore);
+      const chosen = candidates[seed % candidates.length].image;
+
+      return await fetchFile(`${base}/${chosen.file}`);
+    }
+  };
+};
+
+/**
+ * Builds the provider selected in settings
+ */
+export const createImageProvider = (settings: AppSettings): ImageProvider => {
+  switch (settings.imageProvider) {
+    case 'imagen':
+      return createImagenProvider();
+    case 'stable_diffusion':
+      return createStableDiffusionProvider(settings.stableDiffusionUrl);
+    case 'local_folder':
+      return createLocalFolderProvider(settings.artworkUrl);
+    case 'pollinations':
+    default:
+      return createPollinationsProvider();
+  }
+};
+
+export const IMAGE_PROVIDER_OPTIONS: { id: ImageProviderId; label: string }[] = [
+  { id: 'pollinations', label: 'Pollinations AI (público)' },
+  { id: 'imagen', label: 'Gemini Imagen' },
+  { id: 'stable_diffusion', label: 'Stable Diffusion local (A1111 / ComfyUI)' },
+  { id: 'local_folder', label: 'Carpeta de arte aprobado' }
+];
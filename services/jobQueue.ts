@@ -0,0 +1,272 @@
+import { Progress, createProgressTracker, estimateRemaining } from "./progressService";
+
+/**
+ * Explicit queue for the slow steps (images + narration, renders,
+ * reflections). Jobs run FIFO within per-resource concurrency limits, retry
+ * with exponential backoff, and can be cancelled, paused or retried by hand.
+ */
+
+export type JobState = 'queued' | 'running' | 'failed' | 'done' | 'cancelled';
+
+export type JobKind = 'assets' | 'images' | 'video' | 'reflection' | 'export' | 'publish';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string; // Shown in the queue panel
+  readingId?: string;
+  resources: string[]; // Concurrency keys, e.g. "image:pollinations", "render"
+  state: JobState;
+  attempts: number;
+  maxAttempts: number;
+  error?: string; // Last failure, kept while a retry is pending
+  retryAt?: number; // Epoch ms of the next automatic attempt
+  progress?: Progress; // Of the current attempt
+  step?: string; // What the current attempt is doing, e.g. "Imágenes 2/3"
+  createdAt: number;
+  startedAt?: number; // First attempt
+  finishedAt?: number;
+}
+
+// `fraction` is 0..1 for the whole job; `step` is optional and kept until replaced
+export type ReportProgress = (fraction: number, step?: string) => void;
+
+export interface JobSpec {
+  kind: JobKind;
+  label: string;
+  readingId?: string;
+  resources: string[];
+  maxAttempts?: number;
+  // Must reject on failure; `signal` aborts when the job is cancelled
+  run: (signal: AbortSignal, report: ReportProgress) => Promise<void>;
+}
+
+export interface QueueSnapshot {
+  jobs: Job[];
+  paused: boolean;
+}
+
+export interface JobQueue {
+  enqueue: (spec: JobSpec) => Job;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  retry: (id: string) => void;
+  pause: () => void;
+  resume: () => void;
+  clearFinished: () => void;
+  getSnapshot: () => QueueSnapshot;
+  subscribe: (listener: (snapshot: QueueSnapshot) => void) => () => void;
+}
+
+// Jobs running at once per resource; resources not listed allow one
+export const CONCURRENCY_LIMITS: Record<string, number> = {
+  'image:pollinations': 2,
+  'image:imagen': 1,
+  'image:stable_diffusion': 1,
+  'image:local_folder': 4,
+  'tts:gemini': 1,
+  'tts:local': 1,
+  'tts:recording': 4,
+  gemini: 1, // Prompt model (reflections)
+  render: 1, // One video at a time keeps the tab responsive
+  publish: 1 // Uploads share the connection
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+// First automatic retry after 5 s, then 10 s, 20 s...
+const RETRY_BASE_DELAY = 5000;
+
+const isActive = (job: Job) => job.state === 'queued' || job.state === 'running';
+
+export interface BatchSummary {
+  finished: number; // Done or failed for good
+  total: number; // Cancelled jobs do not count
+  progress: Progress; // Timed from the first job that started
+}
+
+/**
+ * Overall progress of the jobs in the queue: finished jobs count whole,
+ * running ones by their own progress
+ */
+export const summarizeJobs = (jobs: Job[], now: number = Date.now()): BatchSummary | null => {
+  const counted = jobs.filter(job => job.state !== 'cancelled');
+  if (counted.length === 0) return null;
+
+  const isFinished = (job: Job) => job.state === 'done' || job.state === 'failed';
+  const finished = counted.filter(isFinished).length;
+  const fraction = counted.reduce((sum, job) =>
+    sum + (isFinished(job) ? 1 : job.state === 'running' ? job.progress?.fraction ?? 0 : 0), 0
+  ) / counted.length;
+
+  const starts = counted.map(job => job.startedAt).filter((t): t is number => t !== undefined);
+  const elapsed = starts.length > 0 ? (now - Math.min(...starts)) / 1000 : 0;
+  return { finished, total: counted.length, progress: { fraction, elapsed, remaining: estimateRemaining(elapsed, fraction) } };
+};
+
+export const createJobQueue = (limits: Record<string, number> = CONCURRENCY_LIMITS): JobQueue => {
+  let jobs: Job[] = [];
+  let paused = false;
+  let nextId = 1;
+  const runs = new Map<string, JobSpec['run']>();
+  const controllers = new Map<string, AbortController>();
+  // Resources held by each run until its promise settles, cancelled or not
+  const inFlight = new Map<AbortController, string[]>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const listeners = new Set<(snapshot: QueueSnapshot) => void>();
+
+  // Every change replaces the array, so React sees a new snapshot
+  const update = (id: string, patch: Partial<Job>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+  };
+  const notify = () => {
+    const snapshot = { jobs, paused };
+    listeners.forEach(listener => listener(snapshot));
+  };
+  const clearTimer = (id: string) => {
+    clearTimeout(timers.get(id));
+    timers.delete(id);
+  };
+
+  // A cancelled run keeps its slot until it actually stops
+  const hasCapacity = (job: Job) => job.resources.every(resource =>
+    [...inFlight.values()].filter(resources => resources.includes(resource)).length < (limits[resource] ?? 1)
+  );
+
+  const finish = (id: string, controller: AbortController, error: unknown) => {
+    inFlight.delete(controller);
+    // A cancelled job retried before its old run settled has a new controller
+    if (controllers.get(id) === controller) controllers.delete(id);
+    const job = jobs.find(j => j.id === id);
+    // Cancelled (already marked) or removed while running
+    if (!job || controller.signal.aborted) return pump();
+
+    if (!error) {
+      update(id, { state: 'done', error: undefined, step: undefined, finishedAt: Date.now() });
+    } else {
+      const message = (error as any)?.message || String(error);
+      console.error(`Trabajo "${job.label}" falló (intento ${job.attempts}/${job.maxAttempts}):`, error);
+      if (job.attempts < job.maxAttempts) {
+        const delay = RETRY_BASE_DELAY * 2 ** (job.attempts - 1);
+        update(id, { state: 'queued', error: message, retryAt: Date.now() + delay });
+        timers.set(id, setTimeout(() => { timers.delete(id); pump(); }, delay));
+      } else {
+        update(id, { state: 'failed', error: message, retryAt: undefined, finishedAt: Date.now() });
+      }
+    }
+    notify();
+    pump();
+  };
+
+  const start = (job: Job) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    inFlight.set(controller, job.resources);
+    update(job.id, {
+      state: 'running',
+      attempts: job.attempts + 1,
+      retryAt: undefined,
+      progress: undefined,
+      step: undefined,
+      startedAt: job.startedAt ?? Date.now()
+    });
+    notify();
+
+    let step: string | undefined;
+    const track = createProgressTracker(progress => {
+      if (controller.signal.aborted) return;
+      update(job.id, { progress, step });
+      notify();
+    });
+    const report: ReportProgress = (fraction, nextStep) => {
+      if (nextStep !== undefined) step = nextStep;
+      track(fraction);
+    };
+
+    // Async so a run that throws synchronously still goes through finish()
+    Promise.resolve()
+      .then(() => runs.get(job.id)!(controller.signal, report))
+      .then(() => finish(job.id, controller, null), error => finish(job.id, controller, error ?? new Error("Error desconocido")));
+  };
+
+  // FIFO, but a job waiting on a busy resource does not hold back the rest
+  const pump = () => {
+    if (paused) return;
+    const now = Date.now();
+    jobs
+      .filter(job => job.state === 'queued' && !(job.retryAt && job.retryAt > now))
+      .forEach(job => {
+        const current = jobs.find(j => j.id === job.id)!;
+        if (current.state === 'queued' && hasCapacity(current)) start(current);
+      });
+  };
+
+  const cancel = (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || !isActive(job)) return;
+    clearTimer(id);
+    update(id, { state: 'cancelled', retryAt: undefined, finishedAt: Date.now() });
+    controllers.get(id)?.abort(new DOMException("Trabajo cancelado", "AbortError"));
+    notify();
+    pump();
+  };
+
+  return {
+    /**
+     * Adds a job. A job of the same kind for the same reading that is still
+     * queued or running is returned instead; a finished one is replaced.
+     */
+    enqueue: (spec) => {
+      const same = (job: Job) => job.kind === spec.kind && job.readingId === spec.readingId;
+      const existing = jobs.find(job => same(job) && isActive(job));
+      if (existing) return existing;
+
+      jobs.filter(same).forEach(job => runs.delete(job.id));
+      const job: Job = {
+        id: `job-${nextId++}`,
+        kind: spec.kind,
+        label: spec.label,
+        readingId: spec.readingId,
+        resources: spec.resources,
+        state: 'queued',
+        attempts: 0,
+        maxAttempts: spec.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        createdAt: Date.now()
+      };
+      jobs = [...jobs.filter(j => !same(j)), job];
+      runs.set(job.id, spec.run);
+      notify();
+      pump();
+      return job;
+    },
+    cancel,
+    cancelAll: () => jobs.filter(isActive).forEach(job => cancel(job.id)),
+    // Failed or cancelled jobs start over with a fresh attempt count
+    retry: (id) => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || (job.state !== 'failed' && job.state !== 'cancelled')) return;
+      update(id, { state: 'queued', attempts: 0, error: undefined, startedAt: undefined, finishedAt: undefined });
+      notify();
+      pump();
+    },
+    // Running jobs finish; nothing new starts until resume()
+    pause: () => {
+      paused = true;
+      notify();
+    },
+    resume: () => {
+      paused = false;
+      notify();
+      pump();
+    },
+    clearFinished: () => {
+      jobs.filter(job => !isActive(job)).forEach(job => runs.delete(job.id));
+      jobs = jobs.filter(isActive);
+      notify();
+    },
+    getSnapshot: () => ({ jobs, paused }),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
@@ -0,0 +1,105 @@
+import { LanguageId, ReadingContent } from "../types";
+
+/**
+ * Texts drawn on the video, per language. Templates refer to them as
+ * "$name" (e.g. "$cta"), like the "$pill" colors.
+ */
+export interface OverlayStrings {
+  cta: string;
+  ctaSubtitle: string;
+  headerFallback: string; // Header pill when there is no date or feast
+}
+
+export interface LanguageOption {
+  id: LanguageId;
+  label: string;
+  locale: string; // BCP 47: date formatting and TTS language
+  promptName: string; // Language name for the Gemini prompts, in Spanish
+  today: string; // Natural date when none is given
+  reflectionTitle: string;
+  overlays: OverlayStrings;
+  hashtags: string[]; // Always in the post text, whatever Gemini suggests
+  pinnedComment: string; // Fallback when Gemini is unavailable
+}
+
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+  {
+    id: 'es',
+    label: "Español",
+    locale: "es-ES",
+    promptName: "español",
+    today: "hoy",
+    reflectionTitle: "Reflexión del Evangelio",
+    overlays: { cta: "ESCRIBE 'AMÉN'", ctaSubtitle: "Y COMPARTE LA PALABRA DEL SEÑOR", headerFallback: "Evangelio del Día" },
+    hashtags: ["#EvangelioDeHoy", "#PalabraDeDios", "#Católico"],
+    pinnedComment: "Escribe 'Amén' y comparte la Palabra del Señor con alguien que la necesite hoy 🙏"
+  },
+  {
+    id: 'en',
+    label: "English",
+    locale: "en-US",
+    promptName: "inglés",
+    today: "today",
+    reflectionTitle: "Gospel Reflection",
+    overlays: { cta: "COMMENT 'AMEN'", ctaSubtitle: "AND SHARE THE WORD OF THE LORD", headerFallback: "Gospel of the Day" },
+    hashtags: ["#GospelOfTheDay", "#WordOfGod", "#Catholic"],
+    pinnedComment: "Comment 'Amen' and share the Word of the Lord with someone who needs it today 🙏"
+  },
+  {
+    id: 'pt',
+    label: "Português",
+    locale: "pt-BR",
+    promptName: "portugués (de Brasil)",
+    today: "hoje",
+    reflectionTitle: "Reflexão do Evangelho",
+    overlays: { cta: "ESCREVA 'AMÉM'", ctaSubtitle: "E PARTILHE A PALAVRA DO SENHOR", headerFallback: "Evangelho do Dia" },
+    hashtags: ["#EvangelhoDoDia", "#PalavraDeDeus", "#Católico"],
+    pinnedComment: "Escreva 'Amém' e partilhe a Palavra do Senhor com alguém que precisa dela hoje 🙏"
+  }
+];
+
+// The channel the app started with: readings without a language are Spanish
+export const DEFAULT_LANGUAGE: LanguageId = 'es';
+
+export const getLanguage = (id: LanguageId = DEFAULT_LANGUAGE): LanguageOption => {
+  return LANGUAGE_OPTIONS.find(option => option.id === id) || LANGUAGE_OPTIONS[0];
+};
+
+export const getReadingLanguage = (reading: ReadingContent): LanguageOption => getLanguage(reading.language);
+
+/**
+ * Parses a list like "es,en" (CLI, settings), rejecting unknown ids
+ */
+export const parseLanguages = (list: string): LanguageId[] => {
+  const ids = list.split(",").map(id => id.trim()).filter(Boolean);
+  const unknown = ids.find(id => !LANGUAGE_OPTIONS.some(option => option.id === id));
+  if (unknown) throw new Error(`Idioma desconocido: "${unknown}" (usa ${LANGUAGE_OPTIONS.map(o => o.id).join(", ")})`);
+  return [...new Set(ids)] as LanguageId[];
+};
+
+/**
+ * Resolves "$name" texts against the overlay strings of the language
+ */
+export const resolveText = (text: string, language: LanguageOption): string => {
+  if (!text.startsWith("$")) return text;
+  const key = text.slice(1) as keyof OverlayStrings;
+  return language.overlays[key] ?? text;
+};
+
+/**
+ * Keeps the readings of each language together, in order of first
+ * appearance (a reflection added later joins its own language)
+ */
+export const groupByLanguage = (readings: ReadingContent[]): ReadingContent[] => {
+  const order = [...new Set(readings.map(r => getReadingLanguage(r).id))];
+  return order.flatMap(language => readings.filter(r => getReadingLanguage(r).id === language));
+};
+
+/**
+ * Languages with a Gospel but no reflection yet
+ */
+export const getLanguagesWithoutReflection = (readings: ReadingContent[]): LanguageId[] => {
+  const withGospel = new Set(readings.filter(r => r.type === 'gospel').map(r => getReadingLanguage(r).id));
+  readings.filter(r => r.type === 'reflection').forEach(r => withGospel.delete(getReadingLanguage(r).id));
+  return [...withGospel];
+};
@@ -0,0 +1,266 @@
+import { LanguageId, LiturgicalColor, LiturgicalDay, LiturgicalSeason, ReadingContent, ScriptureCitation } from "../types";
+import { DEFAULT_LANGUAGE } from "./languageService";
+import { ApiReading } from "./readingsApi";
+
+/**
+ * Client-side fallback for the liturgical metadata of /api/readings.
+ * The backend is authoritative (national calendars, memorials); this only
+ * covers the General Roman Calendar seasons and the main solemnities.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are handled as UTC day numbers so DST never shifts a day
+const dayNumber = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / DAY_MS;
+const weekday = (dayNum: number) => new Date(dayNum * DAY_MS).getUTCDay();
+
+/**
+ * Easter Sunday (Anonymous Gregorian algorithm)
+ */
+const easterDay = (year: number): number => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return dayNumber(year, month, day);
+};
+
+// First Sunday of Advent: fourth Sunday before Christmas
+const adventStart = (year: number): number => {
+  const christmas = dayNumber(year, 12, 25);
+  const offset = weekday(christmas) === 0 ? 7 : weekday(christmas);
+  return christmas - offset - 21;
+};
+
+// Baptism of the Lord: Sunday after Epiphany (January 6)
+const baptismOfTheLord = (year: number): number => {
+  const epiphany = dayNumber(year, 1, 6);
+  return epiphany + (7 - weekday(epiphany));
+};
+
+interface Celebration {
+  name: Record<LanguageId, string>;
+  color: LiturgicalColor;
+}
+
+// Fixed solemnities and feasts ("MM-DD")
+const FIXED_CELEBRATIONS: Record<string, Celebration> = {
+  "01-01": { name: { es: "Santa María, Madre de Dios", en: "Mary, Mother of God", pt: "Santa Maria, Mãe de Deus" }, color: 'white' },
+  "01-06": { name: { es: "Epifanía del Señor", en: "The Epiphany of the Lord", pt: "Epifania do Senhor" }, color: 'white' },
+  "02-02": { name: { es: "Presentación del Señor", en: "The Presentation of the Lord", pt: "Apresentação do Senhor" }, color: 'white' },
+  "03-19": { name: { es: "San José, Esposo de la Virgen María", en: "Saint Joseph, Spouse of the Blessed Virgin Mary", pt: "São José, Esposo da Virgem Maria" }, color: 'white' },
+  "03-25": { name: { es: "Anunciación del Señor", en: "The Annunciation of the Lord", pt: "Anunciação do Senhor" }, color: 'white' },
+  "06-24": { name: { es: "Natividad de San Juan Bautista", en: "The Nativity of Saint John the Baptist", pt: "Natividade de São João Batista" }, color: 'white' },
+  "06-29": { name: { es: "Santos Pedro y Pablo", en: "Saints Peter and Paul", pt: "São Pedro e São Paulo" }, color: 'red' },
+  "08-06": { name: { es: "Transfiguración del Señor", en: "The Transfiguration of the Lord", pt: "Transfiguração do Senhor" }, color: 'white' },
+  "08-15": { name: { es: "Asunción de la Virgen María", en: "The Assumption of the Blessed Virgin Mary", pt: "Assunção de Nossa Senhora" }, color: 'white' },
+  "09-14": { name: { es: "Exaltación de la Santa Cruz", en: "The Exaltation of the Holy Cross", pt: "Exaltação da Santa Cruz" }, color: 'red' },
+  "11-01": { name: { es: "Todos los Santos", en: "All Saints", pt: "Todos os Santos" }, color: 'white' },
+  "11-02": { name: { es: "Fieles Difuntos", en: "All Souls", pt: "Fiéis Defuntos" }, color: 'purple' },
+  "12-08": { name: { es: "Inmaculada Concepción", en: "The Immaculate Conception", pt: "Imaculada Conceição" }, color: 'white' },
+  "12-12": { name: { es: "Nuestra Señora de Guadalupe", en: "Our Lady of Guadalupe", pt: "Nossa Senhora de Guadalupe" }, color: 'white' },
+  "12-25": { name: { es: "Natividad del Señor", en: "The Nativity of the Lord", pt: "Natal do Senhor" }, color: 'white' }
+};
+
+/**
+ * Celebrations tied to Easter / Advent for the given civil year
+ */
+const movableCelebrations = (year: number): Record<number, Celebration> => {
+  const easter = easterDay(year);
+  const pentecost = easter + 49;
+  const christmas = dayNumber(year, 12, 25);
+  // Holy Family: Sunday within the Christmas octave, or December 30
+  const holyFamily = weekday(christmas) === 0 ? dayNumber(year, 12, 30) : christmas + (7 - weekday(christmas));
+
+  return {
+    [baptismOfTheLord(year)]: { name: { es: "Bautismo del Señor", en: "The Baptism of the Lord", pt: "Batismo do Senhor" }, color: 'white' },
+    [easter - 46]: { name: { es: "Miércoles de Ceniza", en: "Ash Wednesday", pt: "Quarta-feira de Cinzas" }, color: 'purple' },
+    [easter - 7]: { name: { es: "Domingo de Ramos", en: "Palm Sunday", pt: "Domingo de Ramos" }, color: 'red' },
+    [easter - 3]: { name: { es: "Jueves Santo", en: "Holy Thursday", pt: "Quinta-feira Santa" }, color: 'white' },
+    [easter - 2]: { name: { es: "Viernes Santo", en: "Good Friday", pt: "Sexta-feira Santa" }, color: 'red' },
+    [easter - 1]: { name: { es: "Sábado Santo", en: "Holy Saturday", pt: "Sábado Santo" }, color: 'white' },
+    [easter]: { name: { es: "Domingo de Resurrección", en: "Easter Sunday", pt: "Domingo de Páscoa" }, color: 'white' },
+    [easter + 7]: { name: { es: "Domingo de la Divina Misericordia", en: "Divine Mercy Sunday", pt: "Domingo da Divina Misericórdia" }, color: 'white' },
+    [easter + 42]: { name: { es: "Ascensión del Señor", en: "The Ascension of the Lord", pt: "Ascensão do Senhor" }, color: 'white' },
+    [pentecost]: { name: { es: "Domingo de Pentecostés", en: "Pentecost Sunday", pt: "Domingo de Pentecostes" }, color: 'red' },
+    [pentecost + 7]: { name: { es: "Santísima Trinidad", en: "The Most Holy Trinity", pt: "Santíssima Trindade" }, color: 'white' },
+    [pentecost + 14]: { name: { es: "Corpus Christi", en: "Corpus Christi", pt: "Corpus Christi" }, color: 'white' },
+    [pentecost + 19]: { name: { es: "Sagrado Corazón de Jesús", en: "The Most Sacred Heart of Jesus", pt: "Sagrado Coração de Jesus" }, color: 'white' },
+    [adventStart(year) - 7]: { name: { es: "Jesucristo, Rey del Universo", en: "Our Lord Jesus Christ, King of the Universe", pt: "Nosso Senhor Jesus Cristo, Rei do Universo" }, color: 'white' },
+    [holyFamily]: { name: { es: "Sagrada Familia", en: "The Holy Family", pt: "Sagrada Família" }, color: 'white' }
+  };
+};
+
+const SEASON_COLORS: Record<LiturgicalSeason, LiturgicalColor> = {
+  advent: 'purple',
+  christmas: 'white',
+  lent: 'purple',
+  triduum: 'red',
+  easter: 'white',
+  ordinary: 'green'
+};
+
+/**
+ * Season, color, cycles and main celebration (named in `language`) for an
+ * ISO date (YYYY-MM-DD)
+ */
+export const computeLiturgicalDay = (isoDate: string, language: LanguageId = DEFAULT_LANGUAGE): LiturgicalDay => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const today = dayNumber(year, month, day);
+  const easter = easterDay(year);
+  const advent = adventStart(year);
+
+  let season: LiturgicalSeason = 'ordinary';
+  if (today >= advent && today < dayNumber(year, 12, 25)) season = 'advent';
+  else if (today >= dayNumber(year, 12, 25) || today <= baptismOfTheLord(year)) season = 'christmas';
+  else if (today >= easter - 46 && today < easter - 3) season = 'lent';
+  else if (today >= easter - 3 && today < easter) season = 'triduum';
+  else if (today >= easter && today <= easter + 49) season = 'easter';
+
+  // The liturgical year starts on the First Sunday of Advent
+  const liturgicalYear = today >= advent ? year + 1 : year;
+  const sundayCycle = (['C', 'A', 'B'] as const)[liturgicalYear % 3];
+  const weekdayCycle = liturgicalYear % 2 === 1 ? 'I' : 'II';
+
+  const celebration = movableCelebrations(year)[today]
+    || FIXED_CELEBRATIONS[`${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`];
+
+  let color = SEASON_COLORS[season];
+  if (today === advent + 14 || today === easter - 21) color = 'rose'; // Gaudete / Laetare
+  if (celebration) color = celebration.color;
+
+  return { season, color, sundayCycle, weekdayCycle, feast: celebration?.name[language] };
+};
+
+/**
+ * "Lc 12, 13-21" -> { book: "Lc", chapter: 12, verses: "13-21", firstVerse: 13, lastVerse: 21 }.
+ * Returns undefined for references it cannot read.
+ */
+export const parseCitation = (reference: string): ScriptureCitation | undefined => {
+  const match = reference.trim().match(/^((?:[1-3]\s*)?[A-Za-zÀ-ÿ]+\.?)\s*(\d+)\s*(?:[,:]\s*(.+))?$/);
+  if (!match) return undefined;
+
+  const verses = match[3]?.trim();
+  const numbers = verses?.split(/[;]/)[0].match(/\d+/g)?.map(Number) ?? [];
+  return {
+    book: match[1].replace(/\s+/g, ' ').replace(/\.$/, ''),
+    chapter: Number(match[2]),
+    verses,
+    firstVerse: numbers[0],
+    lastVerse: numbers.length > 0 ? numbers[numbers.length - 1] : undefined
+  };
+};
+
+/**
+ * The psalm response marked with "R." (or "R/.") in the scraped text
+ */
+export const extractPsalmRefrain = (text: string): string | undefined => {
+  const match = text.match(/(?:^|\s)R\/?\.\s*(.+?[.!?])(?=\s|$)/s);
+  return match ? match[1].replace(/\s+/g, ' ').trim() : undefined;
+};
+
+const LITURGICAL_SEASONS: LiturgicalSeason[] = ['advent', 'christmas', 'lent', 'triduum', 'easter', 'ordinary'];
+const LITURGICAL_COLORS: LiturgicalColor[] = ['purple', 'rose', 'white', 'red', 'green'];
+
+/**
+ * Liturgical fields of one /api/readings item. Values sent by the backend
+ * win; anything missing or unknown is computed from the date and text.
+ */
+export const resolveLiturgicalMetadata = (
+  item: ApiReading,
+  isoDate: string,
+  language: LanguageId = DEFAULT_LANGUAGE
+): Pick<ReadingContent, 'liturgy' | 'citation' | 'psalmRefrain'> => {
+  const computed = computeLiturgicalDay(isoDate, language);
+  const cycle = item.cycle || {};
+
+  const liturgy: LiturgicalDay = {
+    season: LITURGICAL_SEASONS.find(season => season === item.season) || computed.season,
+    color: LITURGICAL_COLORS.find(color => color === item.color) || computed.color,
+    sundayCycle: (['A', 'B', 'C'] as const).find(c => c === cycle.sunday) || computed.sundayCycle,
+    weekdayCycle: (['I', 'II'] as const).find(c => c === cycle.weekday) || computed.weekdayCycle,
+    feast: item.feast?.trim() || computed.feast
+  };
+
+  // The schema guarantees book and chapter; null optional fields are dropped
+  const citation: ScriptureCitation | undefined = item.citation
+    ? {
+      book: item.citation.book,
+      chapter: item.citation.chapter,
+      ...(item.citation.verses && { verses: item.citation.verses }),
+      ...(item.citation.firstVerse != null && { firstVerse: item.citation.firstVerse }),
+      ...(item.citation.lastVerse != null && { lastVerse: item.citation.lastVerse })
+    }
+    : parseCitation(item.reference);
+
+  const psalmRefrain = item.type === 'psalm'
+    ? item.psalm_refrain?.trim() || extractPsalmRefrain(item.text)
+    : undefined;
+
+  return { liturgy, citation, psalmRefrain };
+};
+
+// --- COLOR THEME ---
+
+export interface LiturgicalTheme {
+  pill: string; // Reference pill
+  barStart: string; // Progress bar gradient
+  barEnd: string;
+  glow: string; // Progress bar shadow
+  visualizer: string; // Frequency bars
+  tint: string; // Wash over the background images
+}
+
+// Original indigo/purple look, used when a reading has no liturgical data
+export const DEFAULT_THEME: LiturgicalTheme = {
+  pill: "rgba(79, 70, 229, 0.95)",
+  barStart: "#6366f1",
+  barEnd: "#a855f7",
+  glow: "rgba(168, 85, 247, 0.6)",
+  visualizer: "rgba(167, 139, 250, 0.6)",
+  tint: "rgba(0, 0, 0, 0)"
+};
+
+const LITURGICAL_THEMES: Record<LiturgicalColor, LiturgicalTheme> = {
+  purple: { pill: "rgba(109, 40, 217, 0.95)", barStart: "#7c3aed", barEnd: "#c084fc", glow: "rgba(192, 132, 252, 0.6)", visualizer: "rgba(192, 132, 252, 0.6)", tint: "rgba(59, 7, 100, 0.35)" },
+  rose: { pill: "rgba(219, 39, 119, 0.95)", barStart: "#db2777", barEnd: "#f9a8d4", glow: "rgba(249, 168, 212, 0.6)", visualizer: "rgba(249, 168, 212, 0.6)", tint: "rgba(131, 24, 67, 0.3)" },
+  white: { pill: "rgba(180, 140, 40, 0.95)", barStart: "#d97706", barEnd: "#fde68a", glow: "rgba(253, 230, 138, 0.6)", visualizer: "rgba(253, 230, 138, 0.6)", tint: "rgba(120, 90, 20, 0.2)" },
+  red: { pill: "rgba(185, 28, 28, 0.95)", barStart: "#dc2626", barEnd: "#f87171", glow: "rgba(248, 113, 113, 0.6)", visualizer: "rgba(248, 113, 113, 0.6)", tint: "rgba(127, 29, 29, 0.35)" },
+  green: { pill: "rgba(21, 128, 61, 0.95)", barStart: "#16a34a", barEnd: "#4ade80", glow: "rgba(134, 239, 172, 0.6)", visualizer: "rgba(134, 239, 172, 0.6)", tint: "rgba(20, 83, 45, 0.3)" }
+};
+
+/**
+ * Palette for the video overlays from the liturgical color of the day
+ */
+export const getLiturgicalTheme = (reading: ReadingContent): LiturgicalTheme => {
+  return reading.liturgy ? LITURGICAL_THEMES[reading.liturgy.color] : DEFAULT_THEME;
+};
+
+export const SEASON_LABELS: Record<LiturgicalSeason, string> = {
+  advent: "Adviento",
+  christmas: "Navidad",
+  lent: "Cuaresma",
+  triduum: "Triduo Pascual",
+  easter: "Pascua",
+  ordinary: "Tiempo Ordinario"
+};
+
+// English hint for the image prompts (e.g. purple vestments in Advent)
+export const SEASON_PROMPT_HINTS: Record<LiturgicalSeason, string> = {
+  advent: "Advent season, expectant twilight, deep purple and candlelight",
+  christmas: "Christmas season, warm golden and white light, joyful",
+  lent: "Lenten season, austere desert tones, muted purple, penitential",
+  triduum: "Holy Week, solemn, dramatic chiaroscuro, deep red",
+  easter: "Easter season, radiant dawn, white and gold, triumphant",
+  ordinary: "Ordinary Time, serene natural light, green landscapes"
+};
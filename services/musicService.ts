@@ -0,0 +1,149 @@
+import { AppSettings, ReadingContent } from "../types";
+
+/**
+ * manifest.json: { "tracks": [{ "id": "gregoriano", "label": "Canto gregoriano", "file": "gregoriano.mp3" }] }
+ */
+export interface MusicTrack {
+  id: string;
+  label: string;
+  file: string; // Relative to the music folder
+}
+
+interface MusicManifest {
+  tracks: MusicTrack[];
+}
+
+/**
+ * A track resolved for one render
+ */
+export interface MusicBed {
+  url: string; // Or a file path in the CLI
+  volume: number; // 0-1, before ducking
+}
+
+// Music level while someone speaks, relative to its volume
+const DUCK_LEVEL = 0.3;
+// Seconds to duck when speech starts, and to come back after it stops
+const DUCK_ATTACK = 0.08;
+const DUCK_RELEASE = 0.6;
+// Speech detection: RMS over short windows, held across pauses between words
+const SPEECH_WINDOW = 0.05;
+const SPEECH_THRESHOLD = 0.02;
+const SPEECH_HOLD = 0.4;
+// Ducking starts this early so the first syllable is not masked
+const SPEECH_LOOKAHEAD = 0.1;
+const FADE_IN_SECONDS = 1.5;
+
+// The gain envelope has one value per 10 ms
+export const ENVELOPE_RATE = 100;
+
+/**
+ * Reads the track list of a music folder. `fetchFile` lets the CLI read
+ * from disk instead of over HTTP.
+ */
+export const loadMusicLibrary = async (
+  folderUrl: string,
+  fetchFile: (path: string) => Promise<Blob> = async (path) => {
+    const response = await fetch(path);
+    if (!response.ok) throw new Error(`HTTP ${response.status} (${path})`);
+    return await response.blob();
+  }
+): Promise<MusicTrack[]> => {
+  const base = folderUrl.replace(/\/+$/, "");
+  try {
+    const manifest = JSON.parse(await (await fetchFile(`${base}/manifest.json`)).text()) as MusicManifest;
+    return (manifest.tracks || []).map(track => ({ ...track, file: `${base}/${track.file}` }));
+  } catch (err: any) {
+    throw new Error(`No se pudo leer ${base}/manifest.json: ${err.message || err}`);
+  }
+};
+
+/**
+ * The music chosen for a reading type, or null for none
+ */
+export const resolveMusicBed = async (settings: AppSettings, type: ReadingContent['type']): Promise<MusicBed | null> => {
+  const choice = settings.music[type];
+  if (!choice.trackId || choice.volume <= 0) return null;
+  const track = (await loadMusicLibrary(settings.musicUrl)).find(t => t.id === choice.trackId);
+  if (!track) throw new Error(`Pista de música "${choice.trackId}" no encontrada en ${settings.musicUrl}`);
+  return { url: track.file, volume: choice.volume };
+};
+
+/**
+ * Music gain over the whole video (ENVELOPE_RATE values per second): fades
+ * in, ducks under the narration and fades out across the end tail.
+ */
+export const computeMusicEnvelope = (
+  narration: Float32Array,
+  sampleRate: number,
+  totalDuration: number,
+  volume: number
+): Float32Array => {
+  const narrationDuration = narration.length / sampleRate;
+  const steps = Math.ceil(totalDuration * ENVELOPE_RATE);
+  const halfWindow = Math.round((SPEECH_WINDOW * sampleRate) / 2);
+
+  // 1. Where someone is speaking
+  const speech = new Uint8Array(steps);
+  for (let i = 0; i < steps; i++) {
+    const center = Math.round((i / ENVELOPE_RATE) * sampleRate);
+    const from = Math.max(0, center - halfWindow);
+    const to = Math.min(narration.length, center + halfWindow);
+    let sum = 0;
+    for (let s = from; s < to; s++) sum += narration[s] * narration[s];
+    if (to > from && Math.sqrt(sum / (to - from)) >= SPEECH_THRESHOLD) speech[i] = 1;
+  }
+
+  // 2. Held through short pauses, and a little ahead of each phrase
+  const hold = Math.round(SPEECH_HOLD * ENVELOPE_RATE);
+  const lookahead = Math.round(SPEECH_LOOKAHEAD * ENVELOPE_RATE);
+  const ducked = new Uint8Array(steps);
+  let lastSpeech = -Infinity;
+  for (let i = 0; i < steps; i++) {
+    if (speech[Math.min(i + lookahead, steps - 1)]) lastSpeech = i;
+    ducked[i] = i - lastSpeech <= hold ? 1 : 0;
+  }
+
+  // 3. Smoothed gain, then the fades
+  const attack = 1 - Math.exp(-1 / (DUCK_ATTACK * ENVELOPE_RATE));
+  const release = 1 - Math.exp(-1 / (DUCK_RELEASE * ENVELOPE_RATE));
+  const tail = Math.max(totalDuration - narrationDuration, 0.001);
+  const envelope = new Float32Array(steps);
+  let gain = ducked[0] ? DUCK_LEVEL : 1;
+  for (let i = 0; i < steps; i++) {
+    const target = ducked[i] ? DUCK_LEVEL : 1;
+    gain += (target - gain) * (target < gain ? attack : release);
+
+    const time = i / ENVELOPE_RATE;
+    const fadeIn = Math.min(1, time / FADE_IN_SECONDS);
+    const fadeOut = time > narrationDuration ? Math.max(0, 1 - (time - narrationDuration) / tail) : 1;
+    envelope[i] = gain * fadeIn * fadeOut * volume;
+  }
+  return envelope;
+};
+
+/**
+ * Narration plus the looped music under `envelope`, `totalSamples` long.
+ * Has as many channels as the wider input (mono narration stays centered
+ * over stereo music).
+ */
+export const mixMusic = (
+  narration: Float32Array[],
+  music: Float32Array[],
+  sampleRate: number,
+  totalSamples: number,
+  envelope: Float32Array
+): Float32Array[] => {
+  const channels = Math.max(narration.length, music.length);
+  return Array.from({ length: channels }, (_, c) => {
+    const voice = narration[c % narration.length];
+    const track = music[c % music.length];
+    const out = new Float32Array(totalSamples);
+    for (let i = 0; i < totalSamples; i++) {
+      const gain = envelope[Math.min(Math.floor((i / sampleRate) * ENVELOPE_RATE), envelope.length - 1)];
+      const value = (i < voice.length ? voice[i] : 0) + (track.length > 0 ? track[i % track.length] * gain : 0);
+      out[i] = Math.max(-1, Math.min(1, value));
+    }
+    return out;
+  });
+};
@@ -0,0 +1,273 @@
+import { Muxer, ArrayBufferTarget } from "mp4-muxer";
+import { ReadingContent, GeneratedAsset } from "../types";
+import { VISUALIZER_FFT_SIZE, END_TAIL_SECONDS, createCoverRenderer, createFrameRenderer, loadImage } from "./videoGenService";
+import { VideoTemplate } from "./videoTemplate";
+import { OutputFormat, DEFAULT_OUTPUT_FORMAT } from "./outputFormats";
+import { MusicBed, computeMusicEnvelope, mixMusic } from "./musicService";
+import { Progress, createProgressTracker } from "./progressService";
+
+// Fixed timestep: every frame is drawn exactly at i / FPS
+const FPS = 30;
+const KEYFRAME_INTERVAL = FPS * 2;
+const VIDEO_BITRATE = 15000000; // Same as the MediaRecorder path
+const AUDIO_BITRATE = 128000;
+const AUDIO_SAMPLE_RATE = 48000; // AAC-friendly; narration is resampled on decode
+const AUDIO_CHUNK_FRAMES = 1024;
+// Keep encoder queues short so memory stays flat on long readings
+const MAX_ENCODE_QUEUE = 8;
+
+// H.264 profiles to try, best first (High, Main, Baseline). Level 4.0 covers
+// 1080p; the level 3.1 Baseline fallback only fits up to 720p.
+const AVC_CODECS = ["avc1.640028", "avc1.4d0028", "avc1.420028", "avc1.42001f"];
+
+// AnalyserNode defaults, reproduced so the visualizer matches the realtime path
+const SMOOTHING = 0.8;
+const MIN_DB = -100;
+const MAX_DB = -30;
+
+/**
+ * True when the browser exposes WebCodecs (Chrome/Edge 94+, Safari 16.4+)
+ */
+export const isOfflineRenderSupported = (): boolean => {
+  return typeof VideoEncoder !== "undefined" && typeof AudioEncoder !== "undefined" && typeof VideoFrame !== "undefined";
+};
+
+/**
+ * Small seeded PRNG (mulberry32) so particles are identical on every run
+ */
+export const createSeededRandom = (seedText: string) => {
+  let seed = 0;
+  for (let i = 0; i < seedText.length; i++) seed = (Math.imul(31, seed) + seedText.charCodeAt(i)) | 0;
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Offline equivalent of AnalyserNode.getByteFrequencyData: Blackman window,
+ * DFT, temporal smoothing and dB -> byte mapping, all per the Web Audio spec.
+ */
+export const createSpectrumAnalyser = (samples: Float32Array, sampleRate: number) => {
+  const size = VISUALIZER_FFT_SIZE;
+  const bins = size / 2;
+  const blackman = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    blackman[i] = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / size) + 0.08 * Math.cos((4 * Math.PI * i) / size);
+  }
+  const smoothed = new Float32Array(bins);
+  const output = new Uint8Array(bins);
+
+  return (time: number): Uint8Array => {
+    const end = Math.min(Math.floor(time * sampleRate), samples.length);
+    const start = end - size;
+
+    for (let k = 0; k < bins; k++) {
+      let re = 0;
+      let im = 0;
+      for (let n = 0; n < size; n++) {
+        const index = start + n;
+        const value = index >= 0 && index < samples.length ? samples[index] * blackman[n] : 0;
+        const angle = (2 * Math.PI * k * n) / size;
+        re += value * Math.cos(angle);
+        im -= value * Math.sin(angle);
+      }
+      const magnitude = Math.sqrt(re * re + im * im) / size;
+      smoothed[k] = SMOOTHING * smoothed[k] + (1 - SMOOTHING) * magnitude;
+
+      const db = 20 * Math.log10(smoothed[k] || 1e-12);
+      const scaled = (255 * (db - MIN_DB)) / (MAX_DB - MIN_DB);
+      output[k] = Math.max(0, Math.min(255, Math.floor(scaled)));
+    }
+    return output;
+  };
+};
+
+/**
+ * Decodes narration or music at the encoder sample rate
+ */
+const decodeAudio = async (audioUrl: string): Promise<AudioBuffer> => {
+  const response = await fetch(audioUrl);
+  const bytes = await response.arrayBuffer();
+  const ctx = new OfflineAudioContext(1, 1, AUDIO_SAMPLE_RATE);
+  return await ctx.decodeAudioData(bytes);
+};
+
+const pickVideoConfig = async (format: OutputFormat): Promise<VideoEncoderConfig> => {
+  for (const codec of AVC_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width: format.width,
+      height: format.height,
+      bitrate: VIDEO_BITRATE,
+      framerate: FPS,
+      avc: { format: "avc" }
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return config;
+  }
+  throw new Error("H.264 encoding is not supported by this browser");
+};
+
+/**
+ * Resolves once the encoder has room for more work. Uses the `dequeue`
+ * event instead of timers, which background tabs throttle.
+ */
+const waitForEncoder = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise<void>(resolve => encoder.addEventListener("dequeue", () => resolve(), { once: true }));
+  }
+};
+
+/**
+ * Renders the video frame by frame from the decoded audio and encodes it
+ * with WebCodecs into an MP4. Faster than realtime, independent of tab focus,
+ * and the same output on every run.
+ */
+export const renderVideoOffline = async (
+  reading: ReadingContent,
+  asset: GeneratedAsset,
+  template?: VideoTemplate,
+  format: OutputFormat = DEFAULT_OUTPUT_FORMAT,
+  music?: MusicBed | null,
+  signal?: AbortSignal,
+  onProgress?: (progress: Progress) => void
+): Promise<string> => {
+  if (!asset.imageUrls || asset.imageUrls.length === 0 || !asset.audioUrl) throw new Error("Missing assets");
+  if (!isOfflineRenderSupported()) throw new Error("WebCodecs not available");
+  await document.fonts.ready;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = format.width;
+  canvas.height = format.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas context not available");
+
+  const [bgImages, narration, musicTrack, videoConfig] = await Promise.all([
+    Promise.all(asset.imageUrls.map(url => loadImage(url))),
+    decodeAudio(asset.audioUrl),
+    music ? decodeAudio(music.url) : Promise.resolve(null),
+    pickVideoConfig(format)
+  ]);
+
+  // Narration + silent tail, with the music bed mixed under it
+  const duration = narration.duration;
+  const totalDuration = duration + END_TAIL_SECONDS;
+  const totalSamples = Math.ceil(totalDuration * AUDIO_SAMPLE_RATE);
+  // Optional cover before the narration: silent, the audio starts after it
+  const intro = template?.coverIntro || 0;
+  const introSamples = Math.round(intro * AUDIO_SAMPLE_RATE);
+  const voice = Array.from({ length: narration.numberOfChannels }, (_, c) => narration.getChannelData(c));
+  const channels = musicTrack && music
+    ? mixMusic(
+      voice,
+      Array.from({ length: musicTrack.numberOfChannels }, (_, c) => musicTrack.getChannelData(c)),
+      AUDIO_SAMPLE_RATE,
+      totalSamples,
+      computeMusicEnvelope(voice[0], AUDIO_SAMPLE_RATE, totalDuration, music.volume)
+    )
+    : voice;
+
+  const numberOfChannels = channels.length;
+  const audioConfig: AudioEncoderConfig = {
+    codec: "mp4a.40.2", // AAC-LC
+    sampleRate: AUDIO_SAMPLE_RATE,
+    numberOfChannels,
+    bitrate: AUDIO_BITRATE
+  };
+  const { supported: audioSupported } = await AudioEncoder.isConfigSupported(audioConfig);
+  if (!audioSupported) throw new Error("AAC encoding is not supported by this browser");
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: "avc", width: format.width, height: format.height, frameRate: FPS },
+    audio: { codec: "aac", numberOfChannels, sampleRate: AUDIO_SAMPLE_RATE },
+    fastStart: "in-memory"
+  });
+
+  let encodeError: unknown = null;
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: e => { encodeError = e; }
+  });
+  videoEncoder.configure(videoConfig);
+
+  const audioEncoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: e => { encodeError = e; }
+  });
+  audioEncoder.configure(audioConfig);
+
+  try {
+    // --- AUDIO TRACK ---
+    for (let offset = 0; offset < introSamples + totalSamples; offset += AUDIO_CHUNK_FRAMES) {
+      signal?.throwIfAborted();
+      if (encodeError) throw encodeError;
+      const frames = Math.min(AUDIO_CHUNK_FRAMES, introSamples + totalSamples - offset);
+      const planar = new Float32Array(frames * numberOfChannels);
+      channels.forEach((channel, c) => {
+        const start = Math.max(0, offset - introSamples);
+        const end = Math.min(offset + frames - introSamples, channel.length);
+        if (end > start) planar.set(channel.subarray(start, end), c * frames + (start + introSamples - offset));
+      });
+      const data = new AudioData({
+        format: "f32-planar",
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfFrames: frames,
+        numberOfChannels,
+        timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1e6),
+        data: planar
+      });
+      audioEncoder.encode(data);
+      data.close();
+      await waitForEncoder(audioEncoder);
+    }
+
+    // --- VIDEO TRACK (fixed timestep) ---
+    const renderFrame = createFrameRenderer(ctx, reading, asset, bgImages, createSeededRandom(reading.id), template, format);
+    const renderCover = createCoverRenderer(ctx, reading, asset, bgImages, template, format);
+    // The visualizer follows the voice only, as in the realtime path
+    const getSpectrum = createSpectrumAnalyser(voice[0], AUDIO_SAMPLE_RATE);
+    const totalFrames = Math.ceil((intro + totalDuration) * FPS);
+    const frameDuration = 1e6 / FPS;
+
+    // The audio track is a small share of the work; frames drive the estimate
+    const reportProgress = onProgress ? createProgressTracker(onProgress) : null;
+    for (let i = 0; i < totalFrames; i++) {
+      signal?.throwIfAborted();
+      if (encodeError) throw encodeError;
+      reportProgress?.(i / totalFrames);
+      const time = i / FPS - intro;
+      const audioTime = Math.min(time, duration);
+
+      if (time < 0) {
+        renderCover();
+      } else {
+        renderFrame({
+          currentTime: audioTime,
+          duration,
+          frequencyData: getSpectrum(time),
+          deltaTime: 1 / FPS
+        });
+      }
+
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration) });
+      videoEncoder.encode(frame, { keyFrame: i % KEYFRAME_INTERVAL === 0 });
+      frame.close();
+      await waitForEncoder(videoEncoder);
+    }
+
+    await Promise.all([videoEncoder.flush(), audioEncoder.flush()]);
+    if (encodeError) throw encodeError;
+    muxer.finalize();
+    reportProgress?.(1);
+
+    const blob = new Blob([muxer.target.buffer], { type: "video/mp4" });
+    return URL.createObjectURL(blob);
+  } finally {
+    if (videoEncoder.state !== "closed") videoEncoder.close();
+    if (audioEncoder.state !== "closed") audioEncoder.close();
+  }
+};
@@ -0,0 +1,55 @@
+import { OutputFormatId } from "../types";
+
+/**
+ * A video size to render. Every format of a job is drawn from the same
+ * images and narration; the template is fitted to each one at render time.
+ */
+export interface OutputFormat {
+  id: OutputFormatId;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Size asked from image providers
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export const OUTPUT_FORMATS: OutputFormat[] = [
+  { id: 'vertical_hd', label: '9:16 · 720x1280 (Shorts/Reels/TikTok, rápido)', width: 720, height: 1280 },
+  { id: 'vertical', label: '9:16 · 1080x1920 (Shorts/Reels/TikTok)', width: 1080, height: 1920 },
+  { id: 'portrait', label: '4:5 · 1080x1350 (Instagram feed)', width: 1080, height: 1350 },
+  { id: 'square', label: '1:1 · 1080x1080 (Instagram feed)', width: 1080, height: 1080 },
+  { id: 'landscape', label: '16:9 · 1920x1080 (YouTube)', width: 1920, height: 1080 }
+];
+
+export const DEFAULT_OUTPUT_FORMAT = OUTPUT_FORMATS[0];
+
+// Larger images only cost generation time; cap what providers are asked for
+const MAX_IMAGE_SIDE = 1536;
+
+/**
+ * Formats for a list of ids, in list order. Unknown ids are skipped and an
+ * empty list falls back to the default format.
+ */
+export const resolveOutputFormats = (ids: string[]): OutputFormat[] => {
+  const formats = ids
+    .map(id => OUTPUT_FORMATS.find(format => format.id === id))
+    .filter((format): format is OutputFormat => !!format);
+  return formats.length > 0 ? formats : [DEFAULT_OUTPUT_FORMAT];
+};
+
+/**
+ * Image size to request so one set of scenes covers every format: 9:16 when
+ * all formats are vertical, square otherwise (cropped to each ratio).
+ */
+export const getImageRequestSize = (formats: OutputFormat[]): ImageSize => {
+  const longest = Math.min(MAX_IMAGE_SIDE, Math.max(...formats.map(f => Math.max(f.width, f.height))));
+  if (formats.every(f => f.height > f.width)) {
+    const height = Math.min(longest, Math.max(...formats.map(f => f.height)));
+    return { width: Math.round(height * 9 / 16), height };
+  }
+  return { width: longest, height: longest };
+};
@@ -0,0 +1,49 @@
+/**
+ * Progress of a long step (render, images, narration): fraction done, time
+ * spent and an estimate of the time left, extrapolated from the pace so far.
+ */
+export interface Progress {
+  fraction: number; // 0..1
+  elapsed: number; // Seconds since the step started
+  remaining: number | null; // Seconds; null until there is enough to go on
+}
+
+// Below this the pace is mostly startup cost, not worth extrapolating
+const MIN_FRACTION_FOR_ESTIMATE = 0.02;
+// Callers report every frame; listeners get at most a few updates a second
+const REPORT_INTERVAL_MS = 250;
+
+export const estimateRemaining = (elapsed: number, fraction: number): number | null =>
+  fraction >= MIN_FRACTION_FOR_ESTIMATE ? elapsed * (1 - fraction) / fraction : null;
+
+/**
+ * Turns raw fractions into throttled Progress reports, timed from creation.
+ * The final report (fraction 1) always goes through.
+ */
+export const createProgressTracker = (onProgress: (progress: Progress) => void, interval: number = REPORT_INTERVAL_MS) => {
+  const startedAt = Date.now();
+  let lastReport = -Infinity;
+
+  return (fraction: number) => {
+    const now = Date.now();
+    const clamped = Math.min(1, Math.max(0, fraction));
+    if (clamped < 1 && now - lastReport < interval) return;
+    lastReport = now;
+
+    const elapsed = (now - startedAt) / 1000;
+    onProgress({ fraction: clamped, elapsed, remaining: estimateRemaining(elapsed, clamped) });
+  };
+};
+
+// m:ss
+export const formatSeconds = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+};
+
+// "42% · 0:31 · quedan ~0:43"
+export const formatProgress = (progress: Progress): string => {
+  const parts = [`${Math.floor(progress.fraction * 100)}%`, formatSeconds(progress.elapsed)];
+  if (progress.remaining !== null) parts.push(`quedan ~${formatSeconds(progress.remaining)}`);
+  return parts.join(" · ");
+};
@@ -0,0 +1,97 @@
+import { ReadingContent } from "../types";
+import { extractPsalmRefrain } from "./liturgyService";
+import { tokenizeWords } from "./wordTimingService";
+
+export interface PsalmStructure {
+  refrain: string;
+  stanzas: string[];
+}
+
+/**
+ * Where each narrated word belongs: the refrain banner or the stanza text
+ */
+export interface PsalmWord {
+  part: 'refrain' | 'stanza';
+  index: number; // Word index within the refrain, or within all stanza words
+}
+
+export interface PsalmLayout extends PsalmStructure {
+  script: string; // What the narrator says: R, stanza 1, R, stanza 2, ..., R
+  words: PsalmWord[]; // One entry per word of `script`
+}
+
+const REFRAIN_MARKER = /(?:^|\s)R\/?\.(?=\s|$)/;
+
+const normalize = (text: string) => text
+  .normalize("NFD")
+  .replace(/[\u0300-\u036f]/g, "")
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, " ")
+  .trim();
+
+/**
+ * Removes the refrain when a segment starts by repeating it after "R."
+ */
+const stripLeadingRefrain = (segment: string, refrain: string): string => {
+  const words = tokenizeWords(segment);
+  const refrainLength = tokenizeWords(refrain).length;
+  const head = words.slice(0, refrainLength).join(" ");
+  if (normalize(head) !== normalize(refrain)) return segment.trim();
+  // Drop the first words but keep the line breaks that separate stanzas
+  return segment.trim().replace(new RegExp(`^(?:\\S+\\s*){${refrainLength}}`), "");
+};
+
+/**
+ * Splits a responsorial psalm into refrain + stanzas. Stanzas are the text
+ * between "R." markers; when the refrain is only marked once, blank lines
+ * separate them. Returns null when there is no refrain to work with.
+ */
+export const parsePsalm = (text: string, refrain?: string): PsalmStructure | null => {
+  const response = refrain || extractPsalmRefrain(text);
+  if (!response) return null;
+
+  const segments = text.split(REFRAIN_MARKER)
+    .map(segment => stripLeadingRefrain(segment, response))
+    .filter(segment => segment.length > 0);
+
+  const stanzas = segments.length === 1
+    ? segments[0].split(/\n\s*\n/).map(s => s.trim()).filter(s => s.length > 0)
+    : segments;
+
+  return stanzas.length > 0 ? { refrain: response, stanzas } : null;
+};
+
+/**
+ * Psalm readings get the responsorial layout; anything else returns null
+ */
+export const getPsalmLayout = (reading: ReadingContent): PsalmLayout | null => {
+  if (reading.type !== 'psalm') return null;
+  const structure = parsePsalm(reading.text, reading.psalmRefrain);
+  if (!structure) return null;
+
+  const refrainWords = tokenizeWords(structure.refrain);
+  const parts: string[] = [];
+  const words: PsalmWord[] = [];
+  const pushRefrain = () => {
+    parts.push(structure.refrain);
+    refrainWords.forEach((_, index) => words.push({ part: 'refrain', index }));
+  };
+
+  let stanzaWordIndex = 0;
+  pushRefrain();
+  structure.stanzas.forEach(stanza => {
+    parts.push(stanza);
+    tokenizeWords(stanza).forEach(() => words.push({ part: 'stanza', index: stanzaWordIndex++ }));
+    pushRefrain();
+  });
+
+  return { ...structure, script: parts.join("\n"), words };
+};
+
+/**
+ * The text the narrator reads (and word timings are aligned to).
+ * Psalms repeat the refrain between stanzas, as at Mass.
+ */
+export const getNarrationText = (reading: ReadingContent): string => {
+  return getPsalmLayout(reading)?.script ?? reading.text;
+};
@@ -0,0 +1,429 @@
+import { PlatformId, PostMetadata, PublishStatus } from "../types";
+
+/**
+ * Platform APIs used by the publish server (cli/publishServer.ts): YouTube
+ * Data API for Shorts, Meta Graph API for Instagram and Facebook Reels, and
+ * TikTok Content Posting API. Plain fetch so they run in Node; OAuth tokens
+ * stay on the server and never reach the browser.
+ */
+
+export type PublishAccountId = 'youtube' | 'meta' | 'tiktok';
+
+export interface PublishTarget {
+  platform: PlatformId;
+  account: PublishAccountId; // One Meta login serves Instagram and Facebook
+  label: string;
+  nativeScheduling: boolean; // Otherwise the publish server holds the video until its time
+}
+
+export const PUBLISH_TARGETS: PublishTarget[] = [
+  { platform: 'shorts', account: 'youtube', label: "YouTube Shorts", nativeScheduling: true },
+  { platform: 'reels', account: 'meta', label: "Instagram Reels", nativeScheduling: false },
+  { platform: 'facebook', account: 'meta', label: "Facebook Reels", nativeScheduling: true },
+  { platform: 'tiktok', account: 'tiktok', label: "TikTok", nativeScheduling: false }
+];
+
+export const PUBLISH_ACCOUNTS: { id: PublishAccountId; label: string }[] = [
+  { id: 'youtube', label: "YouTube" },
+  { id: 'meta', label: "Meta (Instagram + Facebook)" },
+  { id: 'tiktok', label: "TikTok" }
+];
+
+export const getPublishTarget = (platform: PlatformId): PublishTarget => PUBLISH_TARGETS.find(t => t.platform === platform)!;
+
+// Base URLs; the mock server (cli/mockPlatforms.ts) stands in for all of them
+export interface PublishEndpoints {
+  googleApi: string;
+  googleOAuth: string;
+  googleAuthorize: string;
+  graph: string;
+  rupload: string;
+  facebookAuthorize: string;
+  tiktokApi: string;
+  tiktokAuthorize: string;
+}
+
+export const GRAPH_VERSION = "v21.0";
+
+export const PLATFORM_ENDPOINTS: PublishEndpoints = {
+  googleApi: "https://www.googleapis.com",
+  googleOAuth: "https://oauth2.googleapis.com",
+  googleAuthorize: "https://accounts.google.com/o/oauth2/v2/auth",
+  graph: "https://graph.facebook.com",
+  rupload: "https://rupload.facebook.com",
+  facebookAuthorize: `https://www.facebook.com/${GRAPH_VERSION}/dialog/oauth`,
+  tiktokApi: "https://open.tiktokapis.com",
+  tiktokAuthorize: "https://www.tiktok.com/v2/auth/authorize/"
+};
+
+export const getMockEndpoints = (origin: string): PublishEndpoints => ({
+  googleApi: origin,
+  googleOAuth: origin,
+  googleAuthorize: `${origin}/oauth/authorize`,
+  graph: origin,
+  rupload: origin,
+  facebookAuthorize: `${origin}/oauth/authorize`,
+  tiktokApi: origin,
+  tiktokAuthorize: `${origin}/oauth/authorize`
+});
+
+// --- OAUTH ---
+
+export interface OAuthClient {
+  clientId: string; // TikTok calls it client_key, Meta app id
+  clientSecret: string;
+}
+
+export interface AccountToken {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number; // Epoch ms
+  // Meta: the Page and Instagram professional account the token posts to
+  pageId?: string;
+  pageAccessToken?: string;
+  instagramUserId?: string;
+}
+
+const OAUTH_SCOPES: Record<PublishAccountId, string> = {
+  youtube: "https://www.googleapis.com/auth/youtube.upload https://www.googleapis.com/auth/youtube.readonly",
+  meta: "instagram_basic,instagram_content_publish,pages_show_list,pages_read_engagement,pages_manage_posts,publish_video",
+  tiktok: "video.upload,video.publish"
+};
+
+// Refresh a minute early so an upload never starts with a dying token
+const EXPIRY_MARGIN = 60_000;
+
+/**
+ * Fails with the platform's own error text, which usually says what to fix
+ */
+const request = async (label: string, url: string, init: RequestInit = {}): Promise<Response> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`${label}: HTTP ${response.status} ${body.slice(0, 300)}`.trim());
+  }
+  return response;
+};
+
+const requestJson = async (label: string, url: string, init?: RequestInit) => (await request(label, url, init)).json();
+
+const form = (fields: Record<string, string>) => ({
+  method: "POST",
+  headers: { "Content-Type": "application/x-www-form-urlencoded" },
+  body: new URLSearchParams(fields).toString()
+});
+
+const toToken = (data: any): AccountToken => ({
+  accessToken: data.access_token,
+  refreshToken: data.refresh_token,
+  expiresAt: data.expires_in ? Date.now() + Number(data.expires_in) * 1000 : undefined
+});
+
+export const getAuthorizeUrl = (
+  account: PublishAccountId,
+  endpoints: PublishEndpoints,
+  client: OAuthClient,
+  redirectUri: string,
+  state: string
+): string => {
+  switch (account) {
+    case 'youtube':
+      return `${endpoints.googleAuthorize}?${new URLSearchParams({
+        client_id: client.clientId, redirect_uri: redirectUri, response_type: "code", scope: OAUTH_SCOPES.youtube,
+        access_type: "offline", prompt: "consent", state
+      })}`;
+    case 'meta':
+      return `${endpoints.facebookAuthorize}?${new URLSearchParams({
+        client_id: client.clientId, redirect_uri: redirectUri, response_type: "code", scope: OAUTH_SCOPES.meta, state
+      })}`;
+    case 'tiktok':
+      return `${endpoints.tiktokAuthorize}?${new URLSearchParams({
+        client_key: client.clientId, redirect_uri: redirectUri, response_type: "code", scope: OAUTH_SCOPES.tiktok, state
+      })}`;
+  }
+};
+
+/**
+ * Meta tokens belong to a user; posting needs the Page token and the linked
+ * Instagram account. The first Page of the login is used.
+ */
+const resolveMetaAccounts = async (endpoints: PublishEndpoints, token: AccountToken): Promise<AccountToken> => {
+  const pages = await requestJson("Meta /me/accounts", `${endpoints.graph}/${GRAPH_VERSION}/me/accounts?${new URLSearchParams({
+    fields: "id,access_token,instagram_business_account", access_token: token.accessToken
+  })}`);
+  const page = pages.data?.[0];
+  if (!page) throw new Error("La cuenta de Meta no administra ninguna página de Facebook.");
+  return { ...token, pageId: page.id, pageAccessToken: page.access_token, instagramUserId: page.instagram_business_account?.id };
+};
+
+export const exchangeCode = async (
+  account: PublishAccountId,
+  endpoints: PublishEndpoints,
+  client: OAuthClient,
+  code: string,
+  redirectUri: string
+): Promise<AccountToken> => {
+  switch (account) {
+    case 'youtube':
+      return toToken(await requestJson("Google OAuth", `${endpoints.googleOAuth}/token`, form({
+        code, client_id: client.clientId, client_secret: client.clientSecret, redirect_uri: redirectUri, grant_type: "authorization_code"
+      })));
+    case 'meta': {
+      const token = toToken(await requestJson("Meta OAuth", `${endpoints.graph}/${GRAPH_VERSION}/oauth/access_token?${new URLSearchParams({
+        client_id: client.clientId, client_secret: client.clientSecret, redirect_uri: redirectUri, code
+      })}`));
+      return resolveMetaAccounts(endpoints, token);
+    }
+    case 'tiktok':
+      return toToken(await requestJson("TikTok OAuth", `${endpoints.tiktokApi}/v2/oauth/token/`, form({
+        client_key: client.clientId, client_secret: client.clientSecret, code, grant_type: "authorization_code", redirect_uri: redirectUri
+      })));
+  }
+};
+
+/**
+ * The token itself while it is still valid, a refreshed one otherwise
+ */
+export const ensureFreshToken = async (
+  account: PublishAccountId,
+  endpoints: PublishEndpoints,
+  client: OAuthClient,
+  token: AccountToken
+): Promise<AccountToken> => {
+  if (!token.expiresAt || token.expiresAt - EXPIRY_MARGIN > Date.now()) return token;
+
+  switch (account) {
+    case 'youtube': {
+      if (!token.refreshToken) throw new Error("El token de YouTube caducó. Vuelve a conectar la cuenta.");
+      const fresh = toToken(await requestJson("Google OAuth", `${endpoints.googleOAuth}/token`, form({
+        client_id: client.clientId, client_secret: client.clientSecret, refresh_token: token.refreshToken, grant_type: "refresh_token"
+      })));
+      return { ...token, ...fresh, refreshToken: fresh.refreshToken || token.refreshToken };
+    }
+    case 'meta': {
+      // Meta has no refresh token: a valid token is swapped for a long-lived one
+      if (token.expiresAt < Date.now()) throw new Error("El token de Meta caducó. Vuelve a conectar la cuenta.");
+      const fresh = toToken(await requestJson("Meta OAuth", `${endpoints.graph}/${GRAPH_VERSION}/oauth/access_token?${new URLSearchParams({
+        grant_type: "fb_exchange_token", client_id: client.clientId, client_secret: client.clientSecret, fb_exchange_token: token.accessToken
+      })}`));
+      return resolveMetaAccounts(endpoints, fresh);
+    }
+    case 'tiktok': {
+      if (!token.refreshToken) throw new Error("El token de TikTok caducó. Vuelve a conectar la cuenta.");
+      const fresh = toToken(await requestJson("TikTok OAuth", `${endpoints.tiktokApi}/v2/oauth/token/`, form({
+        client_key: client.clientId, client_secret: client.clientSecret, refresh_token: token.refreshToken, grant_type: "refresh_token"
+      })));
+      return { ...token, ...fresh, refreshToken: fresh.refreshToken || token.refreshToken };
+    }
+  }
+};
+
+// --- PUBLISHING ---
+
+export interface PublishRequest {
+  video: Uint8Array<ArrayBuffer>; // MP4
+  metadata: PostMetadata;
+  scheduledAt?: string; // ISO; only for targets with native scheduling
+}
+
+export interface PublishResult {
+  status: PublishStatus;
+  remoteId: string;
+  url?: string;
+  scheduledAt?: string;
+  error?: string;
+}
+
+// Instagram containers are processed before they can be published
+const CONTAINER_POLL_MS = 5000;
+const CONTAINER_POLL_ATTEMPTS = 60;
+
+// TikTok takes a whole file as one chunk up to 64 MB
+const TIKTOK_MAX_SINGLE_CHUNK = 64 * 1024 * 1024;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toCaption = (metadata: PostMetadata) => [metadata.description, metadata.hashtags.join(" ")].filter(Boolean).join("\n\n");
+
+const bearer = (accessToken: string) => ({ Authorization: `Bearer ${accessToken}` });
+
+const JSON_TYPE = { "Content-Type": "application/json; charset=UTF-8" };
+
+const publishShorts = async (endpoints: PublishEndpoints, token: AccountToken, { video, metadata, scheduledAt }: PublishRequest): Promise<PublishResult> => {
+  // Resumable upload: the metadata first, then the bytes to the session URL
+  const session = await request("YouTube upload", `${endpoints.googleApi}/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status`, {
+    method: "POST",
+    headers: { ...bearer(token.accessToken), ...JSON_TYPE, "X-Upload-Content-Type": "video/mp4", "X-Upload-Content-Length": String(video.length) },
+    body: JSON.stringify({
+      snippet: { title: metadata.title, description: toCaption(metadata), tags: metadata.hashtags.map(tag => tag.replace(/^#/, "")) },
+      status: { privacyStatus: scheduledAt ? "private" : "public", publishAt: scheduledAt, selfDeclaredMadeForKids: false }
+    })
+  });
+  const location = session.headers.get("Location");
+  if (!location) throw new Error("YouTube upload: la respuesta no trae la URL de subida.");
+
+  const uploaded = await requestJson("YouTube upload", location, {
+    method: "PUT",
+    headers: { ...bearer(token.accessToken), "Content-Type": "video/mp4" },
+    body: video
+  });
+  return { status: scheduledAt ? 'scheduled' : 'processing', remoteId: uploaded.id, url: `https://youtube.com/shorts/${uploaded.id}`, scheduledAt };
+};
+
+const publishInstagramReel = async (endpoints: PublishEndpoints, token: AccountToken, { video, metadata }: PublishRequest): Promise<PublishResult> => {
+  if (!token.instagramUserId) throw new Error("La página de Facebook no tiene una cuenta profesional de Instagram vinculada.");
+  const graph = `${endpoints.graph}/${GRAPH_VERSION}`;
+
+  const container = await requestJson("Instagram container", `${graph}/${token.instagramUserId}/media`, {
+    method: "POST",
+    headers: { ...bearer(token.accessToken), ...JSON_TYPE },
+    body: JSON.stringify({ media_type: "REELS", upload_type: "resumable", caption: toCaption(metadata), share_to_feed: true })
+  });
+  await request("Instagram upload", `${endpoints.rupload}/ig-api-upload/${GRAPH_VERSION}/${container.id}`, {
+    method: "POST",
+    headers: { Authorization: `OAuth ${token.accessToken}`, offset: "0", file_size: String(video.length) },
+    body: video
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    const { status_code: state } = await requestJson("Instagram container", `${graph}/${container.id}?fields=status_code`, { headers: bearer(token.accessToken) });
+    if (state === "FINISHED") break;
+    if (state === "ERROR" || state === "EXPIRED") throw new Error(`Instagram no pudo procesar el video (${state}).`);
+    if (attempt >= CONTAINER_POLL_ATTEMPTS) throw new Error("Instagram tarda demasiado en procesar el video.");
+    await wait(CONTAINER_POLL_MS);
+  }
+
+  const published = await requestJson("Instagram publish", `${graph}/${token.instagramUserId}/media_publish`, {
+    method: "POST",
+    headers: { ...bearer(token.accessToken), ...JSON_TYPE },
+    body: JSON.stringify({ creation_id: container.id })
+  });
+  const { permalink } = await requestJson("Instagram media", `${graph}/${published.id}?fields=permalink`, { headers: bearer(token.accessToken) });
+  return { status: 'published', remoteId: published.id, url: permalink };
+};
+
+const publishFacebookReel = async (endpoints: PublishEndpoints, token: AccountToken, { video, metadata, scheduledAt }: PublishRequest): Promise<PublishResult> => {
+  if (!token.pageId) throw new Error("La cuenta de Meta no tiene una página de Facebook.");
+  const pageToken = token.pageAccessToken || token.accessToken;
+  const reels = `${endpoints.graph}/${GRAPH_VERSION}/${token.pageId}/video_reels`;
+
+  const start = await requestJson("Facebook reel", reels, {
+    method: "POST",
+    headers: JSON_TYPE,
+    body: JSON.stringify({ upload_phase: "start", access_token: pageToken })
+  });
+  await request("Facebook upload", start.upload_url, {
+    method: "POST",
+    headers: { Authorization: `OAuth ${pageToken}`, offset: "0", file_size: String(video.length) },
+    body: video
+  });
+  await requestJson("Facebook reel", reels, {
+    method: "POST",
+    headers: JSON_TYPE,
+    body: JSON.stringify({
+      upload_phase: "finish",
+      video_id: start.video_id,
+      video_state: scheduledAt ? "SCHEDULED" : "PUBLISHED",
+      ...(scheduledAt && { scheduled_publish_time: Math.floor(new Date(scheduledAt).getTime() / 1000) }),
+      title: metadata.title,
+      description: toCaption(metadata),
+      access_token: pageToken
+    })
+  });
+  return { status: scheduledAt ? 'scheduled' : 'processing', remoteId: start.video_id, url: `https://www.facebook.com/reel/${start.video_id}`, scheduledAt };
+};
+
+// TikTok answers 200 with an error object on many failures
+const requestTikTok = async (label: string, url: string, init: RequestInit) => {
+  const data = await requestJson(label, url, init);
+  if (data.error && data.error.code !== "ok") throw new Error(`${label}: ${data.error.code} ${data.error.message || ""}`.trim());
+  return data.data;
+};
+
+const publishTikTok = async (endpoints: PublishEndpoints, token: AccountToken, { video, metadata }: PublishRequest): Promise<PublishResult> => {
+  if (video.length > TIKTOK_MAX_SINGLE_CHUNK) throw new Error("El video supera los 64 MB que TikTok acepta en una sola parte.");
+
+  const init = await requestTikTok("TikTok init", `${endpoints.tiktokApi}/v2/post/publish/video/init/`, {
+    method: "POST",
+    headers: { ...bearer(token.accessToken), ...JSON_TYPE },
+    body: JSON.stringify({
+      post_info: { title: `${metadata.title}\n\n${toCaption(metadata)}`, privacy_level: "PUBLIC_TO_EVERYONE", disable_comment: false, disable_duet: false, disable_stitch: false },
+      source_info: { source: "FILE_UPLOAD", video_size: video.length, chunk_size: video.length, total_chunk_count: 1 }
+    })
+  });
+  await request("TikTok upload", init.upload_url, {
+    method: "PUT",
+    headers: { "Content-Type": "video/mp4", "Content-Range": `bytes 0-${video.length - 1}/${video.length}` },
+    body: video
+  });
+  return { status: 'processing', remoteId: init.publish_id };
+};
+
+export const publishToPlatform = async (
+  platform: PlatformId,
+  endpoints: PublishEndpoints,
+  token: AccountToken,
+  publishRequest: PublishRequest
+): Promise<PublishResult> => {
+  switch (platform) {
+    case 'shorts': return publishShorts(endpoints, token, publishRequest);
+    case 'reels': return publishInstagramReel(endpoints, token, publishRequest);
+    case 'facebook': return publishFacebookReel(endpoints, token, publishRequest);
+    case 'tiktok': return publishTikTok(endpoints, token, publishRequest);
+  }
+};
+
+/**
+ * Where a published video stands now (processing, live, scheduled, failed)
+ */
+export const fetchPlatformStatus = async (
+  platform: PlatformId,
+  endpoints: PublishEndpoints,
+  token: AccountToken,
+  remoteId: string
+): Promise<PublishResult> => {
+  switch (platform) {
+    case 'shorts': {
+      const data = await requestJson("YouTube status", `${endpoints.googleApi}/youtube/v3/videos?part=status&id=${encodeURIComponent(remoteId)}`, {
+        headers: bearer(token.accessToken)
+      });
+      const status = data.items?.[0]?.status;
+      const url = `https://youtube.com/shorts/${remoteId}`;
+      if (!status) return { status: 'failed', remoteId, error: "El video ya no existe en YouTube." };
+      if (["failed", "rejected", "deleted"].includes(status.uploadStatus)) {
+        return { status: 'failed', remoteId, url, error: status.failureReason || status.rejectionReason || status.uploadStatus };
+      }
+      if (status.privacyStatus === "private" && status.publishAt) return { status: 'scheduled', remoteId, url, scheduledAt: status.publishAt };
+      return { status: status.uploadStatus === "processed" ? 'published' : 'processing', remoteId, url };
+    }
+    case 'reels': {
+      const { permalink } = await requestJson("Instagram media", `${endpoints.graph}/${GRAPH_VERSION}/${remoteId}?fields=permalink`, {
+        headers: bearer(token.accessToken)
+      });
+      return { status: 'published', remoteId, url: permalink };
+    }
+    case 'facebook': {
+      const { status } = await requestJson("Facebook video", `${endpoints.graph}/${GRAPH_VERSION}/${remoteId}?${new URLSearchParams({
+        fields: "status", access_token: token.pageAccessToken || token.accessToken
+      })}`);
+      const url = `https://www.facebook.com/reel/${remoteId}`;
+      if (status?.video_status === "error") return { status: 'failed', remoteId, url, error: "Facebook no pudo procesar el video." };
+      if (status?.publishing_phase?.publish_status === "scheduled") return { status: 'scheduled', remoteId, url };
+      return { status: status?.publishing_phase?.publish_status === "published" ? 'published' : 'processing', remoteId, url };
+    }
+    case 'tiktok': {
+      const data = await requestTikTok("TikTok status", `${endpoints.tiktokApi}/v2/post/publish/status/fetch/`, {
+        method: "POST",
+        headers: { ...bearer(token.accessToken), ...JSON_TYPE },
+        body: JSON.stringify({ publish_id: remoteId })
+      });
+      if (data.status === "FAILED") return { status: 'failed', remoteId, error: data.fail_reason };
+      const postId = data.publicaly_available_post_id?.[0];
+      return {
+        status: data.status === "PUBLISH_COMPLETE" ? 'published' : 'processing',
+        remoteId,
+        url: postId ? `https://www.tiktok.com/video/${postId}` : undefined
+      };
+    }
+  }
+};
@@ -0,0 +1,74 @@
+import { GeneratedAsset, OutputFormatId, PlatformId, PostMetadata, PublishRecord } from "../types";
+import { PublishAccountId } from "./publishAdapters";
+
+/**
+ * Browser side of publishing. Tokens never reach the app: the publish server
+ * (cli/publishServer.ts, proxied at /api/publish) holds them and talks to the
+ * platforms.
+ */
+
+const BASE = "/api/publish";
+
+export interface PublishAccount {
+  id: PublishAccountId;
+  label: string;
+  connected: boolean;
+  expiresAt?: number;
+}
+
+// Every target takes vertical video; the sharpest one rendered goes up
+const PREFERRED_FORMATS: OutputFormatId[] = ['vertical', 'vertical_hd', 'portrait', 'square', 'landscape'];
+
+const request = async (path: string, init?: RequestInit) => {
+  let response: Response;
+  try {
+    response = await fetch(`${BASE}${path}`, init);
+  } catch (error) {
+    if (init?.signal?.aborted) throw error;
+    throw new Error("No se pudo contactar con el servidor de publicación (npm run publish-server).");
+  }
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(data?.error || `Servidor de publicación HTTP ${response.status}`);
+  return data;
+};
+
+const toRecord = (result: any): PublishRecord => ({
+  status: result.status,
+  remoteId: result.remoteId,
+  url: result.url,
+  scheduledAt: result.scheduledAt,
+  error: result.error,
+  updatedAt: new Date().toISOString()
+});
+
+export const fetchAccounts = async (): Promise<PublishAccount[]> => request("/accounts");
+
+// Opened in a new tab; the server redirects to the platform's consent page
+export const getConnectUrl = (account: PublishAccountId) => `${BASE}/oauth/${account}/start`;
+
+export const pickPublishVideo = (asset: GeneratedAsset): string | undefined =>
+  PREFERRED_FORMATS.map(id => asset.videos?.[id]).find(Boolean) || asset.videoUrl;
+
+/**
+ * Uploads one video. `scheduledAt` (ISO) leaves it waiting on the platform,
+ * or on the server for platforms without native scheduling.
+ */
+export const publishVideo = async (
+  platform: PlatformId,
+  video: Blob,
+  metadata: PostMetadata,
+  scheduledAt?: string,
+  signal?: AbortSignal
+): Promise<PublishRecord> => toRecord(await request(`/${platform}`, {
+  method: "POST",
+  signal,
+  headers: {
+    "Content-Type": "video/mp4",
+    "X-Post-Metadata": encodeURIComponent(JSON.stringify(metadata)),
+    ...(scheduledAt && { "X-Scheduled-At": scheduledAt })
+  },
+  body: video
+}));
+
+export const fetchPublishStatus = async (platform: PlatformId, remoteId: string): Promise<PublishRecord> =>
+  toRecord(await request(`/${platform}/status/${encodeURIComponent(remoteId)}`));
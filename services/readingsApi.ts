@@ -0,0 +1,215 @@
+import { LanguageId, ReadingContent } from "../types";
+import readingsSchema from "../schemas/readings.schema.json";
+
+/**
+ * Contract of GET /api/readings. schemas/readings.schema.json is shared with
+ * the Python backend and every response is checked against it here, so a
+ * scraper that breaks says where instead of failing later in the pipeline.
+ * The types below mirror the schema for the compiler; change both together
+ * and bump READINGS_API_VERSION (and the schema's `version`) on breaking
+ * changes.
+ */
+
+export const READINGS_API_VERSION = 1;
+
+export interface ApiCitation {
+  book: string;
+  chapter: number;
+  verses?: string | null;
+  firstVerse?: number | null;
+  lastVerse?: number | null;
+}
+
+// One reading as the backend sends it; liturgical fields are optional
+export interface ApiReading {
+  type: Exclude<ReadingContent['type'], 'reflection'>;
+  title: string;
+  reference: string;
+  text: string;
+  season?: string | null;
+  color?: string | null;
+  cycle?: { sunday?: string | null; weekday?: string | null } | null;
+  feast?: string | null;
+  psalm_refrain?: string | null;
+  citation?: ApiCitation | null;
+}
+
+export interface ReadingsResponse {
+  version: typeof READINGS_API_VERSION;
+  date: string; // YYYY-MM-DD, the date asked for
+  lang: LanguageId; // The language actually served
+  readings: ApiReading[];
+}
+
+export type ReadingsApiErrorKind = 'connection' | 'http' | 'version' | 'schema' | 'empty';
+
+export class ReadingsApiError extends Error {
+  constructor(public kind: ReadingsApiErrorKind, message: string, public details: string[] = []) {
+    super(message);
+    this.name = "ReadingsApiError";
+  }
+}
+
+// --- SCHEMA CHECK ---
+
+// The subset of JSON Schema the contract uses
+interface SchemaNode {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  required?: string[];
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+  $ref?: string;
+}
+
+const SCHEMA = readingsSchema as unknown as SchemaNode & { $defs: Record<string, SchemaNode> };
+
+// Errors listed in the message; the rest stay in `details`
+const MAX_LISTED_ERRORS = 3;
+
+const typeOf = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const show = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text === undefined ? String(value) : text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+const resolveRef = (ref: string): SchemaNode => {
+  const node = SCHEMA.$defs[ref.replace("#/$defs/", "")];
+  if (!node) throw new Error(`Referencia desconocida en el esquema: ${ref}`);
+  return node;
+};
+
+/**
+ * Every place `value` breaks `node`, as "readings[2].type: ..." lines
+ */
+const validate = (node: SchemaNode, value: unknown, path: string, errors: string[]) => {
+  if (node.$ref) node = resolveRef(node.$ref);
+  const at = path || "(raíz)";
+
+  if (node.const !== undefined && value !== node.const) {
+    errors.push(`${at}: debe ser ${show(node.const)}, llegó ${show(value)}`);
+    return;
+  }
+  if (node.enum && !node.enum.includes(value)) {
+    errors.push(`${at}: ${show(value)} no es ninguno de ${node.enum.join(", ")}`);
+    return;
+  }
+  if (node.type) {
+    const types = [node.type].flat();
+    const actual = typeOf(value);
+    if (!types.includes(actual) && !(actual === "integer" && types.includes("number"))) {
+      errors.push(`${at}: se esperaba ${types.join(" o ")}, llegó ${actual}`);
+      return;
+    }
+  }
+
+  if (typeof value === "string") {
+    if (node.minLength !== undefined && value.trim().length < node.minLength) errors.push(`${at}: está vacío`);
+    if (node.pattern && !new RegExp(node.pattern).test(value)) errors.push(`${at}: ${show(value)} no tiene el formato ${node.pattern}`);
+  }
+  if (typeof value === "number" && node.minimum !== undefined && value < node.minimum) {
+    errors.push(`${at}: ${value} es menor que ${node.minimum}`);
+  }
+  if (Array.isArray(value) && node.items) {
+    value.forEach((item, index) => validate(node.items!, item, `${path}[${index}]`, errors));
+  }
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const child = (key: string) => path ? `${path}.${key}` : key;
+    node.required?.forEach(key => {
+      if (!(key in object)) errors.push(`${child(key)}: falta`);
+    });
+    Object.entries(node.properties || {}).forEach(([key, property]) => {
+      if (key in object) validate(property, object[key], child(key), errors);
+    });
+  }
+};
+
+/**
+ * Checks a decoded /api/readings body for `date` and `language`. Backends
+ * from before the contract send a bare list; it is accepted as that day's
+ * readings and checked item by item.
+ */
+export const parseReadingsResponse = (raw: unknown, date: string, language: LanguageId): ApiReading[] => {
+  const where = `${date} (${language})`;
+  let body = raw;
+  if (Array.isArray(raw)) {
+    console.warn(`/api/readings sin versión (lista suelta); se esperaba la versión ${READINGS_API_VERSION}.`);
+    body = { version: READINGS_API_VERSION, date, lang: language, readings: raw };
+  }
+
+  const version = (body as { version?: unknown } | null)?.version;
+  if (version !== undefined && version !== READINGS_API_VERSION) {
+    throw new ReadingsApiError('version',
+      `El backend usa la versión ${show(version)} del API de lecturas y esta app la ${READINGS_API_VERSION}. Actualiza el que esté atrasado.`);
+  }
+
+  const errors: string[] = [];
+  validate(SCHEMA, body, "", errors);
+  if (errors.length > 0) {
+    const more = errors.length > MAX_LISTED_ERRORS ? ` (y ${errors.length - MAX_LISTED_ERRORS} más)` : "";
+    throw new ReadingsApiError('schema',
+      `Respuesta de /api/readings no válida para el ${where}: ${errors.slice(0, MAX_LISTED_ERRORS).join("; ")}${more}`, errors);
+  }
+
+  const response = body as ReadingsResponse;
+  if (response.date !== date) {
+    throw new ReadingsApiError('schema', `El backend devolvió las lecturas del ${response.date} en vez del ${date}.`);
+  }
+  if (response.lang !== language) {
+    throw new ReadingsApiError('schema', `El backend devolvió lecturas en "${response.lang}" en vez de "${language}" para el ${date}.`);
+  }
+  if (response.readings.length === 0) {
+    throw new ReadingsApiError('empty', `El backend no tiene lecturas para el ${where}.`);
+  }
+  return response.readings;
+};
+
+// --- FETCH ---
+
+/**
+ * Readings of one day, with an error that says which step failed:
+ * connection, HTTP status, version, schema or an empty day
+ */
+export const fetchApiReadings = async (apiBase: string, date: string, language: LanguageId): Promise<ApiReading[]> => {
+  const endpoint = `${apiBase}/api/readings`;
+  const query = new URLSearchParams({ date, lang: language, version: String(READINGS_API_VERSION) });
+
+  let response: Response;
+  try {
+    response = await fetch(`${endpoint}?${query}`);
+  } catch (error: any) {
+    throw new ReadingsApiError('connection',
+      `No se pudo conectar al backend (${endpoint}): ${error.message || error}. Asegúrate de que el servidor Python esté corriendo.`);
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    let detail = body.trim().slice(0, 200);
+    try {
+      detail = JSON.parse(body).error || detail;
+    } catch {
+      // Not JSON: keep the text
+    }
+    throw new ReadingsApiError('http', `El backend respondió HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ""} `
+      + `para el ${date} (${language})${detail ? `: ${detail}` : " sin detalle (¿el proxy no llega al servidor Python?)"}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = await response.json();
+  } catch {
+    throw new ReadingsApiError('schema', `El backend no devolvió JSON (Content-Type: ${response.headers.get("content-type") || "ninguno"}).`);
+  }
+  return parseReadingsResponse(raw, date, language);
+};
@@ -0,0 +1,158 @@
+import { GeneratedAsset, ReadingContent, Scene, SceneTransition, WordTiming } from "../types";
+import { getNarrationText } from "./psalmService";
+import { tokenizeWords } from "./wordTimingService";
+
+// How long a crossfade or wipe takes, in seconds
+export const TRANSITION_SECONDS = 0.8;
+
+// Shortest scene the timeline allows, as a fraction of the narration
+export const MIN_SCENE_LENGTH = 0.04;
+
+// Last word of a sentence, where a scene can be pinned to the next one
+const SENTENCE_END = /[.;:!?»”]$/;
+
+export const TRANSITION_OPTIONS: { id: SceneTransition; label: string }[] = [
+  { id: 'cut', label: 'Corte' },
+  { id: 'crossfade', label: 'Fundido' },
+  { id: 'wipe', label: 'Cortinilla' }
+];
+
+/**
+ * A scene placed in time for one render
+ */
+export interface TimedScene extends Scene {
+  startTime: number; // Seconds
+  endTime: number;
+}
+
+/**
+ * What the background shows at an instant: the current scene and, during a
+ * transition, the outgoing one
+ */
+export interface SceneFrame {
+  current: TimedScene;
+  localProgress: number; // 0-1 through the current scene (drives the zoom)
+  previous?: TimedScene;
+  previousProgress?: number;
+  mix: number; // 0 = all previous, 1 = all current
+}
+
+/**
+ * The original behaviour: every image gets an equal share, hard cuts
+ */
+export const createDefaultScenes = (imageCount: number): Scene[] => {
+  return Array.from({ length: imageCount }, (_, index) => ({
+    imageIndex: index,
+    start: index / imageCount,
+    transition: 'cut' as SceneTransition
+  }));
+};
+
+/**
+ * Stored scenes when they still fit the images, the default split otherwise.
+ * Renderers pass the number of images they actually loaded.
+ */
+export const getScenes = (asset: GeneratedAsset, imageCount: number = asset.imageUrls?.length || 0): Scene[] => {
+  const scenes = asset.scenes?.filter(scene => scene.imageIndex < imageCount);
+  return scenes && scenes.length > 0 ? scenes : createDefaultScenes(imageCount);
+};
+
+/**
+ * Sentence starts of the narration, used to pin scenes to a passage
+ */
+export const getSentenceAnchors = (reading: ReadingContent): { word: number; text: string }[] => {
+  const words = tokenizeWords(getNarrationText(reading));
+  const anchors: { word: number; text: string }[] = [];
+  words.forEach((word, index) => {
+    if (index === 0 || SENTENCE_END.test(words[index - 1])) {
+      anchors.push({ word: index, text: words.slice(index, index + 8).join(" ") });
+    }
+  });
+  return anchors;
+};
+
+/**
+ * Scenes after an edit of the reading's text: a pin follows its sentence to
+ * where it now starts, and is dropped when the sentence is gone (the scene
+ * keeps its place on the timeline)
+ */
+export const repinScenes = (scenes: Scene[], before: ReadingContent, after: ReadingContent): Scene[] => {
+  const oldWords = tokenizeWords(getNarrationText(before));
+  const newWords = tokenizeWords(getNarrationText(after));
+  const sentenceAt = (words: string[], index: number) => {
+    let end = index;
+    while (end < words.length - 1 && !SENTENCE_END.test(words[end])) end++;
+    return words.slice(index, end + 1).join(" ");
+  };
+  const newStarts = new Map<string, number>();
+  getSentenceAnchors(after).forEach(anchor => {
+    const sentence = sentenceAt(newWords, anchor.word);
+    if (anchor.word > 0 && !newStarts.has(sentence)) newStarts.set(sentence, anchor.word);
+  });
+
+  return scenes.map(scene => {
+    if (scene.pinnedWord === undefined) return scene;
+    const moved = scene.pinnedWord < oldWords.length ? newStarts.get(sentenceAt(oldWords, scene.pinnedWord)) : undefined;
+    return moved !== undefined
+      ? { ...scene, pinnedWord: moved, start: moved / newWords.length }
+      : { ...scene, pinnedWord: undefined };
+  });
+};
+
+/**
+ * Places the scenes on the narration. Pinned scenes start when their word is
+ * spoken (with real timings) or at its share of the words otherwise.
+ */
+export const resolveSceneTimes = (
+  scenes: Scene[],
+  duration: number,
+  wordTimings: WordTiming[] | null,
+  wordCount: number
+): TimedScene[] => {
+  const startOf = (scene: Scene, index: number) => {
+    if (index === 0) return 0;
+    if (scene.pinnedWord !== undefined) {
+      if (wordTimings?.[scene.pinnedWord]) return wordTimings[scene.pinnedWord].start;
+      if (wordCount > 0) return (scene.pinnedWord / wordCount) * duration;
+    }
+    return scene.start * duration;
+  };
+
+  const starts = scenes.map(startOf);
+  // Keep the order even if a pin lands before the previous boundary
+  for (let i = 1; i < starts.length; i++) starts[i] = Math.max(starts[i], starts[i - 1]);
+
+  return scenes.map((scene, index) => ({
+    ...scene,
+    startTime: starts[index],
+    endTime: index + 1 < scenes.length ? starts[index + 1] : duration
+  }));
+};
+
+/**
+ * Scene state at `time` (clamped to the narration)
+ */
+export const getSceneFrame = (scenes: TimedScene[], time: number): SceneFrame => {
+  let index = scenes.length - 1;
+  while (index > 0 && time < scenes[index].startTime) index--;
+
+  const current = scenes[index];
+  const progressIn = (scene: TimedScene) => {
+    const length = scene.endTime - scene.startTime;
+    return length > 0 ? Math.min(Math.max((time - scene.startTime) / length, 0), 1) : 1;
+  };
+
+  const sinceCut = time - current.startTime;
+  if (index === 0 || current.transition === 'cut' || sinceCut >= TRANSITION_SECONDS) {
+    return { current, localProgress: progressIn(current), mix: 1 };
+  }
+
+  const previous = scenes[index - 1];
+  return {
+    current,
+    localProgress: progressIn(current),
+    previous,
+    previousProgress: 1,
+    mix: sinceCut / TRANSITION_SECONDS
+  };
+};
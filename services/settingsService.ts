@@ -0,0 +1,60 @@
+import { AppSettings } from "../types";
+
+const STORAGE_KEY = "evangelio-auto-settings";
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  imageProvider: 'pollinations',
+  stableDiffusionUrl: "http://127.0.0.1:7860",
+  artworkUrl: "/artwork",
+  tts: {
+    '1st_reading': { provider: 'gemini', voice: "Puck" },
+    psalm: { provider: 'gemini', voice: "Puck" },
+    '2nd_reading': { provider: 'gemini', voice: "Puck" },
+    gospel: { provider: 'gemini', voice: "Puck" },
+    reflection: { provider: 'gemini', voice: "Charon" }
+  },
+  music: {
+    '1st_reading': { trackId: "", volume: 0.25 },
+    psalm: { trackId: "", volume: 0.3 },
+    '2nd_reading': { trackId: "", volume: 0.25 },
+    gospel: { trackId: "", volume: 0.2 },
+    reflection: { trackId: "", volume: 0.3 }
+  },
+  musicUrl: "/music",
+  localTtsUrl: "http://127.0.0.1:5002",
+  localTtsEngine: 'piper',
+  reflection: {
+    tone: 'pastoral',
+    targetSeconds: 50,
+    guardrails: ""
+  },
+  templateId: 'classic',
+  templateUrl: "/templates/custom.json",
+  outputFormats: ['vertical_hd'],
+  languages: ['es'],
+  coverIntro: false
+};
+
+/**
+ * Reads settings from localStorage, filling any missing field with its default
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      tts: { ...DEFAULT_SETTINGS.tts, ...stored.tts },
+      music: { ...DEFAULT_SETTINGS.music, ...stored.music },
+      reflection: { ...DEFAULT_SETTINGS.reflection, ...stored.reflection }
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,279 @@
+import { ReadingContent, GeneratedAsset, WordTiming, OutputFormatId, Scene, ImageDetail } from "../types";
+import { DEFAULT_LANGUAGE } from "./languageService";
+
+const DB_NAME = "evangelio-auto";
+const DB_VERSION = 3;
+const SESSIONS_STORE = "sessions";
+const ASSETS_STORE = "assets";
+const CACHE_STORE = "cache";
+const RECORDINGS_STORE = "recordings";
+
+/**
+ * A day's work: the readings fetched for a liturgical date
+ */
+interface StoredSession {
+  date: string; // YYYY-MM-DD
+  readings: ReadingContent[];
+  updatedAt: number;
+}
+
+/**
+ * Media is stored as Blobs because blob: URLs die with the tab.
+ * Remote URLs (e.g. Pollinations) are kept as plain strings.
+ */
+interface StoredAsset {
+  key: string; // `${date}/${readingType}`, `${date}/${language}/${readingType}` for other languages
+  date: string;
+  readingType: ReadingContent['type'];
+  images: (Blob | string)[];
+  imageDetails?: ImageDetail[]; // Parallel to images
+  audio?: Blob | string;
+  wordTimings?: WordTiming[];
+  scenes?: Scene[]; // Timeline edits; absent means the even split
+  video?: Blob | string; // Single-format records
+  videos?: Partial<Record<OutputFormatId, Blob | string>>; // In render order, the first one is previewed
+  subtitles?: { srt: string; vtt: string };
+  metadata?: GeneratedAsset['metadata'];
+  publications?: GeneratedAsset['publications'];
+  updatedAt: number;
+}
+
+/**
+ * Content-addressed cache entry (see assetCache.ts)
+ */
+export interface CacheEntry<T> {
+  key: string;
+  data: T;
+  createdAt: number;
+}
+
+export interface SessionSummary {
+  date: string;
+  readingCount: number;
+  videoCount: number;
+  updatedAt: number;
+}
+
+export interface RestoredSession {
+  date: string;
+  readings: ReadingContent[];
+  assets: Record<string, GeneratedAsset>;
+}
+
+// Spanish keys predate languages and stay as they were
+const assetKey = (date: string, reading: ReadingContent) => {
+  return reading.language && reading.language !== DEFAULT_LANGUAGE ? `${date}/${reading.language}/${reading.type}` : `${date}/${reading.type}`;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: "date" });
+        }
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+          const assets = db.createObjectStore(ASSETS_STORE, { keyPath: "key" });
+          assets.createIndex("by_date", "date");
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: "key" });
+        }
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+          db.createObjectStore(RECORDINGS_STORE, { keyPath: "readingId" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a Promise
+ */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getStore = async (name: string, mode: IDBTransactionMode) => {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+};
+
+/**
+ * Turns a blob: URL back into the Blob it points to, so it survives a reload
+ */
+export const toStorable = async (url: string): Promise<Blob | string> => {
+  if (!url.startsWith("blob:")) return url;
+  const response = await fetch(url);
+  return await response.blob();
+};
+
+export const toUrl = (value: Blob | string): string => {
+  return typeof value === "string" ? value : URL.createObjectURL(value);
+};
+
+// --- SESSIONS ---
+
+export const saveSession = async (date: string, readings: ReadingContent[]): Promise<void> => {
+  const store = await getStore(SESSIONS_STORE, "readwrite");
+  const session: StoredSession = { date, readings, updatedAt: Date.now() };
+  await promisify(store.put(session));
+};
+
+// Renders go to the per-format `videos` map; `video` is only on older records
+const hasStoredVideo = (asset: StoredAsset) => !!asset.video || Object.values(asset.videos || {}).some(Boolean);
+
+/**
+ * Counts of one saved day, from its session and every stored asset
+ */
+export const summarizeSession = (session: StoredSession, assets: StoredAsset[]): SessionSummary => {
+  const sessionAssets = assets.filter(a => a.date === session.date);
+  return {
+    date: session.date,
+    readingCount: session.readings.length,
+    videoCount: sessionAssets.filter(hasStoredVideo).length,
+    updatedAt: Math.max(session.updatedAt, ...sessionAssets.map(a => a.updatedAt))
+  };
+};
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const sessions = await promisify((await getStore(SESSIONS_STORE, "readonly")).getAll()) as StoredSession[];
+  const assets = await promisify((await getStore(ASSETS_STORE, "readonly")).getAll()) as StoredAsset[];
+
+  return sessions
+    .map(session => summarizeSession(session, assets))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Rebuilds the readings and their assets (with fresh blob: URLs) for a date
+ */
+export const loadSession = async (date: string): Promise<RestoredSession | null> => {
+  const session = await promisify((await getStore(SESSIONS_STORE, "readonly")).get(date)) as StoredSession | undefined;
+  if (!session) return null;
+
+  const index = (await getStore(ASSETS_STORE, "readonly")).index("by_date");
+  const stored = await promisify(index.getAll(date)) as StoredAsset[];
+
+  const assets: Record<string, GeneratedAsset> = {};
+  session.readings.forEach(reading => {
+    const item = stored.find(a => a.key === assetKey(date, reading));
+    assets[reading.id] = {
+      readingId: reading.id,
+      imageUrls: item ? item.images.map(toUrl) : [],
+      imageDetails: item?.imageDetails,
+      audioUrl: item?.audio ? toUrl(item.audio) : undefined,
+      wordTimings: item?.wordTimings,
+      scenes: item?.scenes,
+      subtitles: item?.subtitles,
+      metadata: item?.metadata,
+      publications: item?.publications,
+      ...restoreVideos(item),
+      isGeneratingImage: false,
+      isGeneratingAudio: false,
+      isGeneratingVideo: false
+    };
+  });
+
+  return { date, readings: session.readings, assets };
+};
+
+export const loadLatestSession = async (): Promise<RestoredSession | null> => {
+  const sessions = await listSessions();
+  return sessions.length > 0 ? loadSession(sessions[0].date) : null;
+};
+
+export const deleteSession = async (date: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, ASSETS_STORE], "readwrite");
+  tx.objectStore(SESSIONS_STORE).delete(date);
+  const assets = tx.objectStore(ASSETS_STORE);
+  const keys = await promisify(assets.index("by_date").getAllKeys(date));
+  keys.forEach(key => assets.delete(key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- ASSETS ---
+
+const storableVideos = async (videos: NonNullable<GeneratedAsset['videos']>) => {
+  const entries = await Promise.all(Object.entries(videos).map(async ([id, url]) => [id, await toStorable(url)] as const));
+  return Object.fromEntries(entries) as StoredAsset['videos'];
+};
+
+const restoreVideos = (item?: StoredAsset): Pick<GeneratedAsset, 'videoUrl' | 'videos'> => {
+  if (!item?.videos) return { videoUrl: item?.video ? toUrl(item.video) : undefined };
+  const videos = Object.fromEntries(Object.entries(item.videos).map(([id, video]) => [id, toUrl(video)]));
+  return { videoUrl: Object.values(videos)[0], videos };
+};
+
+/**
+ * Persists the media of one reading. Blob URLs are resolved before the
+ * transaction opens, since IndexedDB transactions close on any await.
+ */
+export const saveAsset = async (date: string, reading: ReadingContent, asset: GeneratedAsset): Promise<void> => {
+  const record: StoredAsset = {
+    key: assetKey(date, reading),
+    date,
+    readingType: reading.type,
+    images: await Promise.all((asset.imageUrls || []).map(toStorable)),
+    imageDetails: asset.imageDetails,
+    audio: asset.audioUrl ? await toStorable(asset.audioUrl) : undefined,
+    wordTimings: asset.wordTimings,
+    scenes: asset.scenes,
+    video: asset.videoUrl && !asset.videos ? await toStorable(asset.videoUrl) : undefined,
+    videos: asset.videos ? await storableVideos(asset.videos) : undefined,
+    subtitles: asset.subtitles,
+    metadata: asset.metadata,
+    publications: asset.publications,
+    updatedAt: Date.now()
+  };
+
+  const store = await getStore(ASSETS_STORE, "readwrite");
+  await promisify(store.put(record));
+};
+
+// --- CONTENT CACHE ---
+
+export const readCache = async <T>(key: string): Promise<T | null> => {
+  const store = await getStore(CACHE_STORE, "readonly");
+  const entry = await promisify(store.get(key)) as CacheEntry<T> | undefined;
+  return entry ? entry.data : null;
+};
+
+export const writeCache = async <T>(key: string, data: T): Promise<void> => {
+  const store = await getStore(CACHE_STORE, "readwrite");
+  const entry: CacheEntry<T> = { key, data, createdAt: Date.now() };
+  await promisify(store.put(entry));
+};
+
+// --- RECORDINGS ---
+
+/**
+ * Human narration uploaded for a reading (used by the "recording" TTS provider)
+ */
+export const saveRecording = async (readingId: string, audio: Blob): Promise<void> => {
+  const store = await getStore(RECORDINGS_STORE, "readwrite");
+  await promisify(store.put({ readingId, audio, updatedAt: Date.now() }));
+};
+
+export const loadRecording = async (readingId: string): Promise<Blob | null> => {
+  const store = await getStore(RECORDINGS_STORE, "readonly");
+  const entry = await promisify(store.get(readingId)) as { audio: Blob } | undefined;
+  return entry ? entry.audio : null;
+};
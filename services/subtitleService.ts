@@ -0,0 +1,126 @@
+import { ReadingContent, WordTiming } from "../types";
+import { tokenizeWords } from "./wordTimingService";
+import { getNarrationText, getPsalmLayout } from "./psalmService";
+
+// Usual broadcast limits: two lines of ~42 characters, a few seconds each
+export const MAX_LINE_CHARS = 42;
+const MAX_CUE_SECONDS = 6;
+const MIN_CUE_SECONDS = 1;
+// A sentence end closes the cue once it holds this share of the limit
+const SENTENCE_BREAK_SHARE = 0.4;
+
+/**
+ * One caption on screen: up to two lines of the narration
+ */
+export interface CaptionCue {
+  start: number; // Seconds
+  end: number;
+  lines: string[];
+  firstWord: number; // Into the narration words
+  lastWord: number;
+}
+
+/**
+ * Splits a caption into at most two lines, as balanced as the words allow
+ */
+export const splitCaptionLines = (words: string[], maxLineChars: number = MAX_LINE_CHARS): string[] => {
+  const text = words.join(" ");
+  if (words.length < 2 || text.length <= maxLineChars) return [text];
+
+  let best = 1;
+  let bestDiff = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const diff = Math.abs(words.slice(0, i).join(" ").length - words.slice(i).join(" ").length);
+    if (diff < bestDiff) {
+      best = i;
+      bestDiff = diff;
+    }
+  }
+  return [words.slice(0, best).join(" "), words.slice(best).join(" ")];
+};
+
+/**
+ * Cuts the narration into caption-length cues, timed with the word timings
+ * when they match the narration (an even spread over `duration` otherwise).
+ * Cues close at sentence ends when they can, and psalms start a new cue
+ * whenever the refrain begins or ends.
+ */
+export const buildCaptionCues = (
+  reading: ReadingContent,
+  wordTimings: WordTiming[] | undefined,
+  duration: number,
+  maxLineChars: number = MAX_LINE_CHARS
+): CaptionCue[] => {
+  const words = tokenizeWords(getNarrationText(reading));
+  if (words.length === 0) return [];
+
+  const timings = wordTimings && wordTimings.length === words.length
+    ? wordTimings
+    : words.map((word, index) => ({ word, start: (index / words.length) * duration, end: ((index + 1) / words.length) * duration }));
+  const parts = getPsalmLayout(reading)?.words.map(word => word.part);
+  const maxChars = maxLineChars * 2;
+
+  const groups: { first: number; last: number }[] = [];
+  let first = 0;
+  let length = words[0].length;
+  for (let index = 1; index <= words.length; index++) {
+    const previous = words[index - 1];
+    const nextLength = index < words.length ? length + 1 + words[index].length : Infinity;
+    const isLast = index === words.length;
+    const partChanges = !!parts && parts[index] !== parts[index - 1];
+    const sentenceEnds = /[.;:!?»”]$/.test(previous) && length >= maxChars * SENTENCE_BREAK_SHARE;
+    const tooLong = nextLength > maxChars || (index < words.length && timings[index].end - timings[first].start > MAX_CUE_SECONDS);
+
+    if (isLast || partChanges || sentenceEnds || tooLong) {
+      groups.push({ first, last: index - 1 });
+      first = index;
+      length = index < words.length ? words[index].length : 0;
+    } else {
+      length = nextLength;
+    }
+  }
+
+  return groups.map((group, index) => {
+    const next = groups[index + 1];
+    const start = timings[group.first].start;
+    // Short cues stay up a little longer, without overlapping the next one
+    const end = Math.max(timings[group.last].end, Math.min(start + MIN_CUE_SECONDS, next ? timings[next.first].start : duration));
+    return {
+      start,
+      end,
+      lines: splitCaptionLines(words.slice(group.first, group.last + 1), maxLineChars),
+      firstWord: group.first,
+      lastWord: group.last
+    };
+  });
+};
+
+/**
+ * HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+ */
+const formatTimestamp = (seconds: number, separator: "," | "."): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, size = 2) => String(value).padStart(size, "0");
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const toSrt = (cues: CaptionCue[]): string => {
+  return cues.map((cue, index) =>
+    `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.lines.join("\n")}\n`
+  ).join("\n");
+};
+
+export const toVtt = (cues: CaptionCue[]): string => {
+  return "WEBVTT\n\n" + cues.map(cue =>
+    `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.lines.join("\n")}\n`
+  ).join("\n");
+};
+
+/**
+ * Both subtitle files for a reading, ready to save next to the MP4.
+ * `offset` shifts every cue, e.g. past a cover intro.
+ */
+export const createSubtitles = (reading: ReadingContent, wordTimings: WordTiming[] | undefined, duration: number, offset: number = 0) => {
+  const cues = buildCaptionCues(reading, wordTimings, duration).map(cue => ({ ...cue, start: cue.start + offset, end: cue.end + offset }));
+  return { srt: toSrt(cues), vtt: toVtt(cues) };
+};
@@ -0,0 +1,295 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { AppSettings, LanguageId, TtsProviderId, VoiceSettings } from "../types";
+import { parseWav } from "./wordTimingService";
+
+export interface TtsRequest {
+  text: string;
+  voice: string;
+  readingId: string;
+  locale?: string; // BCP 47, e.g. "en-US"; engines that cannot use it ignore it
+}
+
+/**
+ * A narration source. Implementations return a complete WAV file.
+ */
+export interface TtsProvider {
+  id: TtsProviderId;
+  label: string;
+  // Identifies provider + configuration in the asset cache key
+  cacheKey: string;
+  // Longest text accepted in one call; longer readings are chunked
+  maxChars: number;
+  // Recordings are tied to one reading, so they are never cached by text
+  cacheable: boolean;
+  synthesize: (request: TtsRequest) => Promise<Uint8Array>;
+}
+
+export const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+export const DEFAULT_VOICE = "Puck";
+
+// Prebuilt Gemini voices that read Spanish well
+export const GEMINI_VOICES = ["Puck", "Charon", "Kore", "Fenrir", "Aoede", "Orus", "Zephyr", "Leda"];
+
+// Silence inserted between stitched chunks (seconds)
+const CHUNK_PAUSE = 0.35;
+
+// --- WAV HELPERS ---
+
+const base64ToUint8Array = (base64: string) => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const writeString = (view: DataView, offset: number, string: string) => {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+};
+
+const createWavHeader = (dataLength: number, sampleRate: number = 24000, numChannels: number = 1) => {
+  const buffer = new ArrayBuffer(44);
+  const view = new DataView(buffer);
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+  return buffer;
+};
+
+/**
+ * Wraps raw 16-bit PCM (as returned by Gemini TTS) in a WAV container
+ */
+export const pcmToWav = (pcmData: Uint8Array, sampleRate: number = 24000) => {
+  const wavHeader = createWavHeader(pcmData.length, sampleRate);
+  const wavBytes = new Uint8Array(wavHeader.byteLength + pcmData.length);
+  wavBytes.set(new Uint8Array(wavHeader), 0);
+  wavBytes.set(pcmData, wavHeader.byteLength);
+  return wavBytes;
+};
+
+/**
+ * Float samples (-1..1) as a mono 16-bit WAV
+ */
+export const samplesToWav = (samples: Float32Array, sampleRate: number) => {
+  const pcm = new Uint8Array(samples.length * 2);
+  const view = new DataView(pcm.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(i * 2, Math.round(Math.max(-1, Math.min(1, samples[i])) * 32767), true);
+  }
+  return pcmToWav(pcm, sampleRate);
+};
+
+/**
+ * Joins WAV files into one mono 16-bit WAV with a short pause between parts.
+ * Parts with a different sample rate are linearly resampled to the first one.
+ */
+export const concatenateWavs = (wavs: Uint8Array[], pauseSeconds: number = CHUNK_PAUSE) => {
+  const parts = wavs.map(wav => {
+    const pcm = parseWav(wav.slice().buffer);
+    if (!pcm) throw new Error("El audio generado no es un WAV PCM de 16 bits.");
+    return pcm;
+  });
+  const sampleRate = parts[0].sampleRate;
+  const pauseSamples = Math.round(pauseSeconds * sampleRate);
+
+  const resampled = parts.map(({ samples, sampleRate: rate }) => {
+    if (rate === sampleRate) return samples;
+    const ratio = rate / sampleRate;
+    const out = new Float32Array(Math.floor(samples.length / ratio));
+    for (let i = 0; i < out.length; i++) {
+      const pos = i * ratio;
+      const index = Math.floor(pos);
+      const next = Math.min(index + 1, samples.length - 1);
+      out[i] = samples[index] + (samples[next] - samples[index]) * (pos - index);
+    }
+    return out;
+  });
+
+  const totalSamples = resampled.reduce((acc, s) => acc + s.length, 0) + pauseSamples * (resampled.length - 1);
+  const pcm = new Uint8Array(totalSamples * 2);
+  const view = new DataView(pcm.buffer);
+  let offset = 0;
+  resampled.forEach((samples, index) => {
+    if (index > 0) offset += pauseSamples; // Zeroed bytes = silence
+    for (let i = 0; i < samples.length; i++) {
+      const value = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16((offset + i) * 2, Math.round(value * 32767), true);
+    }
+    offset += samples.length;
+  });
+
+  return pcmToWav(pcm, sampleRate);
+};
+
+/**
+ * Splits text into chunks of at most `maxChars`, preferring sentence ends,
+ * then clause punctuation, then spaces. Nothing is ever dropped.
+ */
+export const splitTextIntoChunks = (text: string, maxChars: number): string[] => {
+  const clean = text.trim();
+  if (clean.length <= maxChars) return [clean];
+
+  const chunks: string[] = [];
+  let rest = clean;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars + 1);
+    // lastIndexOf + 1 is 0 (falsy) when the separator is missing
+    const cut =
+      Math.max(window.lastIndexOf(". "), window.lastIndexOf("? "), window.lastIndexOf("! "), window.lastIndexOf(".\n")) + 1 ||
+      Math.max(window.lastIndexOf("; "), window.lastIndexOf(": "), window.lastIndexOf(", ")) + 1 ||
+      window.lastIndexOf(" ") + 1 ||
+      maxChars;
+    chunks.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest.length > 0) chunks.push(rest);
+  return chunks;
+};
+
+/**
+ * Synthesizes a request of any length: chunk, narrate in order, stitch.
+ * `onProgress` hears about each chunk done.
+ */
+export const synthesizeChunked = async (
+  provider: TtsProvider,
+  request: TtsRequest,
+  onProgress?: (done: number, total: number) => void
+): Promise<Uint8Array> => {
+  const chunks = splitTextIntoChunks(request.text, provider.maxChars);
+  onProgress?.(0, chunks.length);
+  if (chunks.length === 1) {
+    const wav = await provider.synthesize(request);
+    onProgress?.(1, 1);
+    return wav;
+  }
+
+  // Sequential to stay under provider rate limits
+  const wavs: Uint8Array[] = [];
+  for (const chunk of chunks) {
+    wavs.push(await provider.synthesize({ ...request, text: chunk }));
+    onProgress?.(wavs.length, chunks.length);
+  }
+  return concatenateWavs(wavs);
+};
+
+// --- GEMINI TTS ---
+
+export const createGeminiTtsProvider = (): TtsProvider => ({
+  id: 'gemini',
+  label: 'Gemini TTS',
+  cacheKey: `gemini:${TTS_MODEL}`,
+  maxChars: 3000,
+  cacheable: true,
+  synthesize: async ({ text, voice, locale }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: TTS_MODEL,
+      contents: { parts: [{ text }] },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          languageCode: locale,
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice || DEFAULT_VOICE } }
+        }
+      }
+    });
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error("No audio generated.");
+
+    return pcmToWav(base64ToUint8Array(base64Audio));
+  }
+});
+
+// --- LOCAL ENGINE (Piper / Coqui over HTTP) ---
+
+/**
+ * Piper: `python -m piper.http_server` (POST JSON { text, voice }); the
+ * voice model sets the language.
+ * Coqui: `tts-server` (GET /api/tts?text=...&speaker_id=...&language_id=...).
+ * Both answer with a WAV file.
+ */
+export const createLocalTtsProvider = (baseUrl: string, engine: AppSettings['localTtsEngine']): TtsProvider => {
+  const url = baseUrl.replace(/\/+$/, "");
+  return {
+    id: 'local',
+    label: engine === 'coqui' ? 'Coqui TTS local' : 'Piper local',
+    cacheKey: `local:${engine}:${url}`,
+    maxChars: 1500,
+    cacheable: true,
+    synthesize: async ({ text, voice, locale }) => {
+      const response = engine === 'coqui'
+        ? await fetch(`${url}/api/tts?${new URLSearchParams({ text, speaker_id: voice, language_id: locale?.split("-")[0] || "" })}`)
+        : await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(voice ? { text, voice } : { text })
+        });
+      if (!response.ok) throw new Error(`TTS local HTTP ${response.status} (${url})`);
+      return new Uint8Array(await response.arrayBuffer());
+    }
+  };
+};
+
+// --- HUMAN RECORDING (uploaded WAV) ---
+
+/**
+ * Uses the recording uploaded for the reading; the text is ignored.
+ * `loadRecording` reads IndexedDB in the app and the disk in the CLI.
+ */
+export const createRecordingProvider = (loadRecording: (readingId: string) => Promise<Blob | null>): TtsProvider => ({
+  id: 'recording',
+  label: 'Grabación humana',
+  cacheKey: 'recording',
+  maxChars: Infinity,
+  cacheable: false,
+  synthesize: async ({ readingId }) => {
+    const recording = await loadRecording(readingId);
+    if (!recording) throw new Error("No hay grabación subida para esta lectura.");
+    return new Uint8Array(await recording.arrayBuffer());
+  }
+});
+
+/**
+ * Voice of a reading type for one language: its override, or the main voice
+ */
+export const getVoiceName = (voice: VoiceSettings, language?: LanguageId): string => {
+  return (language && voice.languageVoices?.[language]) || voice.voice;
+};
+
+/**
+ * Builds the provider selected for a reading type
+ */
+export const createTtsProvider = (
+  id: TtsProviderId,
+  settings: AppSettings,
+  loadRecording: (readingId: string) => Promise<Blob | null>
+): TtsProvider => {
+  switch (id) {
+    case 'local':
+      return createLocalTtsProvider(settings.localTtsUrl, settings.localTtsEngine);
+    case 'recording':
+      return createRecordingProvider(loadRecording);
+    case 'gemini':
+    default:
+      return createGeminiTtsProvider();
+  }
+};
+
+export const TTS_PROVIDER_OPTIONS: { id: TtsProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini TTS' },
+  { id: 'local', label: 'Motor local (Piper / Coqui)' },
+  { id: 'recording', label: 'Grabación humana (WAV subido)' }
+];
@@ -1,25 +1,36 @@
-import { ReadingContent, GeneratedAsset } from "../types";
-
-// Canvas constants for 9:16 Short/TikTok format (HD)
-const WIDTH = 720;
-const HEIGHT = 1280;
-const PADDING = 80;
-
-// Fonts
-const FONT_SIZE_TEXT = 44;
-const LINE_HEIGHT_TEXT = 70;
-const FONT_SIZE_TITLE = 38;
-const FONT_SIZE_BADGE = 26;
-
-// Layout Constants 
-const TOP_SAFE_AREA = 340;
-// Increased bottom safe area to make room for CTA + Reference Pill
-const BOTTOM_SAFE_AREA = 400;
+import { ReadingContent, GeneratedAsset, Scene } from "../types";
+import { findWordIndexAtTime, tokenizeWords } from "./wordTimingService";
+import { getLiturgicalTheme } from "./liturgyService";
+import { getNarrationText, getPsalmLayout } from "./psalmService";
+import { OutputFormat, DEFAULT_OUTPUT_FORMAT } from "./outputFormats";
+import { TimedScene, getScenes, getSceneFrame, resolveSceneTimes } from "./sceneService";
+import { CaptionCue, buildCaptionCues } from "./subtitleService";
+import { ENVELOPE_RATE, MusicBed, computeMusicEnvelope } from "./musicService";
+import { getReadingLanguage, resolveText } from "./languageService";
+import { Progress, createProgressTracker } from "./progressService";
+import {
+  VideoTemplate, TemplateFont, BackgroundLayer, TextLayer, CaptionsLayer, HeaderLayer, RefrainLayer, VisualizerLayer,
+  ReferenceLayer, CtaLayer, ProgressLayer, DEFAULT_TEMPLATE, fitTemplate, findLayer, toCanvasFont, resolveColor
+} from "./videoTemplate";
+
+// Visualizer: analyser fftSize 64 -> 32 chunky frequency bars
+export const VISUALIZER_FFT_SIZE = 64;
+
+// Seconds of still frames kept after the narration ends
+export const END_TAIL_SECONDS = 2;
+
+// Cover held before the narration when the intro is on
+export const COVER_INTRO_SECONDS = 0.5;
+
+export type CoverImageType = 'image/jpeg' | 'image/png';
+
+// Used to lay out the words when a template has no text layer
+const DEFAULT_TEXT_FONT: TemplateFont = { size: 44, weight: "900", lineHeight: 70 };
 
 /**
  * Loads an image from a URL into an HTMLImageElement
  */
-const loadImage = (url: string): Promise<HTMLImageElement> => {
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = "anonymous";
@@ -32,7 +43,7 @@ const loadImage = (url: string): Promise<HTMLImageElement> => {
 /**
  * Loads audio to get duration and play it
  */
-const loadAudio = (url: string): Promise<HTMLAudioElement> => {
+export const loadAudio = (url: string): Promise<HTMLAudioElement> => {
   return new Promise((resolve, reject) => {
     const audio = new Audio();
     audio.crossOrigin = "anonymous";
@@ -45,7 +56,7 @@ const loadAudio = (url: string): Promise<HTMLAudioElement> => {
 /**
  * Helper to draw a rounded rectangle (Pill shape)
  */
-const fillRoundRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, radius: number, fillStyle: string, strokeStyle?: string) => {
+export const fillRoundRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, radius: number, fillStyle: string, strokeStyle?: string) => {
   ctx.beginPath();
   ctx.moveTo(x + radius, y);
   ctx.lineTo(x + w - radius, y);
@@ -69,9 +80,9 @@ const fillRoundRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: n
 };
 
 /**
- * Calculate lines for CENTERED text wrapping
+ * Calculate lines for CENTERED text wrapping (around `centerX`)
  */
-const calculateLayout = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+const calculateLayout = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, lineHeight: number, centerX: number) => {
   const words = text.split(/\s+/).filter(w => w.length > 0);
   const spaceWidth = ctx.measureText(' ').width;
 
@@ -93,7 +104,7 @@ const calculateLayout = (ctx: CanvasRenderingContext2D, text: string, maxWidth:
       lines.push({ words: [], y: 0 });
       const lastLineIndex = lines.length - 1;
 
-      let currentX = (WIDTH - currentLineWidth) / 2;
+      let currentX = centerX - currentLineWidth / 2;
 
       const wordsWithPos = currentLineWords.map(w => {
         const item = { ...w, x: currentX };
@@ -111,7 +122,7 @@ const calculateLayout = (ctx: CanvasRenderingContext2D, text: string, maxWidth:
   if (currentLineWords.length > 0) {
     lines.push({ words: [], y: 0 });
     const lastLineIndex = lines.length - 1;
-    let currentX = (WIDTH - currentLineWidth) / 2;
+    let currentX = centerX - currentLineWidth / 2;
     const wordsWithPos = currentLineWords.map(w => {
       const item = { ...w, x: currentX };
       currentX += w.width + spaceWidth;
@@ -122,7 +133,7 @@ const calculateLayout = (ctx: CanvasRenderingContext2D, text: string, maxWidth:
 
   const wordMap: { text: string; x: number; y: number; lineIndex: number }[] = [];
   lines.forEach((line, lineIdx) => {
-    const lineY = lineIdx * LINE_HEIGHT_TEXT;
+    const lineY = lineIdx * lineHeight;
     line.y = lineY;
     line.words.forEach(w => {
       wordMap.push({
@@ -134,7 +145,39 @@ const calculateLayout = (ctx: CanvasRenderingContext2D, text: string, maxWidth:
     });
   });
 
-  return { wordMap, totalHeight: lines.length * LINE_HEIGHT_TEXT };
+  return { wordMap, totalHeight: lines.length * lineHeight };
+};
+
+/**
+ * Upper-case title split into lines no wider than `maxWidth` (font already set)
+ */
+export const wrapTitle = (ctx: CanvasRenderingContext2D, title: string, maxWidth: number): string[] => {
+  const titleWords = title.toUpperCase().split(' ');
+  const lines: string[] = [];
+  let currentTitleLine = titleWords[0];
+  for (let i = 1; i < titleWords.length; i++) {
+    const w = titleWords[i];
+    const width = ctx.measureText(currentTitleLine + " " + w).width;
+    if (width < maxWidth) {
+      currentTitleLine += " " + w;
+    } else {
+      lines.push(currentTitleLine);
+      currentTitleLine = w;
+    }
+  }
+  lines.push(currentTitleLine);
+  return lines;
+};
+
+/**
+ * Source rectangle that fills a frame of `canvasRatio` without distortion
+ */
+const getCoverCrop = (sw: number, sh: number, canvasRatio: number) => {
+  const imageRatio = sw / sh;
+  if (imageRatio > canvasRatio) {
+    return { cropW: sh * canvasRatio, cropH: sh, cropX: (sw - sh * canvasRatio) / 2, cropY: 0 };
+  }
+  return { cropW: sw, cropH: sw / canvasRatio, cropX: 0, cropY: (sh - sw / canvasRatio) / 2 };
 };
 
 const lerp = (start: number, end: number, factor: number) => {
@@ -145,7 +188,14 @@ const lerp = (start: number, end: number, factor: number) => {
 class ParticleSystem {
   particles: { x: number, y: number, r: number, speed: number, alpha: number }[];
 
-  constructor(count: number) {
+  random: () => number;
+  width: number;
+  height: number;
+
+  constructor(count: number, width: number, height: number, random: () => number = Math.random) {
+    this.random = random;
+    this.width = width;
+    this.height = height;
     this.particles = [];
     for (let i = 0; i < count; i++) {
       this.particles.push(this.createParticle());
@@ -154,24 +204,25 @@ class ParticleSystem {
 
   createParticle() {
     return {
-      x: Math.random() * WIDTH,
-      y: Math.random() * HEIGHT,
-      r: Math.random() * 2 + 0.5,
-      speed: Math.random() * 0.5 + 0.2,
-      alpha: Math.random() * 0.5 + 0.1
+      x: this.random() * this.width,
+      y: this.random() * this.height,
+      r: this.random() * 2 + 0.5,
+      speed: this.random() * 0.5 + 0.2,
+      alpha: this.random() * 0.5 + 0.1
     };
   }
 
-  updateAndDraw(ctx: CanvasRenderingContext2D) {
-    ctx.fillStyle = "rgba(255, 215, 0, 0.6)"; // Gold
+  // `step` is the elapsed time in 60fps frames, so motion does not depend on frame rate
+  updateAndDraw(ctx: CanvasRenderingContext2D, step: number = 1, color: string = "rgba(255, 215, 0, 0.6)") {
+    ctx.fillStyle = color; // Gold by default
 
     this.particles.forEach(p => {
-      p.y -= p.speed;
-      p.alpha -= 0.002;
+      p.y -= p.speed * step;
+      p.alpha -= 0.002 * step;
 
       if (p.y < 0 || p.alpha <= 0) {
         Object.assign(p, this.createParticle());
-        p.y = HEIGHT + 10;
+        p.y = this.height + 10;
       }
 
       ctx.beginPath();
@@ -183,16 +234,628 @@ class ParticleSystem {
   }
 }
 
+/**
+ * Everything a frame needs from the audio at a given instant
+ */
+export interface FrameState {
+  currentTime: number; // Seconds into the narration
+  duration: number;
+  frequencyData: Uint8Array; // Analyser-style bins (0-255)
+  deltaTime: number; // Seconds since the previous frame
+}
+
+// Per-frame values shared by the layers
+interface FrameInfo {
+  time: number; // Seconds (past the narration during the end tail)
+  duration: number;
+  progress: number; // 0-1 through the narration
+  avgVolume: number; // 0-255
+  step: number; // Elapsed time in 60fps frames
+  frequencyData: Uint8Array;
+  currentWordIndex: number; // Into the laid-out words (stanza words for psalms)
+  spokenWordIndex: number; // Into the narration words
+  isRefrainActive: boolean;
+}
+
+/**
+ * Builds the per-frame drawing function shared by the realtime recorder,
+ * the offline renderer and the preview. Layers are drawn in template order.
+ * Pass a seeded `random` for reproducible output.
+ */
+export const createFrameRenderer = (
+  ctx: CanvasRenderingContext2D,
+  reading: ReadingContent,
+  asset: GeneratedAsset,
+  bgImages: HTMLImageElement[],
+  random: () => number = Math.random,
+  baseTemplate: VideoTemplate = DEFAULT_TEMPLATE,
+  format: Pick<OutputFormat, 'width' | 'height'> = DEFAULT_OUTPUT_FORMAT
+) => {
+  // Layout happens in template units; `scale` maps them to output pixels
+  const { template, width: frameWidth, height: frameHeight, scale } = fitTemplate(baseTemplate, format.width, format.height);
+  const theme = getLiturgicalTheme(reading);
+  const color = (value: string) => resolveColor(value, theme);
+  const language = getReadingLanguage(reading);
+  const text = (value: string) => resolveText(value, language);
+  const { padding } = template.safeArea;
+
+  const textLayer = findLayer(template, 'text');
+  const headerLayer = findLayer(template, 'header');
+  const refrainLayer = findLayer(template, 'refrain');
+  const particlesLayer = findLayer(template, 'particles');
+
+  // Init Particles
+  const particles = particlesLayer ? new ParticleSystem(particlesLayer.count, frameWidth, frameHeight, random) : null;
+
+  // --- PRE-CALCULATE LAYOUT ---
+
+  let titleLines: string[] = [];
+  if (headerLayer) {
+    ctx.font = toCanvasFont(headerLayer.titleFont, template);
+    titleLines = wrapTitle(ctx, reading.title, frameWidth - 140);
+  }
+
+  // Psalms: stanzas scroll, the refrain stays in a banner and lights up when sung
+  const psalm = getPsalmLayout(reading);
+
+  const textFont = textLayer ? textLayer.font : DEFAULT_TEXT_FONT;
+  const lineHeight = textFont.lineHeight || Math.round(textFont.size * 1.6);
+  ctx.font = toCanvasFont(textFont, template);
+  let wordMap: ReturnType<typeof calculateLayout>['wordMap'] = [];
+  if (psalm) {
+    let offsetY = 0;
+    psalm.stanzas.forEach(stanza => {
+      const layout = calculateLayout(ctx, stanza, frameWidth - (padding * 2), lineHeight, frameWidth / 2);
+      wordMap = wordMap.concat(layout.wordMap.map(w => ({ ...w, y: w.y + offsetY })));
+      offsetY += layout.totalHeight + lineHeight / 2; // Stanza gap
+    });
+  } else {
+    wordMap = calculateLayout(ctx, reading.text, frameWidth - (padding * 2), lineHeight, frameWidth / 2).wordMap;
+  }
+
+  // Timings follow the narration, which for psalms repeats the refrain
+  const allWordsFlat = tokenizeWords(getNarrationText(reading));
+  // Real timings only if they still match the text (it may have been edited)
+  const wordTimings = asset.wordTimings && asset.wordTimings.length === allWordsFlat.length ? asset.wordTimings : null;
+
+  // Refrain banner lines, and for each narrated word the next stanza word
+  const refrainLines: string[] = [];
+  const nextStanzaWord: number[] = [];
+  if (psalm) {
+    if (refrainLayer) {
+      ctx.font = toCanvasFont(refrainLayer.font, template);
+      tokenizeWords(psalm.refrain).forEach(word => {
+        const last = refrainLines[refrainLines.length - 1];
+        if (last && ctx.measureText(`${last} ${word}`).width < frameWidth - padding * 2 - 40) {
+          refrainLines[refrainLines.length - 1] = `${last} ${word}`;
+        } else {
+          refrainLines.push(word);
+        }
+      });
+    }
+    let next = 0;
+    psalm.words.forEach(word => {
+      nextStanzaWord.push(word.part === 'stanza' ? word.index : next);
+      if (word.part === 'stanza') next = word.index + 1;
+    });
+  }
+  const refrainLineHeight = refrainLayer ? refrainLayer.font.lineHeight || refrainLayer.font.size * 1.3 : 0;
+  const refrainBannerHeight = refrainLines.length * refrainLineHeight + 28;
+  const textTop = psalm && refrainLayer ? refrainLayer.y + refrainBannerHeight + 20 : template.safeArea.top;
+
+  const centerY = frameHeight / 2;
+  let smoothedScrollY = centerY - (wordMap[0]?.y || 0);
+
+  // --- LAYERS ---
+
+  // Scenes are placed on the narration once its duration is known
+  const scenes = getScenes(asset, bgImages.length);
+  let timedScenes: TimedScene[] = [];
+  let timedDuration = -1;
+
+  const drawScene = (scene: Scene, localProgress: number, layer: BackgroundLayer, frame: FrameInfo) => {
+    const bgImage = bgImages[scene.imageIndex] || bgImages[0];
+    const { cropW, cropH, cropX, cropY } = getCoverCrop(bgImage.naturalWidth, bgImage.naturalHeight, frameWidth / frameHeight);
+
+    // Dynamic Zoom + Beat Pulse (Resets for each scene via localProgress)
+    const pulseScale = (frame.avgVolume / 255) * layer.pulse;
+    const scale = 1 + (localProgress * layer.zoom) + pulseScale;
+
+    const viewW = cropW / scale;
+    const viewH = cropH / scale;
+    const viewX = cropX + (cropW - viewW) / 2;
+    const viewY = cropY + (cropH - viewH) / 2;
+
+    ctx.drawImage(bgImage, Math.floor(viewX), Math.floor(viewY), Math.floor(viewW), Math.floor(viewH), 0, 0, frameWidth, frameHeight);
+  };
+
+  const drawBackground = (layer: BackgroundLayer, frame: FrameInfo) => {
+    // Before the audio metadata loads there is no duration yet
+    const duration = frame.duration || 1;
+    if (duration !== timedDuration) {
+      timedScenes = resolveSceneTimes(scenes, duration, wordTimings, allWordsFlat.length);
+      timedDuration = duration;
+    }
+    const scene = getSceneFrame(timedScenes, Math.min(frame.time, duration));
+
+    ctx.globalAlpha = 1;
+    if (scene.previous) {
+      // Outgoing scene underneath, incoming one faded or wiped in on top
+      drawScene(scene.previous, scene.previousProgress ?? 1, layer, frame);
+      ctx.save();
+      if (scene.current.transition === 'wipe') {
+        ctx.beginPath();
+        ctx.rect(0, 0, frameWidth * scene.mix, frameHeight);
+        ctx.clip();
+      } else {
+        ctx.globalAlpha = scene.mix;
+      }
+      drawScene(scene.current, scene.localProgress, layer, frame);
+      ctx.restore();
+    } else {
+      drawScene(scene.current, scene.localProgress, layer, frame);
+    }
+
+    // Liturgical color wash (purple in Advent, green in Ordinary Time...)
+    if (layer.tint) {
+      ctx.fillStyle = theme.tint;
+      ctx.fillRect(0, 0, frameWidth, frameHeight);
+    }
+
+    // Dark Overlay
+    const gradient = ctx.createLinearGradient(0, 0, 0, frameHeight);
+    layer.overlay.forEach(stop => gradient.addColorStop(stop.offset, color(stop.color)));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, frameWidth, frameHeight);
+  };
+
+  const drawText = (layer: TextLayer, frame: FrameInfo) => {
+    ctx.save();
+    ctx.beginPath();
+    // Adjust clip to respect new larger bottom safe area
+    const clipHeight = frameHeight - textTop - template.safeArea.bottom;
+    ctx.rect(0, textTop, frameWidth, clipHeight);
+    ctx.clip();
+
+    const currentWordData = wordMap[Math.min(frame.currentWordIndex, wordMap.length - 1)];
+    const targetY = currentWordData ? currentWordData.y : 0;
+
+    const targetScrollY = centerY - targetY;
+    smoothedScrollY = lerp(smoothedScrollY, targetScrollY, 1 - Math.pow(layer.scrollSmoothing, frame.step));
+
+    ctx.translate(0, smoothedScrollY);
+
+    ctx.font = toCanvasFont(layer.font, template);
+    ctx.textAlign = "left";
+    ctx.textBaseline = "top";
+    ctx.lineJoin = "round";
+
+    const visibleMin = -smoothedScrollY + textTop - 100;
+    const visibleMax = -smoothedScrollY + frameHeight - template.safeArea.bottom + 100;
+
+    wordMap.forEach((w, wIdx) => {
+      if (w.y < visibleMin || w.y > visibleMax) return;
+
+      const isActive = wIdx === frame.currentWordIndex && !frame.isRefrainActive;
+      const isPast = wIdx < frame.currentWordIndex;
+
+      if (isActive) {
+        ctx.shadowColor = "rgba(0,0,0,0.9)";
+        ctx.shadowBlur = 4;
+        ctx.shadowOffsetX = 2;
+        ctx.shadowOffsetY = 4;
+
+        ctx.fillStyle = color(layer.activeColor);
+        ctx.fillText(w.text, w.x, w.y);
+
+        ctx.shadowColor = "transparent";
+        ctx.shadowBlur = 0;
+        ctx.shadowOffsetX = 0;
+        ctx.shadowOffsetY = 0;
+      } else if (isPast) {
+        ctx.fillStyle = color(layer.pastColor);
+        ctx.fillText(w.text, w.x, w.y);
+      } else {
+        if (layer.strokeWidth > 0) {
+          ctx.strokeStyle = color(layer.strokeColor);
+          ctx.lineWidth = layer.strokeWidth;
+          ctx.strokeText(w.text, w.x, w.y);
+        }
+        ctx.fillStyle = color(layer.color);
+        ctx.fillText(w.text, w.x, w.y);
+      }
+    });
+    ctx.restore();
+  };
+
+  // Cues depend on the duration when there are no timings, like the scenes
+  let captionCues: CaptionCue[] = [];
+  let captionDuration = -1;
+
+  const drawCaptions = (layer: CaptionsLayer, frame: FrameInfo) => {
+    const duration = frame.duration || 1;
+    if (duration !== captionDuration) {
+      captionCues = buildCaptionCues(reading, asset.wordTimings, duration, layer.maxLineChars);
+      captionDuration = duration;
+    }
+    // Nothing during the end tail, so the closing frame is clean
+    if (frame.progress >= 1) return;
+    const cue = captionCues.find(c => frame.spokenWordIndex >= c.firstWord && frame.spokenWordIndex <= c.lastWord);
+    if (!cue) return;
+
+    ctx.font = toCanvasFont(layer.font, template);
+    const spaceWidth = ctx.measureText(" ").width;
+    const lines = cue.lines.map(line => {
+      const words = line.split(" ").map(text => ({ text, width: ctx.measureText(text).width }));
+      return { words, width: words.reduce((sum, w) => sum + w.width, 0) + spaceWidth * (words.length - 1) };
+    });
+
+    // Lines that would overflow the frame are drawn smaller
+    const boxPadding = 24;
+    const widest = Math.max(...lines.map(line => line.width));
+    const fit = Math.min(1, (frameWidth - padding - boxPadding * 2) / widest);
+    const lineHeight = (layer.font.lineHeight || layer.font.size * 1.3) * fit;
+    const boxWidth = widest * fit + boxPadding * 2;
+    const boxHeight = lines.length * lineHeight + boxPadding;
+    const boxY = frameHeight - layer.bottom - boxHeight;
+
+    fillRoundRect(ctx, (frameWidth - boxWidth) / 2, boxY, boxWidth, boxHeight, layer.radius, color(layer.background));
+
+    ctx.font = toCanvasFont({ ...layer.font, size: layer.font.size * fit }, template);
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    ctx.lineJoin = "round";
+
+    let wordIndex = cue.firstWord;
+    lines.forEach((line, lineIndex) => {
+      let x = (frameWidth - line.width * fit) / 2;
+      const y = boxY + boxPadding / 2 + lineHeight * (lineIndex + 0.5);
+      line.words.forEach(word => {
+        if (layer.strokeWidth > 0) {
+          ctx.strokeStyle = color(layer.strokeColor);
+          ctx.lineWidth = layer.strokeWidth;
+          ctx.strokeText(word.text, x, y);
+        }
+        ctx.fillStyle = color(wordIndex === frame.spokenWordIndex ? layer.activeColor : layer.color);
+        ctx.fillText(word.text, x, y);
+        x += (word.width + spaceWidth) * fit;
+        wordIndex++;
+      });
+    });
+  };
+
+  const drawHeader = (layer: HeaderLayer) => {
+    // Feast or memorial takes the pill when there is one
+    const dateText = (reading.liturgy?.feast || reading.date || language.overlays.headerFallback).toUpperCase();
+    ctx.font = toCanvasFont(layer.badgeFont, template);
+    const dateWidth = ctx.measureText(dateText).width + 50;
+    const dateX = (frameWidth - dateWidth) / 2;
+    const dateY = layer.y;
+
+    fillRoundRect(ctx, dateX, dateY, dateWidth, layer.badgeHeight, layer.badgeHeight / 2, color(layer.badgeColor), color(layer.badgeBorder));
+
+    ctx.fillStyle = color(layer.color);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(dateText, frameWidth / 2, dateY + layer.badgeHeight / 2);
+
+    ctx.font = toCanvasFont(layer.titleFont, template);
+    ctx.shadowColor = "rgba(0,0,0,0.9)";
+    ctx.shadowBlur = 10;
+    ctx.shadowOffsetY = 4;
+    ctx.fillStyle = color(layer.color);
+
+    let titleY = dateY + layer.titleOffset;
+    titleLines.forEach(line => {
+      ctx.fillText(line, frameWidth / 2, titleY);
+      titleY += layer.titleFont.lineHeight || layer.titleFont.size * 1.2;
+    });
+  };
+
+  const drawRefrain = (layer: RefrainLayer, frame: FrameInfo) => {
+    if (!psalm) return;
+    const bannerX = padding / 2;
+    const bannerWidth = frameWidth - padding;
+    ctx.shadowColor = "rgba(0,0,0,0.6)";
+    ctx.shadowBlur = 10;
+    ctx.shadowOffsetY = 0;
+    fillRoundRect(
+      ctx, bannerX, layer.y, bannerWidth, refrainBannerHeight, 18,
+      color(frame.isRefrainActive ? layer.activeBackground : layer.background),
+      frame.isRefrainActive ? "rgba(255, 255, 255, 0.4)" : color(layer.activeBackground)
+    );
+    ctx.shadowColor = "transparent";
+    ctx.shadowBlur = 0;
+
+    ctx.font = `bold 18px ${template.fontFamily}`;
+    ctx.fillStyle = "rgba(255, 255, 255, 0.7)";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    ctx.fillText("R.", bannerX + 16, layer.y + 22);
+
+    ctx.font = toCanvasFont(layer.font, template);
+    ctx.textAlign = "center";
+    ctx.fillStyle = color(frame.isRefrainActive ? layer.activeColor : layer.color);
+    refrainLines.forEach((line, index) => {
+      ctx.fillText(line, frameWidth / 2, layer.y + 14 + refrainLineHeight * (index + 0.5));
+    });
+  };
+
+  const drawVisualizer = (layer: VisualizerLayer, frame: FrameInfo) => {
+    const { frequencyData } = frame;
+    const barWidth = (frameWidth / frequencyData.length) * 2.5;
+    const visCenter = frameWidth / 2;
+    const visY = frameHeight - layer.bottom; // Bottom pinned
+
+    ctx.fillStyle = color(layer.color);
+    for (let i = 0; i < frequencyData.length / 2; i++) {
+      const barHeight = (frequencyData[i] / 255) * layer.maxHeight;
+      ctx.fillRect(visCenter + (i * barWidth), visY - barHeight, barWidth - 2, barHeight);
+      ctx.fillRect(visCenter - ((i + 1) * barWidth), visY - barHeight, barWidth - 2, barHeight);
+    }
+  };
+
+  const drawReference = (layer: ReferenceLayer) => {
+    const refText = reading.reference;
+    ctx.font = toCanvasFont(layer.font, template);
+    const refWidth = ctx.measureText(refText).width + 60;
+    const refX = (frameWidth - refWidth) / 2;
+    const refY = frameHeight - layer.bottom;
+
+    ctx.shadowColor = "rgba(0,0,0,0.5)";
+    ctx.shadowBlur = 10;
+    fillRoundRect(ctx, refX, refY, refWidth, layer.height, layer.radius, color(layer.color));
+
+    ctx.fillStyle = color(layer.textColor);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.shadowColor = "transparent";
+    ctx.fillText(refText, frameWidth / 2, refY + layer.height / 2);
+  };
+
+  const drawCta = (layer: CtaLayer) => {
+    const ctaY = frameHeight - layer.bottom;
+    const ctaText = text(layer.text);
+
+    // Line 1: Main Hook (outlined for visibility over the visualizer)
+    ctx.font = toCanvasFont(layer.font, template);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    ctx.shadowColor = "rgba(0,0,0,1)";
+    ctx.shadowBlur = 15;
+
+    ctx.fillStyle = color(layer.color);
+    ctx.fillText(ctaText, frameWidth / 2, ctaY);
+
+    ctx.strokeStyle = color(layer.strokeColor);
+    ctx.lineWidth = 6;
+    ctx.strokeText(ctaText, frameWidth / 2, ctaY);
+    ctx.fillText(ctaText, frameWidth / 2, ctaY);
+
+    // Line 2: Subtitle
+    if (layer.subtitle) {
+      ctx.font = toCanvasFont(layer.subtitleFont, template);
+      ctx.fillStyle = color(layer.subtitleColor);
+      ctx.shadowBlur = 4;
+      ctx.shadowColor = "black";
+      ctx.fillText(text(layer.subtitle), frameWidth / 2, ctaY + layer.font.size + 3);
+    }
+  };
+
+  const drawProgress = (layer: ProgressLayer, frame: FrameInfo) => {
+    const gradBar = ctx.createLinearGradient(0, 0, frameWidth, 0);
+    gradBar.addColorStop(0, color(layer.startColor));
+    gradBar.addColorStop(1, color(layer.endColor));
+
+    ctx.fillStyle = color(layer.trackColor);
+    ctx.fillRect(0, frameHeight - layer.height, frameWidth, layer.height);
+
+    ctx.fillStyle = gradBar;
+    ctx.shadowColor = color(layer.glowColor);
+    ctx.shadowBlur = 15;
+    ctx.fillRect(0, frameHeight - layer.height, frameWidth * frame.progress, layer.height);
+  };
+
+  return ({ currentTime, duration, frequencyData, deltaTime }: FrameState) => {
+    const step = deltaTime * 60;
+
+    let avgVolume = 0;
+    for (let i = 0; i < frequencyData.length; i++) avgVolume += frequencyData[i];
+    avgVolume = avgVolume / frequencyData.length;
+
+    const progress = Math.min(currentTime / (duration || 1), 1);
+
+    const spokenWordIndex = wordTimings
+      ? findWordIndexAtTime(wordTimings, currentTime)
+      : Math.min(
+        Math.floor(progress * allWordsFlat.length),
+        allWordsFlat.length - 1
+      );
+    // While the refrain is sung no stanza word is active
+    const isRefrainActive = psalm?.words[spokenWordIndex]?.part === 'refrain';
+    const currentWordIndex = psalm ? (nextStanzaWord[spokenWordIndex] ?? 0) : spokenWordIndex;
+
+    const frame: FrameInfo = {
+      time: currentTime, duration, progress, avgVolume, step, frequencyData, currentWordIndex, spokenWordIndex, isRefrainActive
+    };
+
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.clearRect(0, 0, frameWidth, frameHeight);
+    template.layers.forEach(layer => {
+      // Every layer starts from a clean state
+      ctx.shadowColor = "transparent";
+      ctx.shadowBlur = 0;
+      ctx.shadowOffsetX = 0;
+      ctx.shadowOffsetY = 0;
+      ctx.globalAlpha = 1;
+
+      switch (layer.type) {
+        case 'background': return drawBackground(layer, frame);
+        case 'particles': return particles?.updateAndDraw(ctx, step, color(layer.color));
+        case 'text': return drawText(layer, frame);
+        case 'captions': return drawCaptions(layer, frame);
+        case 'header': return drawHeader(layer);
+        case 'refrain': return drawRefrain(layer, frame);
+        case 'visualizer': return drawVisualizer(layer, frame);
+        case 'reference': return drawReference(layer);
+        case 'cta': return drawCta(layer);
+        case 'progress': return drawProgress(layer, frame);
+      }
+    });
+  };
+};
+
+/**
+ * Builds the drawing function for the cover: a poster of the first scene
+ * with the title, reference and date, styled from the template's own layers
+ * (background overlay, header badge, reference pill). Used for the thumbnail
+ * and for the optional intro before the narration.
+ */
+export const createCoverRenderer = (
+  ctx: CanvasRenderingContext2D,
+  reading: ReadingContent,
+  asset: GeneratedAsset,
+  bgImages: HTMLImageElement[],
+  baseTemplate: VideoTemplate = DEFAULT_TEMPLATE,
+  format: Pick<OutputFormat, 'width' | 'height'> = DEFAULT_OUTPUT_FORMAT
+) => {
+  const { template, width: frameWidth, height: frameHeight, scale } = fitTemplate(baseTemplate, format.width, format.height);
+  const theme = getLiturgicalTheme(reading);
+  const color = (value: string) => resolveColor(value, theme);
+  const language = getReadingLanguage(reading);
+  const { padding } = template.safeArea;
+
+  const background = findLayer(template, 'background') || findLayer(DEFAULT_TEMPLATE, 'background')!;
+  const header = findLayer(template, 'header') || findLayer(DEFAULT_TEMPLATE, 'header')!;
+  const reference = findLayer(template, 'reference') || findLayer(DEFAULT_TEMPLATE, 'reference')!;
+
+  // The first scene of the timeline, without its Ken Burns zoom
+  const firstScene = getScenes(asset, bgImages.length)[0];
+  const bgImage = bgImages[firstScene?.imageIndex ?? 0] || bgImages[0];
+
+  // Poster title: the header font, larger
+  const titleFont: TemplateFont = {
+    ...header.titleFont,
+    size: header.titleFont.size * 1.8,
+    lineHeight: (header.titleFont.lineHeight || header.titleFont.size * 1.2) * 1.8
+  };
+  ctx.font = toCanvasFont(titleFont, template);
+  const titleLines = wrapTitle(ctx, reading.title, frameWidth - padding * 2);
+  const titleLineHeight = titleFont.lineHeight!;
+
+  return () => {
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.clearRect(0, 0, frameWidth, frameHeight);
+    ctx.globalAlpha = 1;
+    ctx.shadowColor = "transparent";
+    ctx.shadowBlur = 0;
+    ctx.shadowOffsetY = 0;
+
+    if (bgImage) {
+      const { cropW, cropH, cropX, cropY } = getCoverCrop(bgImage.naturalWidth, bgImage.naturalHeight, frameWidth / frameHeight);
+      ctx.drawImage(bgImage, cropX, cropY, cropW, cropH, 0, 0, frameWidth, frameHeight);
+    }
+    if (background.tint) {
+      ctx.fillStyle = theme.tint;
+      ctx.fillRect(0, 0, frameWidth, frameHeight);
+    }
+    const gradient = ctx.createLinearGradient(0, 0, 0, frameHeight);
+    background.overlay.forEach(stop => gradient.addColorStop(stop.offset, color(stop.color)));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, frameWidth, frameHeight);
+
+    // Date badge at the top, as in the video header
+    const dateText = (reading.date || language.overlays.headerFallback).toUpperCase();
+    ctx.font = toCanvasFont(header.badgeFont, template);
+    const dateWidth = ctx.measureText(dateText).width + 50;
+    fillRoundRect(ctx, (frameWidth - dateWidth) / 2, header.y, dateWidth, header.badgeHeight, header.badgeHeight / 2, color(header.badgeColor), color(header.badgeBorder));
+    ctx.fillStyle = color(header.color);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(dateText, frameWidth / 2, header.y + header.badgeHeight / 2);
+
+    // Title, feast and reference centered as one block
+    const feast = reading.liturgy?.feast?.toUpperCase();
+    const feastHeight = feast ? header.badgeFont.size * 1.8 : 0;
+    const blockHeight = feastHeight + titleLines.length * titleLineHeight + 30 + reference.height;
+    let y = (frameHeight - blockHeight) / 2;
+
+    ctx.shadowColor = "rgba(0,0,0,0.9)";
+    ctx.shadowBlur = 12;
+    ctx.shadowOffsetY = 4;
+    if (feast) {
+      ctx.font = toCanvasFont(header.badgeFont, template);
+      ctx.fillStyle = color("$pill");
+      ctx.fillText(feast, frameWidth / 2, y + feastHeight / 2, frameWidth - padding * 2);
+      y += feastHeight;
+    }
+
+    ctx.font = toCanvasFont(titleFont, template);
+    ctx.fillStyle = color(header.color);
+    titleLines.forEach(line => {
+      ctx.fillText(line, frameWidth / 2, y + titleLineHeight / 2);
+      y += titleLineHeight;
+    });
+    y += 30;
+
+    ctx.font = toCanvasFont(reference.font, template);
+    const refWidth = ctx.measureText(reading.reference).width + 60;
+    ctx.shadowBlur = 10;
+    ctx.shadowOffsetY = 0;
+    fillRoundRect(ctx, (frameWidth - refWidth) / 2, y, refWidth, reference.height, reference.radius, color(reference.color));
+    ctx.shadowColor = "transparent";
+    ctx.fillStyle = color(reference.textColor);
+    ctx.fillText(reading.reference, frameWidth / 2, y + reference.height / 2);
+  };
+};
+
+/**
+ * The cover as an image file (browser), e.g. for the platform thumbnail
+ */
+export const renderCoverImage = async (
+  reading: ReadingContent,
+  asset: GeneratedAsset,
+  template?: VideoTemplate,
+  format: Pick<OutputFormat, 'width' | 'height'> = DEFAULT_OUTPUT_FORMAT,
+  type: CoverImageType = 'image/jpeg'
+): Promise<Blob> => {
+  if (!asset.imageUrls || asset.imageUrls.length === 0) throw new Error("Missing assets");
+  await document.fonts.ready;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = format.width;
+  canvas.height = format.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas context not available");
+
+  const bgImages = await Promise.all(asset.imageUrls.map(url => loadImage(url)));
+  createCoverRenderer(ctx, reading, asset, bgImages, template, format)();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("No se pudo exportar la portada")), type, 0.92);
+  });
+};
+
 /**
  * Main function to generate the video
  */
-export const generateVideoFile = async (reading: ReadingContent, asset: GeneratedAsset): Promise<string> => {
+export const generateVideoFile = async (
+  reading: ReadingContent,
+  asset: GeneratedAsset,
+  template?: VideoTemplate,
+  format: OutputFormat = DEFAULT_OUTPUT_FORMAT,
+  music?: MusicBed | null,
+  signal?: AbortSignal,
+  onProgress?: (progress: Progress) => void
+): Promise<string> => {
   if (!asset.imageUrls || asset.imageUrls.length === 0 || !asset.audioUrl) throw new Error("Missing assets");
+  signal?.throwIfAborted();
   await document.fonts.ready;
 
   const canvas = document.createElement("canvas");
-  canvas.width = WIDTH;
-  canvas.height = HEIGHT;
+  canvas.width = format.width;
+  canvas.height = format.height;
   const ctx = canvas.getContext("2d");
   if (!ctx) throw new Error("Canvas context not available");
 
@@ -208,41 +871,40 @@ export const generateVideoFile = async (reading: ReadingContent, asset: Generate
 
   // Analyser node for visualizer
   const analyser = audioCtx.createAnalyser();
-  analyser.fftSize = 64; // Low resolution for chunky bars
-  const bufferLength = analyser.frequencyBinCount;
-  const dataArray = new Uint8Array(bufferLength);
+  analyser.fftSize = VISUALIZER_FFT_SIZE; // Low resolution for chunky bars
+  const dataArray = new Uint8Array(analyser.frequencyBinCount);
 
   source.connect(analyser);
   analyser.connect(dest);
   analyser.connect(audioCtx.destination);
 
-  // Init Particles
-  const particles = new ParticleSystem(40);
-
-  // --- PRE-CALCULATE LAYOUT ---
-
-  ctx.font = `900 ${FONT_SIZE_TITLE}px Inter, sans-serif`;
-  const titleWords = reading.title.toUpperCase().split(' ');
-  const titleLines: string[] = [];
-  let currentTitleLine = titleWords[0];
-  for (let i = 1; i < titleWords.length; i++) {
-    const w = titleWords[i];
-    const width = ctx.measureText(currentTitleLine + " " + w).width;
-    if (width < WIDTH - 140) {
-      currentTitleLine += " " + w;
-    } else {
-      titleLines.push(currentTitleLine);
-      currentTitleLine = w;
-    }
+  // Music bed: looped under the narration, its ducking computed up front
+  let startMusic = () => {};
+  if (music) {
+    const decode = async (url: string) => audioCtx.decodeAudioData(await (await fetch(url)).arrayBuffer());
+    const [voice, track] = await Promise.all([decode(asset.audioUrl), decode(music.url)]);
+    const envelope = computeMusicEnvelope(voice.getChannelData(0), voice.sampleRate, voice.duration + END_TAIL_SECONDS, music.volume);
+
+    const musicSource = audioCtx.createBufferSource();
+    musicSource.buffer = track;
+    musicSource.loop = true;
+    const musicGain = audioCtx.createGain();
+    musicGain.gain.value = 0;
+    musicSource.connect(musicGain);
+    musicGain.connect(dest);
+    musicGain.connect(audioCtx.destination);
+
+    startMusic = () => {
+      musicSource.start();
+      musicGain.gain.setValueCurveAtTime(envelope, audioCtx.currentTime, envelope.length / ENVELOPE_RATE);
+    };
   }
-  titleLines.push(currentTitleLine);
-
-  ctx.font = `900 ${FONT_SIZE_TEXT}px Inter, sans-serif`;
-  const { wordMap } = calculateLayout(ctx, reading.text, WIDTH - (PADDING * 2));
-  const allWordsFlat = reading.text.split(/\s+/).filter(w => w.length > 0);
 
-  const centerY = HEIGHT / 2;
-  let smoothedScrollY = centerY - (wordMap[0]?.y || 0);
+  const renderFrame = createFrameRenderer(ctx, reading, asset, bgImages, Math.random, template, format);
+  const renderCover = createCoverRenderer(ctx, reading, asset, bgImages, template, format);
+  const intro = template?.coverIntro || 0;
+  let introUntil = 0;
+  let lastFrameTime = performance.now();
 
   // --- RECORDING SETUP ---
   const stream = canvas.captureStream(30);
@@ -259,17 +921,45 @@ export const generateVideoFile = async (reading: ReadingContent, asset: Generate
 
   return new Promise((resolve, reject) => {
     recorder.onerror = (e) => reject(e);
+    // Realtime capture: progress is the audio position plus the end tail
+    const reportProgress = onProgress ? createProgressTracker(onProgress) : null;
+    let endedAt: number | null = null;
+
     recorder.onstop = () => {
+      audioCtx.close();
+      if (signal?.aborted) return;
+      reportProgress?.(1);
       const blob = new Blob(chunks, { type: mimeType });
       resolve(URL.createObjectURL(blob));
+    };
+
+    // Cancelled from the job queue: drop the recording
+    if (signal?.aborted) {
       audioCtx.close();
+      return reject(signal.reason);
+    }
+    signal?.addEventListener('abort', () => {
+      audio.pause();
+      if (recorder.state !== 'inactive') recorder.stop();
+      else audioCtx.close();
+      reject(signal.reason);
+    }, { once: true });
+
+    // One animation loop for the whole render; with an intro it is already
+    // drawing the cover when the narration starts
+    let isDrawing = false;
+    const startDrawing = () => {
+      if (isDrawing) return;
+      isDrawing = true;
+      drawFrame();
     };
 
     // Start recording ONLY after audio actually starts to avoid "paused" race condition
-    audio.play()
+    const startNarration = () => audio.play()
       .then(() => {
-        recorder.start();
-        drawFrame();
+        if (recorder.state === 'inactive') recorder.start();
+        startMusic();
+        startDrawing();
       })
       .catch(e => {
         console.error("Audio playback failed:", e);
@@ -277,6 +967,12 @@ export const generateVideoFile = async (reading: ReadingContent, asset: Generate
       });
 
     const drawFrame = () => {
+      if (signal?.aborted) return;
+      if (performance.now() < introUntil) {
+        renderCover();
+        requestAnimationFrame(drawFrame);
+        return;
+      }
       // Robust check: End only if actually ended OR paused after having started
       if (audio.ended) {
         // If we haven't started the ending sequence, start it now
@@ -285,7 +981,7 @@ export const generateVideoFile = async (reading: ReadingContent, asset: Generate
           // Stop recorder after 2 seconds
           setTimeout(() => {
             if (recorder.state === 'recording') recorder.stop();
-          }, 2000);
+          }, END_TAIL_SECONDS * 1000);
         }
         // IMPORTANT: Continue drawing frames for those 2 seconds!
         // Do NOT return here. fall through to drawing.
@@ -296,235 +992,30 @@ export const generateVideoFile = async (reading: ReadingContent, asset: Generate
 
       // Get Audio Data for Visuals
       analyser.getByteFrequencyData(dataArray);
-      let avgVolume = 0;
-      for (let i = 0; i < bufferLength; i++) avgVolume += dataArray[i];
-      avgVolume = avgVolume / bufferLength;
-
-      const duration = audio.duration || 1;
-      const currentTime = audio.currentTime;
-      const progress = currentTime / duration;
-
-      // === LAYER 1: BACKGROUND (Multi-Image Switching) ===
-      ctx.clearRect(0, 0, WIDTH, HEIGHT);
-
-      // Determine which image to show based on progress segments
-      const imgDuration = 1 / bgImages.length;
-      const imgIndex = Math.min(Math.floor(progress / imgDuration), bgImages.length - 1);
-      const bgImage = bgImages[imgIndex];
-
-      // Calculate a local progress for this specific image (0 to 1) for the zoom effect
-      const segmentStart = imgIndex * imgDuration;
-      const localProgress = (progress - segmentStart) / imgDuration; // 0.0 -> 1.0 within the image's slot
-
-      const canvasRatio = WIDTH / HEIGHT;
-      const sw = bgImage.naturalWidth;
-      const sh = bgImage.naturalHeight;
-      const imageRatio = sw / sh;
-
-      let cropW, cropH, cropX, cropY;
-
-      if (imageRatio > canvasRatio) {
-        cropH = sh;
-        cropW = sh * canvasRatio;
-        cropX = (sw - cropW) / 2;
-        cropY = 0;
-      } else {
-        cropW = sw;
-        cropH = sw / canvasRatio;
-        cropX = 0;
-        cropY = (sh - cropH) / 2;
-      }
-
-      // Dynamic Zoom + Beat Pulse (Resets for each image via localProgress)
-      const pulseScale = (avgVolume / 255) * 0.05;
-      const scale = 1 + (localProgress * 0.15) + pulseScale;
-
-      const viewW = cropW / scale;
-      const viewH = cropH / scale;
-      const viewX = cropX + (cropW - viewW) / 2;
-      const viewY = cropY + (cropH - viewH) / 2;
-
-      ctx.globalAlpha = 1;
-      ctx.drawImage(bgImage, Math.floor(viewX), Math.floor(viewY), Math.floor(viewW), Math.floor(viewH), 0, 0, WIDTH, HEIGHT);
-
-      // Dark Overlay
-      const gradient = ctx.createLinearGradient(0, 0, 0, HEIGHT);
-      gradient.addColorStop(0, "rgba(0, 0, 0, 0.4)");
-      gradient.addColorStop(0.3, "rgba(0, 0, 0, 0.3)");
-      gradient.addColorStop(0.7, "rgba(0, 0, 0, 0.8)");
-      gradient.addColorStop(1, "rgba(0, 0, 0, 0.98)");
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, WIDTH, HEIGHT);
-
-      // === LAYER 1.5: PARTICLES (Holy Dust) ===
-      particles.updateAndDraw(ctx);
 
-
-      // === LAYER 2: SCROLLING TEXT ===
-      ctx.save();
-      ctx.beginPath();
-      // Adjust clip to respect new larger bottom safe area
-      const clipHeight = HEIGHT - TOP_SAFE_AREA - BOTTOM_SAFE_AREA;
-      ctx.rect(0, TOP_SAFE_AREA, WIDTH, clipHeight);
-      ctx.clip();
-
-      const currentWordIndex = Math.min(
-        Math.floor(progress * allWordsFlat.length),
-        allWordsFlat.length - 1
-      );
-      const currentWordData = wordMap[currentWordIndex];
-      const targetY = currentWordData ? currentWordData.y : 0;
-
-      const targetScrollY = centerY - targetY;
-      smoothedScrollY = lerp(smoothedScrollY, targetScrollY, 0.1);
-
-      ctx.translate(0, smoothedScrollY);
-
-      ctx.font = `900 ${FONT_SIZE_TEXT}px Inter, sans-serif`;
-      ctx.textAlign = "left";
-      ctx.textBaseline = "top";
-      ctx.lineJoin = "round";
-
-      const visibleMin = -smoothedScrollY + TOP_SAFE_AREA - 100;
-      const visibleMax = -smoothedScrollY + HEIGHT - BOTTOM_SAFE_AREA + 100;
-
-      wordMap.forEach((w, wIdx) => {
-        if (w.y < visibleMin || w.y > visibleMax) return;
-
-        const isActive = wIdx === currentWordIndex;
-        const isPast = wIdx < currentWordIndex;
-
-        if (isActive) {
-          ctx.shadowColor = "rgba(0,0,0,0.9)";
-          ctx.shadowBlur = 4;
-          ctx.shadowOffsetX = 2;
-          ctx.shadowOffsetY = 4;
-
-          ctx.fillStyle = "#fbbf24";
-          ctx.fillText(w.text, w.x, w.y);
-
-          ctx.shadowColor = "transparent";
-          ctx.shadowBlur = 0;
-          ctx.shadowOffsetX = 0;
-          ctx.shadowOffsetY = 0;
-        } else if (isPast) {
-          ctx.fillStyle = "rgba(255, 255, 255, 0.3)";
-          ctx.fillText(w.text, w.x, w.y);
-        } else {
-          ctx.strokeStyle = "black";
-          ctx.lineWidth = 6;
-          ctx.strokeText(w.text, w.x, w.y);
-          ctx.fillStyle = "white";
-          ctx.fillText(w.text, w.x, w.y);
-        }
+      const now = performance.now();
+      if (audio.ended && endedAt === null) endedAt = now;
+      const tail = endedAt === null ? 0 : Math.min(END_TAIL_SECONDS, (now - endedAt) / 1000);
+      reportProgress?.((audio.currentTime + tail) / ((audio.duration || 1) + END_TAIL_SECONDS));
+      renderFrame({
+        currentTime: audio.currentTime,
+        duration: audio.duration || 1,
+        frequencyData: dataArray,
+        deltaTime: (now - lastFrameTime) / 1000
       });
-      ctx.restore();
-
-
-      // === LAYER 3: HEADER ===
-      const dateText = (reading.date || "Evangelio del Día").toUpperCase();
-      ctx.font = `bold ${FONT_SIZE_BADGE}px Inter, sans-serif`;
-      const dateWidth = ctx.measureText(dateText).width + 50;
-      const dateX = (WIDTH - dateWidth) / 2;
-      const dateY = 80;
-
-      fillRoundRect(ctx, dateX, dateY, dateWidth, 44, 22, "rgba(0, 0, 0, 0.6)", "rgba(255, 255, 255, 0.15)");
-
-      ctx.fillStyle = "white";
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      ctx.fillText(dateText, WIDTH / 2, dateY + 22);
-
-      ctx.font = `900 ${FONT_SIZE_TITLE}px Inter, sans-serif`;
-      ctx.shadowColor = "rgba(0,0,0,0.9)";
-      ctx.shadowBlur = 10;
-      ctx.shadowOffsetY = 4;
-      ctx.fillStyle = "white";
-
-      let titleY = dateY + 80;
-      titleLines.forEach(line => {
-        ctx.fillText(line, WIDTH / 2, titleY);
-        titleY += 45;
-      });
-
-
-      // === LAYER 4: VISUALIZER (Moved behind CTA) ===
-      const barWidth = (WIDTH / bufferLength) * 2.5;
-      const visCenter = WIDTH / 2;
-      const visY = HEIGHT - 40; // Bottom pinned
-
-      ctx.fillStyle = "rgba(167, 139, 250, 0.6)";
-      for (let i = 0; i < bufferLength / 2; i++) {
-        const barHeight = (dataArray[i] / 255) * 60;
-        ctx.fillRect(visCenter + (i * barWidth), visY - barHeight, barWidth - 2, barHeight);
-        ctx.fillRect(visCenter - ((i + 1) * barWidth), visY - barHeight, barWidth - 2, barHeight);
-      }
-
-
-      // === LAYER 5: FOOTER & CALL TO ACTION ===
-
-      // 1. Reference Pill (Moved UP significantly to make room for CTA)
-      const refText = reading.reference;
-      ctx.font = `bold ${32}px Inter, sans-serif`;
-      const refWidth = ctx.measureText(refText).width + 60;
-      const refX = (WIDTH - refWidth) / 2;
-      const refY = HEIGHT - 340; // Higher up
-
-      ctx.shadowColor = "rgba(0,0,0,0.5)";
-      ctx.shadowBlur = 10;
-      fillRoundRect(ctx, refX, refY, refWidth, 60, 16, "rgba(79, 70, 229, 0.95)");
-
-      ctx.fillStyle = "white";
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      ctx.shadowColor = "transparent";
-      ctx.fillText(refText, WIDTH / 2, refY + 30);
-
-      // 2. CALL TO ACTION (CTA) - Viral Style
-      const ctaY = HEIGHT - 180;
-
-      // Line 1: Main Hook (Gold + Black Outline)
-      ctx.font = `900 42px Inter, sans-serif`;
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-
-      ctx.shadowColor = "rgba(0,0,0,1)";
-      ctx.shadowBlur = 15;
-
-      ctx.fillStyle = "#fbbf24"; // Amber-400
-      ctx.fillText("ESCRIBE 'AMÉN'", WIDTH / 2, ctaY);
-
-      // Strong Stroke for visibility over visualizer
-      ctx.strokeStyle = "black";
-      ctx.lineWidth = 6;
-      ctx.strokeText("ESCRIBE 'AMÉN'", WIDTH / 2, ctaY);
-      ctx.fillText("ESCRIBE 'AMÉN'", WIDTH / 2, ctaY);
-
-      // Line 2: Subtitle (White)
-      ctx.font = `bold 24px Inter, sans-serif`;
-      ctx.fillStyle = "white";
-      ctx.shadowBlur = 4;
-      ctx.shadowColor = "black";
-      ctx.fillText("Y COMPARTE LA PALABRA DEL SEÑOR", WIDTH / 2, ctaY + 45);
-
-
-      // === LAYER 6: PROGRESS BAR ===
-      const barHeight = 14;
-      const gradBar = ctx.createLinearGradient(0, 0, WIDTH, 0);
-      gradBar.addColorStop(0, "#6366f1");
-      gradBar.addColorStop(1, "#a855f7");
-
-      ctx.fillStyle = "#111827";
-      ctx.fillRect(0, HEIGHT - barHeight, WIDTH, barHeight);
-
-      ctx.fillStyle = gradBar;
-      ctx.shadowColor = "rgba(168, 85, 247, 0.6)";
-      ctx.shadowBlur = 15;
-      ctx.fillRect(0, HEIGHT - barHeight, WIDTH * progress, barHeight);
+      lastFrameTime = now;
 
       requestAnimationFrame(drawFrame);
     };
 
-    drawFrame();
+    if (intro > 0) {
+      // The cover is recorded on its own first, then the narration starts
+      introUntil = performance.now() + intro * 1000;
+      recorder.start();
+      startDrawing(); // Draws the cover until introUntil
+      setTimeout(() => { if (!signal?.aborted) startNarration(); }, intro * 1000);
+    } else {
+      startNarration();
+    }
   });
 };
\ No newline at end of file
@@ -0,0 +1,284 @@
+import { LiturgicalTheme } from "./liturgyService";
+import classicTemplate from "../templates/classic.json";
+import minimalTemplate from "../templates/minimal.json";
+import captionsTemplate from "../templates/captions.json";
+
+/**
+ * Declarative description of a video look. Layers are drawn in order by
+ * createFrameRenderer, which also drives the in-app preview, so the preview
+ * and the final render cannot drift apart.
+ *
+ * Coordinates are in the 720x1280 reference frame (see fitTemplate for other
+ * sizes). Colors are CSS colors,
+ * or "$pill" / "$barStart" / "$barEnd" / "$glow" / "$visualizer" / "$tint"
+ * to use the liturgical palette of the day. Texts may be "$name" overlay
+ * strings (languageService), drawn in the language of the reading.
+ */
+
+export const REFERENCE_WIDTH = 720;
+export const REFERENCE_HEIGHT = 1280;
+
+// Frames are laid out at least this tall (in template units), so short
+// formats scale the text down instead of losing the scrolling area
+const MIN_LAYOUT_HEIGHT = 960;
+// On wide frames the scrolling text stays in a readable column
+const MAX_TEXT_COLUMN = 1000;
+
+export interface TemplateFont {
+  size: number;
+  weight: string; // CSS font-weight, e.g. "900", "bold"
+  lineHeight?: number;
+  family?: string; // Defaults to the template fontFamily
+}
+
+export interface BackgroundLayer {
+  type: 'background';
+  zoom: number; // Ken Burns zoom reached at the end of each scene
+  pulse: number; // Extra zoom at full volume
+  tint: boolean; // Liturgical color wash
+  overlay: { offset: number; color: string }[]; // Vertical gradient
+}
+
+export interface ParticlesLayer {
+  type: 'particles';
+  count: number;
+  color: string;
+}
+
+export interface TextLayer {
+  type: 'text';
+  font: TemplateFont;
+  color: string; // Words not yet spoken
+  activeColor: string;
+  pastColor: string;
+  strokeColor: string;
+  strokeWidth: number;
+  scrollSmoothing: number; // 0 = jump, closer to 1 = slower glide
+}
+
+// Short subtitles at the bottom instead of the scrolling text
+export interface CaptionsLayer {
+  type: 'captions';
+  bottom: number; // Distance from the bottom edge to the caption box bottom
+  font: TemplateFont;
+  maxLineChars: number; // Cue length; two lines per cue
+  color: string;
+  activeColor: string; // Word being spoken
+  strokeColor: string;
+  strokeWidth: number;
+  background: string; // Box behind the lines ("transparent" for none)
+  radius: number;
+}
+
+export interface HeaderLayer {
+  type: 'header';
+  y: number;
+  badgeFont: TemplateFont;
+  badgeHeight: number;
+  badgeColor: string;
+  badgeBorder: string;
+  titleFont: TemplateFont;
+  titleOffset: number; // From the badge top to the first title line
+  color: string;
+}
+
+// Psalm only: the response banner
+export interface RefrainLayer {
+  type: 'refrain';
+  y: number;
+  font: TemplateFont;
+  color: string;
+  activeColor: string;
+  background: string;
+  activeBackground: string;
+}
+
+export interface VisualizerLayer {
+  type: 'visualizer';
+  color: string;
+  maxHeight: number;
+  bottom: number;
+}
+
+export interface ReferenceLayer {
+  type: 'reference';
+  bottom: number; // Distance from the bottom edge to the pill top
+  font: TemplateFont;
+  height: number;
+  radius: number;
+  color: string;
+  textColor: string;
+}
+
+export interface CtaLayer {
+  type: 'cta';
+  bottom: number;
+  text: string; // "$cta" / "$ctaSubtitle" use the reading's language
+  subtitle: string;
+  font: TemplateFont;
+  subtitleFont: TemplateFont;
+  color: string;
+  subtitleColor: string;
+  strokeColor: string;
+}
+
+export interface ProgressLayer {
+  type: 'progress';
+  height: number;
+  trackColor: string;
+  startColor: string;
+  endColor: string;
+  glowColor: string;
+}
+
+export type TemplateLayer =
+  | BackgroundLayer
+  | ParticlesLayer
+  | TextLayer
+  | CaptionsLayer
+  | HeaderLayer
+  | RefrainLayer
+  | VisualizerLayer
+  | ReferenceLayer
+  | CtaLayer
+  | ProgressLayer;
+
+export interface VideoTemplate {
+  id: string;
+  name: string;
+  fontFamily: string;
+  safeArea: { top: number; bottom: number; padding: number };
+  layers: TemplateLayer[];
+  coverIntro?: number; // Seconds the cover is shown before the narration starts
+}
+
+// Layer defaults (the classic look, captions from the captions template), so
+// custom templates only list what changes
+const LAYER_DEFAULTS: { [K in TemplateLayer['type']]: Extract<TemplateLayer, { type: K }> } = (() => {
+  const defaults: any = {};
+  [...classicTemplate.layers, ...captionsTemplate.layers].forEach(layer => { defaults[layer.type] ??= layer; });
+  return defaults;
+})();
+
+/**
+ * Validates a template (e.g. a user JSON file) and fills in missing fields.
+ * Throws with a readable message on anything it cannot use.
+ */
+export const parseTemplate = (raw: any): VideoTemplate => {
+  if (!raw || typeof raw !== 'object') throw new Error("La plantilla no es un objeto JSON.");
+  if (!Array.isArray(raw.layers) || raw.layers.length === 0) throw new Error("La plantilla necesita una lista 'layers'.");
+
+  const layers = raw.layers.map((layer: any, index: number) => {
+    const defaults = LAYER_DEFAULTS[layer?.type as TemplateLayer['type']];
+    if (!defaults) {
+      throw new Error(`Capa ${index + 1}: tipo desconocido "${layer?.type}" (usa ${Object.keys(LAYER_DEFAULTS).join(", ")}).`);
+    }
+    return { ...defaults, ...layer };
+  });
+
+  return {
+    id: String(raw.id || "custom"),
+    name: String(raw.name || raw.id || "Personalizada"),
+    fontFamily: raw.fontFamily || classicTemplate.fontFamily,
+    safeArea: { ...classicTemplate.safeArea, ...raw.safeArea },
+    layers,
+    ...(Number(raw.coverIntro) > 0 && { coverIntro: Number(raw.coverIntro) })
+  };
+};
+
+export const BUILT_IN_TEMPLATES: VideoTemplate[] = [
+  parseTemplate(classicTemplate),
+  parseTemplate(minimalTemplate),
+  parseTemplate(captionsTemplate)
+];
+
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+/**
+ * Built-in template by id, or a custom JSON template fetched from `url`
+ */
+export const loadTemplate = async (id: string, url?: string): Promise<VideoTemplate> => {
+  const builtIn = BUILT_IN_TEMPLATES.find(t => t.id === id);
+  if (builtIn) return builtIn;
+  if (!url) return DEFAULT_TEMPLATE;
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`No se pudo cargar la plantilla (${url}): HTTP ${response.status}`);
+  return parseTemplate(await response.json());
+};
+
+export const findLayer = <K extends TemplateLayer['type']>(template: VideoTemplate, type: K) => {
+  return template.layers.find(layer => layer.type === type) as Extract<TemplateLayer, { type: K }> | undefined;
+};
+
+/**
+ * Canvas font string for a template font
+ */
+export const toCanvasFont = (font: TemplateFont, template: VideoTemplate) => {
+  return `${font.weight} ${font.size}px ${font.family || template.fontFamily}`;
+};
+
+/**
+ * Resolves "$name" colors against the liturgical palette
+ */
+export const resolveColor = (color: string, theme: LiturgicalTheme): string => {
+  if (!color.startsWith("$")) return color;
+  const key = color.slice(1) as keyof LiturgicalTheme;
+  return theme[key] ?? color;
+};
+
+/**
+ * A template laid out for an output size. Drawing happens in template units
+ * (`width` x `height`) and is scaled by `scale` to the output pixels.
+ */
+export interface FittedTemplate {
+  template: VideoTemplate;
+  width: number;
+  height: number;
+  scale: number;
+}
+
+/**
+ * Fits a template to any output size. Fonts keep their size relative to the
+ * shorter layout side; on frames shorter than 9:16 the top and bottom
+ * anchors move in proportionally, and on wide frames the text is kept in a
+ * centered column. Background crops follow from the frame ratio.
+ */
+export const fitTemplate = (template: VideoTemplate, outputWidth: number, outputHeight: number): FittedTemplate => {
+  const scale = Math.min(outputWidth / REFERENCE_WIDTH, outputHeight / MIN_LAYOUT_HEIGHT);
+  const width = outputWidth / scale;
+  const height = outputHeight / scale;
+
+  const squeeze = Math.min(1, height / REFERENCE_HEIGHT);
+  if (squeeze === 1 && width === REFERENCE_WIDTH) return { template, width, height, scale };
+
+  const layers = template.layers.map((layer): TemplateLayer => {
+    switch (layer.type) {
+      case 'header':
+      case 'refrain':
+        return { ...layer, y: layer.y * squeeze };
+      case 'visualizer':
+      case 'reference':
+      case 'cta':
+      case 'captions':
+        return { ...layer, bottom: layer.bottom * squeeze };
+      default:
+        return layer;
+    }
+  });
+
+  return {
+    template: {
+      ...template,
+      safeArea: {
+        top: template.safeArea.top * squeeze,
+        bottom: template.safeArea.bottom * squeeze,
+        padding: Math.max(template.safeArea.padding, (width - MAX_TEXT_COLUMN) / 2)
+      },
+      layers
+    },
+    width,
+    height,
+    scale
+  };
+};
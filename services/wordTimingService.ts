@@ -0,0 +1,292 @@
+import { WordTiming } from "../types";
+
+// Analysis window for the energy envelope (seconds)
+const FRAME_SIZE = 0.01;
+// Minimum silence length that counts as a real pause between phrases
+const MIN_PAUSE = 0.18;
+// Silence shorter than this inside speech is ignored (plosives, breaths)
+const MIN_SPEECH = 0.05;
+
+export interface PcmData {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+}
+
+/**
+ * Same tokenization used by the canvas renderer and the preview,
+ * so timings map 1:1 to the words on screen.
+ */
+export const tokenizeWords = (text: string): string[] => {
+  return text.split(/\s+/).filter(w => w.length > 0);
+};
+
+const readString = (view: DataView, offset: number, length: number) => {
+  let result = "";
+  for (let i = 0; i < length; i++) {
+    result += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return result;
+};
+
+/**
+ * Parses a 16-bit PCM WAV file (the format produced by generateReadingAudio)
+ * into mono float samples. Returns null for any other format.
+ */
+export const parseWav = (buffer: ArrayBuffer): PcmData | null => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 44 || readString(view, 0, 4) !== "RIFF" || readString(view, 8, 4) !== "WAVE") return null;
+
+  let offset = 12;
+  let sampleRate = 0;
+  let numChannels = 0;
+  let bitsPerSample = 0;
+  let audioFormat = 0;
+
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = readString(view, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === "fmt ") {
+      audioFormat = view.getUint16(body, true);
+      numChannels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+    } else if (chunkId === "data") {
+      if (audioFormat !== 1 || bitsPerSample !== 16 || numChannels === 0) return null;
+
+      const dataLength = Math.min(chunkSize, buffer.byteLength - body);
+      const frameCount = Math.floor(dataLength / (2 * numChannels));
+      const samples = new Float32Array(frameCount);
+      for (let i = 0; i < frameCount; i++) {
+        let sum = 0;
+        for (let c = 0; c < numChannels; c++) {
+          sum += view.getInt16(body + (i * numChannels + c) * 2, true);
+        }
+        samples[i] = sum / numChannels / 32768;
+      }
+      return { samples, sampleRate };
+    }
+
+    // Chunks are word-aligned
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+  return null;
+};
+
+/**
+ * Falls back to the browser decoder for anything that is not plain PCM WAV
+ */
+const decodeWithAudioContext = async (buffer: ArrayBuffer): Promise<PcmData> => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const audioCtx = new AudioContextClass();
+  try {
+    const decoded = await audioCtx.decodeAudioData(buffer);
+    const samples = new Float32Array(decoded.length);
+    for (let c = 0; c < decoded.numberOfChannels; c++) {
+      const channel = decoded.getChannelData(c);
+      for (let i = 0; i < decoded.length; i++) samples[i] += channel[i] / decoded.numberOfChannels;
+    }
+    return { samples, sampleRate: decoded.sampleRate };
+  } finally {
+    audioCtx.close();
+  }
+};
+
+/**
+ * Splits the audio into speech segments using a short-term RMS envelope.
+ * The silence threshold adapts to the loudness of each recording.
+ */
+const detectSpeechSegments = ({ samples, sampleRate }: PcmData): { segments: Segment[]; duration: number } => {
+  const frameLength = Math.max(1, Math.floor(sampleRate * FRAME_SIZE));
+  const frameCount = Math.floor(samples.length / frameLength);
+  const duration = samples.length / sampleRate;
+  const energies = new Float32Array(frameCount);
+
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    const start = f * frameLength;
+    for (let i = 0; i < frameLength; i++) {
+      const s = samples[start + i];
+      sum += s * s;
+    }
+    energies[f] = Math.sqrt(sum / frameLength);
+  }
+
+  const sorted = Array.from(energies).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] || 0;
+  const speechLevel = sorted[Math.floor(sorted.length * 0.9)] || 0;
+  const threshold = noiseFloor + (speechLevel - noiseFloor) * 0.12;
+
+  const minPauseFrames = Math.round(MIN_PAUSE / FRAME_SIZE);
+  const minSpeechFrames = Math.round(MIN_SPEECH / FRAME_SIZE);
+
+  const segments: Segment[] = [];
+  let segStart = -1;
+  let silentRun = 0;
+
+  for (let f = 0; f < frameCount; f++) {
+    const isVoiced = energies[f] > threshold;
+    if (isVoiced) {
+      if (segStart < 0) segStart = f;
+      silentRun = 0;
+    } else if (segStart >= 0) {
+      silentRun++;
+      if (silentRun >= minPauseFrames) {
+        const segEnd = f - silentRun + 1;
+        if (segEnd - segStart >= minSpeechFrames) segments.push({ start: segStart * FRAME_SIZE, end: segEnd * FRAME_SIZE });
+        segStart = -1;
+        silentRun = 0;
+      }
+    }
+  }
+  if (segStart >= 0) {
+    const segEnd = frameCount - silentRun;
+    if (segEnd - segStart >= minSpeechFrames) segments.push({ start: segStart * FRAME_SIZE, end: segEnd * FRAME_SIZE });
+  }
+
+  return { segments, duration };
+};
+
+/**
+ * Rough spoken length of a word: letters plus a constant for the onset
+ */
+const wordWeight = (word: string) => {
+  const letters = word.replace(/[^\p{L}\p{N}]/gu, "").length;
+  return Math.max(letters, 1) + 1.5;
+};
+
+const endsPhrase = (word: string) => /[.,;:!?»”)\]]$/.test(word);
+
+/**
+ * Spreads a run of words across a time span proportionally to their weight
+ */
+const distributeWords = (words: string[], span: Segment[], out: WordTiming[]) => {
+  const speechTime = span.reduce((acc, s) => acc + (s.end - s.start), 0);
+  const totalWeight = words.reduce((acc, w) => acc + wordWeight(w), 0);
+
+  // Maps a position on the "speech only" axis back to real audio time
+  const toRealTime = (t: number) => {
+    let remaining = t;
+    for (const s of span) {
+      const len = s.end - s.start;
+      if (remaining <= len) return s.start + remaining;
+      remaining -= len;
+    }
+    return span[span.length - 1].end;
+  };
+
+  let cumulative = 0;
+  words.forEach(word => {
+    const weight = wordWeight(word);
+    const start = toRealTime((cumulative / totalWeight) * speechTime);
+    cumulative += weight;
+    const end = toRealTime((cumulative / totalWeight) * speechTime);
+    out.push({ word, start, end });
+  });
+};
+
+/**
+ * Aligns words to detected speech. Long pauses are matched, in order, to the
+ * punctuation break closest to where a proportional estimate would put them;
+ * words between two matched pauses are then spread over the speech in between.
+ */
+export const alignWords = (words: string[], segments: Segment[], duration: number): WordTiming[] => {
+  if (words.length === 0) return [];
+  if (segments.length === 0) segments = [{ start: 0, end: duration }];
+
+  const totalWeight = words.reduce((acc, w) => acc + wordWeight(w), 0);
+  const speechTime = segments.reduce((acc, s) => acc + (s.end - s.start), 0);
+
+  // Candidate break positions: after word i, expressed as fraction of total weight
+  const breaks: { wordIndex: number; position: number }[] = [];
+  let cumulative = 0;
+  words.forEach((word, i) => {
+    cumulative += wordWeight(word);
+    if (i < words.length - 1 && endsPhrase(word)) breaks.push({ wordIndex: i, position: cumulative / totalWeight });
+  });
+
+  // Greedy monotonic matching of pauses (between segments) to breaks
+  const groups: { lastWord: number; segmentEnd: number }[] = [];
+  let elapsedSpeech = 0;
+  let breakCursor = 0;
+  for (let p = 0; p < segments.length - 1; p++) {
+    elapsedSpeech += segments[p].end - segments[p].start;
+    const expected = elapsedSpeech / speechTime;
+
+    let best = -1;
+    let bestDistance = Infinity;
+    for (let b = breakCursor; b < breaks.length; b++) {
+      const distance = Math.abs(breaks[b].position - expected);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = b;
+      } else if (breaks[b].position > expected) {
+        break;
+      }
+    }
+
+    // Only trust the match when the pause is near a punctuation mark
+    if (best >= 0 && bestDistance < 0.1) {
+      groups.push({ lastWord: breaks[best].wordIndex, segmentEnd: p });
+      breakCursor = best + 1;
+    }
+  }
+  groups.push({ lastWord: words.length - 1, segmentEnd: segments.length - 1 });
+
+  const timings: WordTiming[] = [];
+  let firstWord = 0;
+  let firstSegment = 0;
+  groups.forEach(group => {
+    const groupWords = words.slice(firstWord, group.lastWord + 1);
+    const groupSegments = segments.slice(firstSegment, group.segmentEnd + 1);
+    if (groupWords.length > 0) distributeWords(groupWords, groupSegments, timings);
+    firstWord = group.lastWord + 1;
+    firstSegment = group.segmentEnd + 1;
+  });
+
+  return timings;
+};
+
+/**
+ * Computes per-word start/end times for a narration.
+ * Accepts the blob URL returned by generateReadingAudio.
+ */
+export const computeWordTimings = async (audioUrl: string, text: string): Promise<WordTiming[]> => {
+  const response = await fetch(audioUrl);
+  return computeWordTimingsFromBuffer(await response.arrayBuffer(), text);
+};
+
+/**
+ * Same as computeWordTimings, for audio bytes already in memory (e.g. the CLI)
+ */
+export const computeWordTimingsFromBuffer = async (buffer: ArrayBuffer, text: string): Promise<WordTiming[]> => {
+  const pcm = parseWav(buffer) || await decodeWithAudioContext(buffer);
+  const { segments, duration } = detectSpeechSegments(pcm);
+  return alignWords(tokenizeWords(text), segments, duration);
+};
+
+/**
+ * Index of the word being spoken at `time` (binary search).
+ * Between words, the previous word stays active.
+ */
+export const findWordIndexAtTime = (timings: WordTiming[], time: number): number => {
+  let low = 0;
+  let high = timings.length - 1;
+  let result = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (timings[mid].start <= time) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,108 @@
+/**
+ * Minimal ZIP writer for the export package. Entries are stored, not
+ * deflated: MP4, JPEG and PNG are already compressed, and the text files are
+ * small. Works in the browser and in Node.
+ */
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, "/" separated
+  data: Uint8Array<ArrayBuffer>;
+  modified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date fields (2-second resolution, local time)
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const UTF8_FLAG = 0x0800; // Names are UTF-8 (accents in titles)
+// Sizes and offsets are 32-bit without ZIP64, which this writer does not do
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+const tooLarge = (what: string) => new Error(
+  `${what} supera los 4 GB que admite el ZIP. Exporta menos formatos o lecturas por paquete.`
+);
+
+/**
+ * The archive as consecutive parts, entry data included as is: wrap them in
+ * a Blob (or write them out) instead of copying them into one buffer
+ */
+export const createZip = (entries: ZipEntry[]): Uint8Array<ArrayBuffer>[] => {
+  if (entries.length > MAX_ZIP_ENTRIES) throw new Error(`Demasiados archivos para un ZIP (${entries.length}; máximo ${MAX_ZIP_ENTRIES}).`);
+  const encoder = new TextEncoder();
+  const locals: Uint8Array<ArrayBuffer>[] = [];
+  const centrals: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    if (entry.data.length > MAX_ZIP_SIZE) throw tooLarge(`"${entry.name}"`);
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const { time, date } = toDosDateTime(entry.modified || new Date());
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true); // Version needed: 2.0
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, 0, true); // Stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, entry.data.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true); // Made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, entry.data.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, entry.data);
+    centrals.push(central);
+    offset += local.length + entry.data.length;
+    // Where the next entry (or the central directory) starts must fit in 32 bits
+    if (offset > MAX_ZIP_SIZE) throw tooLarge("El paquete");
+  });
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return [...locals, ...centrals, end];
+};
@@ -1,21 +1,105 @@
+export type LiturgicalSeason = 'advent' | 'christmas' | 'lent' | 'triduum' | 'easter' | 'ordinary';
+
+export type LiturgicalColor = 'purple' | 'rose' | 'white' | 'red' | 'green';
+
+export interface LiturgicalDay {
+  season: LiturgicalSeason;
+  color: LiturgicalColor;
+  sundayCycle: 'A' | 'B' | 'C';
+  weekdayCycle: 'I' | 'II';
+  feast?: string; // Solemnity, feast or memorial, e.g. "Santa Teresa de Jesús"
+}
+
+export interface ScriptureCitation {
+  book: string; // As written in the reference, e.g. "Lc", "1 Jn"
+  chapter: number;
+  verses?: string; // Raw verse range, e.g. "13-21" or "1-5. 8a"
+  firstVerse?: number;
+  lastVerse?: number;
+}
+
+export type LanguageId = 'es' | 'en' | 'pt';
+
 export interface ReadingContent {
   id: string;
-  type: '1st_reading' | 'psalm' | '2nd_reading' | 'gospel';
+  type: '1st_reading' | 'psalm' | '2nd_reading' | 'gospel' | 'reflection';
   title: string;
   reference: string;
   text: string;
   date: string;
+  // Liturgical metadata (optional: sessions saved before it existed lack it)
+  liturgy?: LiturgicalDay;
+  citation?: ScriptureCitation;
+  psalmRefrain?: string; // Psalm only: the "R." response
+  language?: LanguageId; // Sessions saved before languages existed are Spanish
+}
+
+export interface WordTiming {
+  word: string;
+  start: number; // Seconds from the start of the narration
+  end: number;
+}
+
+export type SceneTransition = 'cut' | 'crossfade' | 'wipe';
+
+/**
+ * One background scene of the timeline
+ */
+export interface Scene {
+  imageIndex: number; // Into GeneratedAsset.imageUrls
+  start: number; // 0-1 of the narration; the first scene starts at 0
+  transition: SceneTransition; // Into this scene (ignored on the first)
+  pinnedWord?: number; // Narration word the scene starts on; overrides `start` when timings exist
+}
+
+/**
+ * How one scene image was made, so it can be edited and redone on its own
+ */
+export interface ImageDetail {
+  prompt: string; // Art Director prompt; empty for uploads
+  seed: number;
+  locked?: boolean; // Kept by every regeneration
+  uploaded?: boolean; // The user's own image
+}
+
+export type PlatformId = 'tiktok' | 'reels' | 'shorts' | 'facebook';
+
+// Text for the post that carries a video on one platform
+export interface PostMetadata {
+  title: string;
+  description: string;
+  hashtags: string[]; // With the "#"
+  pinnedComment: string;
+}
+
+export type PublishStatus = 'uploading' | 'scheduled' | 'processing' | 'published' | 'failed';
+
+// One video on one platform, as last reported by the publish server
+export interface PublishRecord {
+  status: PublishStatus;
+  remoteId?: string; // Platform video/post id, for status checks
+  url?: string;
+  scheduledAt?: string; // ISO time the post goes public
+  error?: string;
+  updatedAt: string;
 }
 
 export interface GeneratedAsset {
   readingId: string;
   imageUrls?: string[]; // Changed from single URL to Array
+  imageDetails?: ImageDetail[]; // Parallel to imageUrls
   audioUrl?: string;
-  videoUrl?: string;
+  wordTimings?: WordTiming[]; // Aligned to the words of reading.text
+  videoUrl?: string; // First output format, the one previewed
+  videos?: Partial<Record<OutputFormatId, string>>; // Every rendered format
+  justRendered?: boolean; // Rendered in this tab; never stored, so restored videos are not downloaded again
+  subtitles?: { srt: string; vtt: string }; // File contents, made with the video
+  metadata?: Partial<Record<PlatformId, PostMetadata>>; // Post texts, made for the export package
+  publications?: Partial<Record<PlatformId, PublishRecord>>;
+  scenes?: Scene[]; // Timeline; images split the narration evenly when unset
   isGeneratingImage: boolean;
   isGeneratingAudio: boolean;
   isGeneratingVideo?: boolean;
-  imagePrompt?: string;
 }
 
 export interface AppState {
@@ -25,4 +109,46 @@ export interface AppState {
   isLoading: boolean;
   isAutoMode: boolean; // New flag for full automation
   error: string | null;
+}
+
+export type ImageProviderId = 'pollinations' | 'imagen' | 'stable_diffusion' | 'local_folder';
+
+export type TtsProviderId = 'gemini' | 'local' | 'recording';
+
+export type OutputFormatId = 'vertical_hd' | 'vertical' | 'portrait' | 'square' | 'landscape';
+
+export interface VoiceSettings {
+  provider: TtsProviderId;
+  voice: string; // Gemini prebuilt voice, Piper model or Coqui speaker id
+  languageVoices?: Partial<Record<LanguageId, string>>; // Per-language override of `voice`
+}
+
+export interface MusicSettings {
+  trackId: string; // From the music folder manifest; empty for no music
+  volume: number; // 0-1, before ducking
+}
+
+export type ReflectionTone = 'pastoral' | 'contemplative' | 'youth' | 'catechetical';
+
+export interface ReflectionSettings {
+  tone: ReflectionTone;
+  targetSeconds: number; // Spoken length of the script
+  guardrails: string; // Extra rules on top of the built-in doctrinal ones
+}
+
+export interface AppSettings {
+  imageProvider: ImageProviderId;
+  stableDiffusionUrl: string; // Automatic1111-compatible API, e.g. http://127.0.0.1:7860
+  artworkUrl: string; // Folder with manifest.json of pre-approved artwork
+  tts: Record<ReadingContent['type'], VoiceSettings>; // Narration per reading type
+  music: Record<ReadingContent['type'], MusicSettings>; // Background music per reading type
+  musicUrl: string; // Folder with manifest.json of royalty-free tracks
+  localTtsUrl: string; // Piper/Coqui HTTP server
+  localTtsEngine: 'piper' | 'coqui';
+  reflection: ReflectionSettings;
+  templateId: string; // Built-in template id, or 'custom' to load templateUrl
+  templateUrl: string; // JSON template for 'custom'
+  outputFormats: OutputFormatId[]; // Rendered from the same images and narration
+  languages: LanguageId[]; // Parallel video sets for the same date
+  coverIntro: boolean; // Cover shown for half a second before the narration
 }
\ No newline at end of file
@@ -1,5 +1,17 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { readFileSync } from 'node:fs';
+
+// Secreto del servidor de publicación (npm run publish-server lo crea en .publish/secret).
+// Se lee en cada petición para no reiniciar Vite si el servidor arranca después.
+const readPublishSecret = (fromEnv?: string) => {
+  if (fromEnv) return fromEnv;
+  try {
+    return readFileSync('.publish/secret', 'utf8').trim();
+  } catch {
+    return '';
+  }
+};
 
 export default defineConfig(({ mode }) => {
   // Cargar variables de entorno desde el archivo .env (si existe)
@@ -17,6 +29,19 @@ export default defineConfig(({ mode }) => {
     },
     server: {
       proxy: {
+        // Publicación en redes: servidor Node con los tokens OAuth (npm run publish-server)
+        // El proxy añade el secreto compartido; el navegador nunca lo ve
+        '/api/publish': {
+          target: 'http://127.0.0.1:5001',
+          changeOrigin: true,
+          secure: false,
+          configure: (proxy) => {
+            proxy.on('proxyReq', (proxyReq) => {
+              const secret = readPublishSecret(env.PUBLISH_SECRET);
+              if (secret) proxyReq.setHeader('X-Publish-Secret', secret);
+            });
+          },
+        },
         // Redirigir peticiones API al backend de Python
         '/api': {
           target: 'http://localhost:5000',